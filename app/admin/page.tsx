@@ -12,15 +12,19 @@ import { HelpSupport } from '@/components/Support/HelpSupport'
 import { Discover } from '@/components/Support/Discover'
 import { ProjectChat } from '@/components/Chat/ProjectChat'
 import { DashboardProjectDetail } from '@/components/Dashboard/ProjectDetail'
+import { DashboardProjectConversations } from '@/components/Dashboard/ProjectConversations'
 import { SidebarInset, SidebarProvider } from '@/components/ui/Sidebar'
 import { SiteHeader } from '@/components/Sidebar/SiteHeader'
+import { useHandoffNotifications } from '@/hooks/use-handoff-notifications'
 
 export default function AdminPage() {
   const [currentPath, setCurrentPath] = useState(window.location.pathname)
+  const [currentSearch, setCurrentSearch] = useState(window.location.search)
 
   useEffect(() => {
     const handlePopState = () => {
       setCurrentPath(window.location.pathname)
+      setCurrentSearch(window.location.search)
     }
 
     window.addEventListener('popstate', handlePopState)
@@ -29,9 +33,12 @@ export default function AdminPage() {
 
   const handleNavigate = (path: string) => {
     window.history.pushState({}, '', path)
-    setCurrentPath(path)
+    setCurrentPath(window.location.pathname)
+    setCurrentSearch(window.location.search)
   }
 
+  useHandoffNotifications(handleNavigate)
+
   const getCurrentView = () => {
     if (currentPath.startsWith('/admin/chat/')) {
       return 'chat'
@@ -41,6 +48,8 @@ export default function AdminPage() {
       return 'help-support'
     } else if (currentPath === '/admin/discover') {
       return 'discover'
+    } else if (currentPath.startsWith('/admin/projects/') && currentPath.endsWith('/conversations')) {
+      return 'project-conversations'
     } else if (currentPath.startsWith('/admin/projects/')) {
       return 'dashboard-project-detail'
     } else if (currentPath === '/admin/projects') {
@@ -60,7 +69,7 @@ export default function AdminPage() {
     if (currentPath.startsWith('/admin/chat/')) {
       return currentPath.replace('/admin/chat/', '')
     } else if (currentPath.startsWith('/admin/projects/')) {
-      return currentPath.replace('/admin/projects/', '')
+      return currentPath.replace('/admin/projects/', '').replace(/\/conversations$/, '')
     }
     return ''
   }
@@ -88,6 +97,12 @@ export default function AdminPage() {
               projectSlug={projectSlug} 
               onNavigate={handleNavigate}
             />
+          ) : currentView === 'project-conversations' ? (
+            <DashboardProjectConversations
+              projectSlug={projectSlug}
+              conversationId={new URLSearchParams(currentSearch).get('conversation')}
+              onNavigate={handleNavigate}
+            />
           ) : currentView === 'dashboard' ? (
             <Homepage />
           ) : currentView === 'playground' ? (
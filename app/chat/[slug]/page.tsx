@@ -4,6 +4,7 @@ import * as React from "react"
 import { useState, useEffect } from "react"
 import { 
   SendIcon, 
+  SquareIcon,
   BotIcon, 
   UserIcon, 
   ShoppingBagIcon,
@@ -32,7 +33,12 @@ import {
 import { supabase } from "@/lib/supabase"
 import { useData } from "@/hooks/use-data"
 import { useProjectChat } from "@/hooks/use-project-chat"
+import type { ChatCitation, ChatProductSuggestion, AnswerFeedback } from "@/hooks/use-project-chat"
 import useIsMobile from '@/hooks/use-mobile'
+import { CitedMessageContent } from "@/components/Chat/MessageCitations"
+import { ProductCards } from "@/components/Chat/ProductCards"
+import { MessageFeedback } from "@/components/Chat/MessageFeedback"
+import { HandoffButton, HandoffBanner, AssistantAvatar } from "@/components/Chat/HandoffControls"
 import type { Database } from "@/lib/supabase"
 
 type Project = Database['public']['Tables']['projects']['Row']
@@ -42,6 +48,11 @@ interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: ChatCitation[]
+  products?: ChatProductSuggestion[]
+  messageId?: string
+  feedback?: AnswerFeedback
+  sender?: 'ai' | 'human'
 }
 
 interface ChatSlugPageProps {
@@ -84,8 +95,15 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
   const { 
     messages: chatMessages, 
     isLoading: isLoadingMessage, 
-    sendMessage 
-  } = useProjectChat()
+    streamingMessageId,
+    sendMessage,
+    stopGeneration,
+    submitFeedback,
+    conversationId,
+    handoffStatus,
+    requestHandoff,
+    cancelHandoff
+  } = useProjectChat(params.slug)
   
   // Initialize with welcome message if no messages yet
   const [initialMessage] = React.useState<ChatMessage>(
@@ -174,9 +192,12 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
   const handleSendMessage = async () => {
     if (!currentMessage.trim()) return
 
-    // Send message using the hook
-    await sendMessage(currentMessage, params.slug)
+    // Clear the input right away so it is free while the answer streams in
+    const message = currentMessage
     setCurrentMessage("")
+
+    // Send message using the hook
+    await sendMessage(message, params.slug)
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -327,6 +348,12 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
           
           {/* Right side actions */}
           <div className="flex items-center gap-2">
+            <HandoffButton
+              conversationId={conversationId}
+              handoffStatus={handoffStatus}
+              onRequest={requestHandoff}
+            />
+
             {/* Social Icons - Desktop Only */}
             {hasSocialLinks && !isMobile && !isTablet && (
               <div className="flex gap-1">
@@ -387,11 +414,7 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
                 key={message.id}
                 className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
               >
-                {message.role === 'assistant' && (
-                  <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
-                    <BotIcon className="h-4 w-4 text-white" />
-                  </div>
-                )}
+                {message.role === 'assistant' && <AssistantAvatar sender={message.sender} />}
                 <div
                   className={`max-w-[70%] rounded-lg p-3 ${
                     message.role === 'user'
@@ -399,10 +422,18 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
                       : 'bg-sidebar-accent text-sidebar-foreground'
                   }`}
                 >
-                  <p className="text-sm leading-relaxed font-general">{message.content}</p>
+                  <CitedMessageContent content={message.content} citations={message.citations} />
+                  <ProductCards products={message.products} />
                   <p className="text-xs opacity-60 mt-1 font-general">
+                    {message.role === 'assistant' && `${message.sender === 'human' ? 'Team member' : 'AI'} · `}
                     {message.timestamp.toLocaleTimeString()}
                   </p>
+                  {message.role === 'assistant' && message.messageId && message.id !== streamingMessageId && (
+                    <MessageFeedback
+                      feedback={message.feedback}
+                      onSubmit={(feedback, comment) => submitFeedback(message.id, feedback, comment)}
+                    />
+                  )}
                 </div>
                 {message.role === 'user' && (
                   <div className="w-8 h-8 bg-sidebar-foreground rounded-full flex items-center justify-center flex-shrink-0">
@@ -411,7 +442,7 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
                 )}
               </div>
             ))}
-            {isLoadingMessage && (
+            {isLoadingMessage && !streamingMessageId && handoffStatus === 'bot' && (
               <div className="flex gap-3 justify-start">
                 <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
                   <BotIcon className="h-4 w-4 text-white" />
@@ -427,6 +458,8 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
             )}
           </div>
 
+          <HandoffBanner handoffStatus={handoffStatus} onCancel={cancelHandoff} />
+
           {/* Chat Input */}
           <div className="border-t border-sidebar-border p-4 bg-background flex-shrink-0">
             <div className="flex gap-3">
@@ -434,17 +467,27 @@ export default function ChatSlugPage({ params }: ChatSlugPageProps) {
                 value={currentMessage}
                 onChange={(e) => setCurrentMessage(e.target.value)}
                 onKeyPress={handleKeyPress}
-                placeholder="Type your message..."
+                placeholder={handoffStatus === 'bot' ? "Type your message..." : "Message the team..."}
                 className="flex-1 bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent font-general"
                 disabled={isLoadingMessage}
               />
-              <Button
-                onClick={handleSendMessage}
-                disabled={!currentMessage.trim() || isLoadingMessage}
-                className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
-              >
-                <SendIcon className="h-4 w-4" />
-              </Button>
+              {isLoadingMessage ? (
+                <Button
+                  onClick={stopGeneration}
+                  className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
+                  title="Stop generating"
+                >
+                  <SquareIcon className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!currentMessage.trim()}
+                  className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
+                >
+                  <SendIcon className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,116 @@
+"use client"
+
+import { useState } from "react"
+import { BotIcon, HeadsetIcon, LoaderIcon } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from '@/components/ui/Button'
+import type { HandoffStatus } from '@/lib/handoff'
+
+interface HandoffButtonProps {
+  conversationId: string | null
+  handoffStatus: HandoffStatus
+  onRequest: () => Promise<{ error: string | null }>
+}
+
+interface HandoffBannerProps {
+  handoffStatus: HandoffStatus
+  onCancel: () => Promise<{ error: string | null }>
+}
+
+interface AssistantAvatarProps {
+  sender?: 'ai' | 'human'
+}
+
+/**
+ * Lets the visitor ask for a person. Shown once the conversation has started, while the bot is answering.
+ */
+export function HandoffButton({ conversationId, handoffStatus, onRequest }: HandoffButtonProps) {
+  const [isRequesting, setIsRequesting] = useState(false)
+
+  if (!conversationId || handoffStatus !== 'bot') return null
+
+  const handleRequest = async () => {
+    setIsRequesting(true)
+    const { error } = await onRequest()
+    setIsRequesting(false)
+
+    if (error) {
+      toast.error(error)
+    }
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={handleRequest}
+      disabled={isRequesting}
+      className="text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar-accent font-general"
+    >
+      {isRequesting
+        ? <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />
+        : <HeadsetIcon className="h-4 w-4 mr-2" />
+      }
+      Talk to a human
+    </Button>
+  )
+}
+
+/**
+ * Tells the visitor who is answering while the conversation is handed off
+ */
+export function HandoffBanner({ handoffStatus, onCancel }: HandoffBannerProps) {
+  const [isCancelling, setIsCancelling] = useState(false)
+
+  if (handoffStatus === 'bot') return null
+
+  const handleCancel = async () => {
+    setIsCancelling(true)
+    const { error } = await onCancel()
+    setIsCancelling(false)
+
+    if (error) {
+      toast.error(error)
+    }
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 border-t border-sidebar-border bg-sidebar-accent px-4 py-2 text-xs text-sidebar-foreground/80 font-general">
+      <div className="flex items-center gap-2">
+        <HeadsetIcon className="h-3 w-3 flex-shrink-0" />
+        {handoffStatus === 'requested'
+          ? 'Waiting for a team member to join. Your messages will be passed on.'
+          : "You're chatting with a team member."
+        }
+      </div>
+      {handoffStatus === 'requested' && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCancel}
+          disabled={isCancelling}
+          className="h-7 text-xs text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar"
+        >
+          Back to AI assistant
+        </Button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Avatar for an assistant message, showing whether the bot or a person wrote it
+ */
+export function AssistantAvatar({ sender = 'ai' }: AssistantAvatarProps) {
+  const isHuman = sender === 'human'
+
+  return (
+    <div
+      className={`w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 ${isHuman ? 'bg-green-600' : 'bg-blue-500'}`}
+      title={isHuman ? 'Team member' : 'AI assistant'}
+    >
+      {isHuman ? <HeadsetIcon className="h-4 w-4 text-white" /> : <BotIcon className="h-4 w-4 text-white" />}
+    </div>
+  )
+}
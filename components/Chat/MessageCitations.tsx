@@ -0,0 +1,140 @@
+"use client"
+
+import * as React from "react"
+import { useState } from "react"
+
+import { Badge } from '@/components/ui/Badge'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/Dialog'
+import { DataCard } from '@/components/knowledge-base/DataCard'
+import type { DataItem } from '@/components/knowledge-base/Types'
+import type { ChatCitation } from '@/hooks/use-project-chat'
+
+interface CitedMessageContentProps {
+  content: string
+  citations?: ChatCitation[]
+  onCitationClick?: (citation: ChatCitation) => void
+}
+
+interface CitationSourceDialogProps {
+  citation: ChatCitation | null
+  items: Pick<DataItem, 'id' | 'type'>[]
+  onClose: () => void
+}
+
+const formatSourceType = (sourceType: ChatCitation['sourceType']) => {
+  return sourceType ? sourceType.charAt(0).toUpperCase() + sourceType.slice(1) : 'Source'
+}
+
+const formatSimilarity = (similarity: number | null) => {
+  return similarity === null ? 'Keyword match' : `${Math.round(similarity * 100)}%`
+}
+
+/**
+ * Renders message text with clickable [n] markers and a footnote list of the cited sources.
+ * Without an onCitationClick handler, clicking a citation toggles its snippet inline.
+ */
+export function CitedMessageContent({ content, citations = [], onCitationClick }: CitedMessageContentProps) {
+  const [expandedIndex, setExpandedIndex] = useState<number | null>(null)
+
+  const handleCitationClick = (citation: ChatCitation) => {
+    if (onCitationClick) {
+      onCitationClick(citation)
+    } else {
+      setExpandedIndex(prev => prev === citation.index ? null : citation.index)
+    }
+  }
+
+  const parts = content.split(/(\[\d+\])/g)
+
+  return (
+    <>
+      <p className="text-sm leading-relaxed font-general">
+        {parts.map((part, index) => {
+          const marker = part.match(/^\[(\d+)\]$/)
+          const citation = marker && citations.find(c => c.index === parseInt(marker[1], 10))
+
+          if (!citation) {
+            return <React.Fragment key={index}>{part}</React.Fragment>
+          }
+
+          return (
+            <button
+              key={index}
+              type="button"
+              onClick={() => handleCitationClick(citation)}
+              className="align-super text-[10px] font-semibold text-blue-500 hover:text-blue-400 px-0.5"
+              title={citation.title || formatSourceType(citation.sourceType)}
+            >
+              [{citation.index}]
+            </button>
+          )
+        })}
+      </p>
+
+      {citations.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-sidebar-border space-y-1">
+          {citations.map((citation) => (
+            <div key={citation.index}>
+              <button
+                type="button"
+                onClick={() => handleCitationClick(citation)}
+                className="flex items-center gap-2 w-full text-left text-xs text-sidebar-foreground/70 hover:text-sidebar-foreground transition-colors font-general"
+              >
+                <span className="font-semibold text-blue-500 flex-shrink-0">[{citation.index}]</span>
+                <span className="truncate flex-1">{citation.title || 'Untitled source'}</span>
+                <Badge variant="outline" className="text-[10px] bg-sidebar-foreground/5 text-sidebar-foreground/60 border-sidebar-foreground/10 flex-shrink-0">
+                  {formatSourceType(citation.sourceType)}
+                </Badge>
+                <span className="flex-shrink-0">{formatSimilarity(citation.similarity)}</span>
+              </button>
+              {expandedIndex === citation.index && (
+                <p className="mt-1 ml-6 text-xs text-sidebar-foreground/60 leading-relaxed">
+                  {citation.snippet}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
+
+/**
+ * Shows the knowledge base item a citation points at, for project owners
+ */
+export function CitationSourceDialog({ citation, items, onClose }: CitationSourceDialogProps) {
+  const item = citation
+    ? items.find(i => i.id === citation.sourceId && i.type === citation.sourceType)
+    : undefined
+
+  return (
+    <Dialog open={citation !== null} onOpenChange={(open) => { if (!open) onClose() }}>
+      <DialogContent className="bg-background border-sidebar-border max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="text-sidebar-foreground font-general">
+            Source [{citation?.index}]
+          </DialogTitle>
+          <DialogDescription className="text-sidebar-foreground/60">
+            {citation && (citation.similarity === null
+              ? `${formatSourceType(citation.sourceType)} matched by keyword`
+              : `${formatSourceType(citation.sourceType)} matched at ${formatSimilarity(citation.similarity)} similarity`)}
+          </DialogDescription>
+        </DialogHeader>
+        {item ? (
+          <DataCard item={item as DataItem} />
+        ) : (
+          <p className="text-sm text-sidebar-foreground/70">
+            This source is no longer in the knowledge base.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
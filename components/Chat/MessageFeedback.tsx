@@ -0,0 +1,117 @@
+"use client"
+
+import { useState } from "react"
+import { ThumbsUpIcon, ThumbsDownIcon } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from '@/components/ui/Button'
+import { Textarea } from '@/components/ui/Textarea'
+import type { AnswerFeedback } from '@/hooks/use-project-chat'
+
+interface MessageFeedbackProps {
+  feedback?: AnswerFeedback
+  onSubmit: (feedback: AnswerFeedback, comment?: string) => Promise<{ error: string | null }>
+}
+
+/**
+ * Thumbs up/down for an assistant answer. The rating is sent right away; the visitor can then add
+ * an optional comment, which is sent with the same rating.
+ */
+export function MessageFeedback({ feedback, onSubmit }: MessageFeedbackProps) {
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [showComment, setShowComment] = useState(false)
+  const [comment, setComment] = useState('')
+
+  const handleRate = async (rating: AnswerFeedback) => {
+    if (isSubmitting || rating === feedback) return
+
+    setIsSubmitting(true)
+    const { error } = await onSubmit(rating)
+    setIsSubmitting(false)
+
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setComment('')
+    setShowComment(true)
+  }
+
+  const handleSendComment = async () => {
+    if (!feedback || !comment.trim()) return
+
+    setIsSubmitting(true)
+    const { error } = await onSubmit(feedback, comment.trim())
+    setIsSubmitting(false)
+
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    setShowComment(false)
+    toast.success('Thanks for your feedback!')
+  }
+
+  return (
+    <div className="mt-2 space-y-2">
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleRate('positive')}
+          disabled={isSubmitting}
+          className={`h-6 w-6 hover:bg-sidebar ${
+            feedback === 'positive' ? 'text-green-500' : 'text-sidebar-foreground/50 hover:text-sidebar-foreground'
+          }`}
+          title="Helpful"
+        >
+          <ThumbsUpIcon className="h-3 w-3" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => handleRate('negative')}
+          disabled={isSubmitting}
+          className={`h-6 w-6 hover:bg-sidebar ${
+            feedback === 'negative' ? 'text-red-500' : 'text-sidebar-foreground/50 hover:text-sidebar-foreground'
+          }`}
+          title="Not helpful"
+        >
+          <ThumbsDownIcon className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {showComment && feedback && (
+        <div className="space-y-2">
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={feedback === 'negative' ? 'What was wrong or missing? (optional)' : 'Anything to add? (optional)'}
+            maxLength={1000}
+            className="min-h-[60px] text-xs bg-sidebar border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/40"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowComment(false)}
+              className="h-7 text-xs text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar"
+            >
+              Skip
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSendComment}
+              disabled={isSubmitting || !comment.trim()}
+              className="h-7 text-xs bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+            >
+              Send
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
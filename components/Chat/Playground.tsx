@@ -3,6 +3,7 @@
 import * as React from "react"
 import { 
   SendIcon, 
+  SquareIcon,
   BotIcon,
   UserIcon, 
   RefreshCwIcon,
@@ -15,6 +16,8 @@ import { Button } from '@/components/ui/Button'
 import { Input } from '@/components/ui/Input'
 import { Label } from '@/components/ui/Label'
 import { Textarea } from '@/components/ui/Textarea'
+import { Slider } from '@/components/ui/Slider'
+import { Switch } from '@/components/ui/Switch'
 import {
   Select,
   SelectContent,
@@ -23,6 +26,7 @@ import {
   SelectValue,
 } from '@/components/ui/Select'
 import { Card } from '@/components/ui/Card'
+import { Badge } from '@/components/ui/Badge'
 import {
   Sheet,
   SheetContent,
@@ -34,13 +38,28 @@ import {
 import { toast } from 'sonner'
 import { useProjects } from '@/hooks/use-projects'
 import { useProjectChat } from '@/hooks/use-project-chat'
+import type { ChatCitation, ChatProductSuggestion } from '@/hooks/use-project-chat'
+import { useData } from '@/hooks/use-data'
+import { useProjectSettings, SETTING_BOUNDS } from '@/hooks/use-project-settings'
+import type { ProjectSettings, NumericSetting } from '@/hooks/use-project-settings'
 import useIsMobile from '@/hooks/use-mobile'
+import { LANGUAGE_CODES, LANGUAGE_NAMES } from '@/lib/languages'
+import type { LanguageCode } from '@/lib/languages'
+import { PII_TYPES, PII_TYPE_LABELS } from '@/lib/pii'
+import type { PiiType } from '@/lib/pii'
+import { INTAKE_FIELDS, INTAKE_FIELD_LABELS } from '@/lib/issue-intake'
+import type { IntakeField } from '@/lib/issue-intake'
+import { GENERATION_MODELS, isGenerationModel } from '@/lib/models'
+import { CitedMessageContent, CitationSourceDialog } from './MessageCitations'
+import { ProductCards } from './ProductCards'
 
 interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: ChatCitation[]
+  products?: ChatProductSuggestion[]
 }
 
 export function Playground() {
@@ -48,9 +67,13 @@ export function Playground() {
   const [isTablet, setIsTablet] = React.useState(false)
   const { projects, loading: projectsLoading, updateProject } = useProjects()
   const [selectedProject, setSelectedProject] = React.useState("")
-  const { messages, isLoading: aiLoading, sendMessage, clearMessages } = useProjectChat()
+  const { messages, isLoading: aiLoading, streamingMessageId, sendMessage, stopGeneration, clearMessages } = useProjectChat()
   const [description, setDescription] = React.useState<string>("")
   const [isSettingsOpen, setIsSettingsOpen] = React.useState(false)
+  const { settings, loading: settingsLoading, saveSettings } = useProjectSettings(selectedProject || undefined)
+  const [assistantSettings, setAssistantSettings] = React.useState<ProjectSettings>(settings)
+  const [bannedTopics, setBannedTopics] = React.useState("")
+  const [blockedPhrases, setBlockedPhrases] = React.useState("")
   
   const [initialMessage] = React.useState<ChatMessage>(
     {
@@ -61,6 +84,10 @@ export function Playground() {
     }
   )
   const [currentMessage, setCurrentMessage] = React.useState("")
+  const [selectedCitation, setSelectedCitation] = React.useState<ChatCitation | null>(null)
+
+  // Knowledge base items of the selected project, for opening cited sources
+  const { data: projectData } = useData(selectedProject || undefined)
   
   // Combine initial welcome message with AI chat messages
   const allMessages = React.useMemo(() => {
@@ -87,6 +114,44 @@ export function Playground() {
     }
   }, [selectedProject])
 
+  // Reset the assistant settings form when the saved settings load or change
+  React.useEffect(() => {
+    setAssistantSettings(settings)
+    setBannedTopics(settings.banned_topics.join(', '))
+    setBlockedPhrases(settings.guardrail_blocked_phrases.join(', '))
+  }, [settings])
+
+  const updateAssistantSetting = <K extends keyof ProjectSettings>(key: K, value: ProjectSettings[K]) => {
+    setAssistantSettings(prev => ({ ...prev, [key]: value }))
+  }
+
+  const toggleSupportedLanguage = (language: LanguageCode) => {
+    setAssistantSettings(prev => ({
+      ...prev,
+      supported_languages: prev.supported_languages.includes(language)
+        ? prev.supported_languages.filter(code => code !== language)
+        : [...prev.supported_languages, language]
+    }))
+  }
+
+  const toggleRedactedType = (type: PiiType) => {
+    setAssistantSettings(prev => ({
+      ...prev,
+      pii_redaction_types: prev.pii_redaction_types.includes(type)
+        ? prev.pii_redaction_types.filter(redactedType => redactedType !== type)
+        : [...prev.pii_redaction_types, type]
+    }))
+  }
+
+  const toggleIntakeField = (field: IntakeField) => {
+    setAssistantSettings(prev => ({
+      ...prev,
+      issue_intake_fields: prev.issue_intake_fields.includes(field)
+        ? prev.issue_intake_fields.filter(intakeField => intakeField !== field)
+        : [...prev.issue_intake_fields, field]
+    }))
+  }
+
   // Check for tablet view (768px to 1024px)
   React.useEffect(() => {
     const checkTablet = () => {
@@ -116,9 +181,12 @@ export function Playground() {
     const project = projects.find(p => p.id === selectedProject)
     if (!project) return
     
-    // Send message to project chat using the slug
-    await sendMessage(currentMessage, project.slug)
+    // Clear the input right away so it is free while the answer streams in
+    const message = currentMessage
     setCurrentMessage("")
+
+    // Send message to project chat using the slug
+    await sendMessage(message, project.slug)
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -132,12 +200,29 @@ export function Playground() {
     // Handle save functionality
     console.log('Saving chatbot configuration...')
     
-    if (selectedProject && description.trim()) {
+    if (selectedProject) {
       try {
-        // Update the project description
-        await updateProject(selectedProject, {
-          description: description.trim()
+        // Update the project description; an empty box keeps the current one
+        if (description.trim()) {
+          const { error: projectError } = await updateProject(selectedProject, {
+            description: description.trim()
+          })
+          if (projectError) throw new Error(projectError)
+        }
+
+        // Update the assistant persona used to build the system prompt
+        // and the generation/retrieval parameters chat-query applies
+        const { error: settingsError } = await saveSettings({
+          ...assistantSettings,
+          assistant_name: assistantSettings.assistant_name?.trim() || null,
+          instructions: assistantSettings.instructions?.trim() || null,
+          banned_topics: bannedTopics.split(',').map(topic => topic.trim()).filter(Boolean),
+          guardrail_blocked_phrases: blockedPhrases.split(',').map(phrase => phrase.trim()).filter(Boolean),
+          fallback_message: assistantSettings.fallback_message?.trim() || null,
+          generation_model: assistantSettings.generation_model || null
         })
+        if (settingsError) throw new Error(settingsError)
+
         toast.success('Chatbot configuration saved successfully')
       } catch (error) {
         console.error('Error saving configuration:', error)
@@ -157,8 +242,26 @@ export function Playground() {
     console.log('Opening database...')
   }
 
-  // Settings Panel Component
-  const SettingsPanel = () => (
+  const renderSettingSlider = (key: NumericSetting, label: string, hint: string) => (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sidebar-foreground font-medium">{label}</Label>
+        <span className="text-xs text-sidebar-foreground/70 tabular-nums">{assistantSettings[key]}</span>
+      </div>
+      <Slider
+        value={[assistantSettings[key]]}
+        min={SETTING_BOUNDS[key].min}
+        max={SETTING_BOUNDS[key].max}
+        step={SETTING_BOUNDS[key].step}
+        onValueChange={([value]) => updateAssistantSetting(key, Number(value.toFixed(2)))}
+        disabled={!selectedProject || settingsLoading}
+      />
+      <p className="text-xs text-sidebar-foreground/60">{hint}</p>
+    </div>
+  )
+
+  // Settings Panel, rendered as a function so its inputs keep focus while typing
+  const renderSettingsPanel = () => (
     <div className="flex flex-col h-full bg-background">
       <div className="flex-1 p-6 space-y-6 overflow-y-auto">
         <div className="space-y-4">
@@ -205,6 +308,375 @@ export function Playground() {
             </p>
           </div>
         </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Assistant</h3>
+
+          <div className="space-y-3">
+            <Label htmlFor="assistant-name" className="text-sidebar-foreground font-medium">
+              Name
+            </Label>
+            <Input
+              id="assistant-name"
+              value={assistantSettings.assistant_name || ""}
+              onChange={(e) => updateAssistantSetting('assistant_name', e.target.value)}
+              placeholder="e.g. Ava from Support"
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50"
+              disabled={!selectedProject || settingsLoading}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-3">
+              <Label className="text-sidebar-foreground font-medium">Tone</Label>
+              <Select
+                value={assistantSettings.tone}
+                onValueChange={(value) => updateAssistantSetting('tone', value as ProjectSettings['tone'])}
+                disabled={!selectedProject || settingsLoading}
+              >
+                <SelectTrigger className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="friendly">Friendly</SelectItem>
+                  <SelectItem value="professional">Professional</SelectItem>
+                  <SelectItem value="casual">Casual</SelectItem>
+                  <SelectItem value="formal">Formal</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <Label className="text-sidebar-foreground font-medium">Answer length</Label>
+              <Select
+                value={assistantSettings.answer_length}
+                onValueChange={(value) => updateAssistantSetting('answer_length', value as ProjectSettings['answer_length'])}
+                disabled={!selectedProject || settingsLoading}
+              >
+                <SelectTrigger className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="short">Short</SelectItem>
+                  <SelectItem value="medium">Medium</SelectItem>
+                  <SelectItem value="detailed">Detailed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="instructions" className="text-sidebar-foreground font-medium">
+              Instructions
+            </Label>
+            <Textarea
+              id="instructions"
+              value={assistantSettings.instructions || ""}
+              onChange={(e) => updateAssistantSetting('instructions', e.target.value)}
+              placeholder="e.g. Always suggest the Pro plan for teams. Never promise delivery dates."
+              className="min-h-[100px] resize-none bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={!selectedProject || settingsLoading}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="banned-topics" className="text-sidebar-foreground font-medium">
+              Banned topics
+            </Label>
+            <Input
+              id="banned-topics"
+              value={bannedTopics}
+              onChange={(e) => setBannedTopics(e.target.value)}
+              placeholder="e.g. competitors, pricing negotiations"
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50"
+              disabled={!selectedProject || settingsLoading}
+            />
+            <p className="text-xs text-sidebar-foreground/60">
+              Comma-separated. The assistant will politely decline to discuss these.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="fallback-message" className="text-sidebar-foreground font-medium">
+              Fallback message
+            </Label>
+            <Textarea
+              id="fallback-message"
+              value={assistantSettings.fallback_message || ""}
+              onChange={(e) => updateAssistantSetting('fallback_message', e.target.value)}
+              placeholder="e.g. I don't have that information yet, but I've passed your question on to the team."
+              className="min-h-[80px] resize-none bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              disabled={!selectedProject || settingsLoading}
+            />
+            <p className="text-xs text-sidebar-foreground/60">
+              Used when the knowledge base has no answer to a question.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Languages</h3>
+
+          <div className="space-y-3">
+            <Label className="text-sidebar-foreground font-medium">Default language</Label>
+            <Select
+              value={assistantSettings.default_language}
+              onValueChange={(value) => updateAssistantSetting('default_language', value as LanguageCode)}
+              disabled={!selectedProject || settingsLoading}
+            >
+              <SelectTrigger className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LANGUAGE_CODES.map(code => (
+                  <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-sidebar-foreground/60">
+              Language of knowledge base items without a language of their own.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sidebar-foreground font-medium">Supported languages</Label>
+            <div className="flex flex-wrap gap-2">
+              {LANGUAGE_CODES.map(code => {
+                const isSupported = assistantSettings.supported_languages.includes(code)
+                return (
+                  <Badge
+                    key={code}
+                    variant="outline"
+                    className={`cursor-pointer transition-colors ${
+                      isSupported
+                        ? 'bg-sidebar-foreground text-sidebar border-sidebar-foreground'
+                        : 'bg-sidebar-accent text-sidebar-foreground/70 border-sidebar-border hover:text-sidebar-foreground'
+                    }`}
+                    onClick={() => !settingsLoading && selectedProject && toggleSupportedLanguage(code)}
+                  >
+                    {LANGUAGE_NAMES[code]}
+                  </Badge>
+                )
+              })}
+            </div>
+            <p className="text-xs text-sidebar-foreground/60">
+              The assistant replies in the visitor's language when it is selected here, and in the default language otherwise. Select none to reply in any language.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Issue Intake</h3>
+
+          <div className="space-y-3">
+            <Label className="text-sidebar-foreground font-medium">Details to collect</Label>
+            <div className="flex flex-wrap gap-2">
+              {INTAKE_FIELDS.map(field => {
+                const isCollected = assistantSettings.issue_intake_fields.includes(field)
+                return (
+                  <Badge
+                    key={field}
+                    variant="outline"
+                    className={`cursor-pointer transition-colors ${
+                      isCollected
+                        ? 'bg-sidebar-foreground text-sidebar border-sidebar-foreground'
+                        : 'bg-sidebar-accent text-sidebar-foreground/70 border-sidebar-border hover:text-sidebar-foreground'
+                    }`}
+                    onClick={() => !settingsLoading && selectedProject && toggleIntakeField(field)}
+                  >
+                    {INTAKE_FIELD_LABELS[field]}
+                  </Badge>
+                )
+              })}
+            </div>
+            <p className="text-xs text-sidebar-foreground/60">
+              When a visitor reports a problem, the assistant asks for these before filing the issue and gives them a reference id. Select none to file issues right away.
+            </p>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Guardrails</h3>
+
+          <div className="space-y-3">
+            <Label className="text-sidebar-foreground font-medium">Suspicious messages</Label>
+            <Select
+              value={assistantSettings.guardrail_action}
+              onValueChange={(value) => updateAssistantSetting('guardrail_action', value as ProjectSettings['guardrail_action'])}
+              disabled={!selectedProject || settingsLoading}
+            >
+              <SelectTrigger className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="log">Log only</SelectItem>
+                <SelectItem value="sanitize">Remove suspicious text</SelectItem>
+                <SelectItem value="block">Refuse the message</SelectItem>
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-sidebar-foreground/60">
+              What to do with messages that try to override the assistant's instructions. Every trigger is logged for review on the project page.
+            </p>
+          </div>
+
+          <div className="space-y-3">
+            <Label htmlFor="blocked-phrases" className="text-sidebar-foreground font-medium">
+              Blocked phrases
+            </Label>
+            <Input
+              id="blocked-phrases"
+              value={blockedPhrases}
+              onChange={(e) => setBlockedPhrases(e.target.value)}
+              placeholder="e.g. admin password, internal discount code"
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50"
+              disabled={!selectedProject || settingsLoading}
+            />
+            <p className="text-xs text-sidebar-foreground/60">
+              Comma-separated. Treated the same as a detected injection.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="guardrail-screen-context" className="text-sidebar-foreground font-medium">
+                Screen knowledge base
+              </Label>
+              <p className="text-xs text-sidebar-foreground/60">
+                Also check retrieved entries, such as inquiries created from visitor questions, and leave flagged ones out of answers.
+              </p>
+            </div>
+            <Switch
+              id="guardrail-screen-context"
+              checked={assistantSettings.guardrail_screen_context}
+              onCheckedChange={(checked) => updateAssistantSetting('guardrail_screen_context', checked)}
+              disabled={!selectedProject || settingsLoading}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Privacy</h3>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="pii-redaction-enabled" className="text-sidebar-foreground font-medium">
+                Redact personal information
+              </Label>
+              <p className="text-xs text-sidebar-foreground/60">
+                Mask personal details in unanswered questions before they are saved as issues or inquiries.
+              </p>
+            </div>
+            <Switch
+              id="pii-redaction-enabled"
+              checked={assistantSettings.pii_redaction_enabled}
+              onCheckedChange={(checked) => updateAssistantSetting('pii_redaction_enabled', checked)}
+              disabled={!selectedProject || settingsLoading}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label className="text-sidebar-foreground font-medium">Information to mask</Label>
+            <div className="flex flex-wrap gap-2">
+              {PII_TYPES.map(type => {
+                const isRedacted = assistantSettings.pii_redaction_types.includes(type)
+                return (
+                  <Badge
+                    key={type}
+                    variant="outline"
+                    className={`cursor-pointer transition-colors ${
+                      isRedacted
+                        ? 'bg-sidebar-foreground text-sidebar border-sidebar-foreground'
+                        : 'bg-sidebar-accent text-sidebar-foreground/70 border-sidebar-border hover:text-sidebar-foreground'
+                    }`}
+                    onClick={() => !settingsLoading && selectedProject && assistantSettings.pii_redaction_enabled && toggleRedactedType(type)}
+                  >
+                    {PII_TYPE_LABELS[type]}
+                  </Badge>
+                )
+              })}
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="pii-model-detection" className="text-sidebar-foreground font-medium">
+                AI-assisted detection
+              </Label>
+              <p className="text-xs text-sidebar-foreground/60">
+                Also ask the model for names and addresses the built-in patterns miss. Adds a model call per logged question.
+              </p>
+            </div>
+            <Switch
+              id="pii-model-detection"
+              checked={assistantSettings.pii_model_detection}
+              onCheckedChange={(checked) => updateAssistantSetting('pii_model_detection', checked)}
+              disabled={!selectedProject || settingsLoading || !assistantSettings.pii_redaction_enabled}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Generation</h3>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-3">
+              <Label className="text-sidebar-foreground font-medium">Provider</Label>
+              <Select
+                value={assistantSettings.llm_provider || "default"}
+                onValueChange={(value) => {
+                  // Models are listed per provider, so a new provider starts on its default model
+                  updateAssistantSetting('llm_provider', value === "default" ? null : value as ProjectSettings['llm_provider'])
+                  updateAssistantSetting('generation_model', null)
+                }}
+                disabled={!selectedProject || settingsLoading}
+              >
+                <SelectTrigger className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Default</SelectItem>
+                  <SelectItem value="vertex">Vertex AI</SelectItem>
+                  <SelectItem value="gemini">Gemini API</SelectItem>
+                  <SelectItem value="openai">OpenAI-compatible</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-3">
+              <Label htmlFor="generation-model" className="text-sidebar-foreground font-medium">
+                Model
+              </Label>
+              <Select
+                value={assistantSettings.generation_model && isGenerationModel(assistantSettings.llm_provider, assistantSettings.generation_model)
+                  ? assistantSettings.generation_model
+                  : "default"}
+                onValueChange={(value) => updateAssistantSetting('generation_model', value === "default" ? null : value)}
+                disabled={!selectedProject || settingsLoading || !assistantSettings.llm_provider}
+              >
+                <SelectTrigger id="generation-model" className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Provider default</SelectItem>
+                  {assistantSettings.llm_provider && GENERATION_MODELS[assistantSettings.llm_provider].map(model => (
+                    <SelectItem key={model} value={model}>{model}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {renderSettingSlider('temperature', 'Temperature', 'Higher values give more varied answers, lower values more predictable ones.')}
+          {renderSettingSlider('top_p', 'Top-p', 'Limits word choice to the most likely options that add up to this probability.')}
+          {renderSettingSlider('max_output_tokens', 'Max tokens', 'Upper limit on the length of each answer.')}
+        </div>
+
+        <div className="space-y-4">
+          <h3 className="text-sidebar-foreground font-semibold text-lg font-general">Retrieval</h3>
+          {renderSettingSlider('match_threshold', 'Match threshold', 'Minimum similarity for a knowledge base entry to be used as context.')}
+          {renderSettingSlider('match_count', 'Match count', 'Number of knowledge base entries given to the assistant per question.')}
+          {renderSettingSlider('gap_cutoff', 'Knowledge gap cutoff', 'Questions whose best match is below this similarity are logged as knowledge gaps.')}
+        </div>
       </div>
 
       {/* Sticky Bottom Actions - Side by Side */}
@@ -222,7 +694,7 @@ export function Playground() {
           <Button
             onClick={handleSave}
             className="flex-1 bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
-            disabled={!selectedProject || !description.trim()}
+            disabled={!selectedProject}
           >
             <SaveIcon className="h-4 w-4 mr-2" />
             Save
@@ -279,7 +751,7 @@ export function Playground() {
                       <SheetTitle className="sr-only">Chatbot Configuration</SheetTitle>
                       <SheetDescription className="sr-only">Configure your chatbot settings and save changes</SheetDescription>
                     </SheetHeader>
-                    <SettingsPanel />
+                    {renderSettingsPanel()}
                   </SheetContent>
                 </Sheet>
               ) : (
@@ -288,7 +760,7 @@ export function Playground() {
                   variant="ghost"
                   size="sm"
                   className="text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar-accent font-general"
-                  disabled={!selectedProject || !description.trim()}
+                  disabled={!selectedProject}
                 >
                   <SaveIcon className="h-4 w-4 mr-2" />
                   Save
@@ -317,7 +789,12 @@ export function Playground() {
                     : 'bg-sidebar-accent text-sidebar-foreground'
                 }`}
               >
-                <p className="text-sm leading-relaxed font-general">{message.content}</p>
+                <CitedMessageContent
+                  content={message.content}
+                  citations={message.citations}
+                  onCitationClick={setSelectedCitation}
+                />
+                <ProductCards products={message.products} />
                 <p className="text-xs opacity-60 mt-1 font-general">
                   {message.timestamp.toLocaleTimeString()}
                 </p>
@@ -329,7 +806,7 @@ export function Playground() {
               )}
             </div>
           ))}
-          {aiLoading && (
+          {aiLoading && !streamingMessageId && (
             <div className="flex gap-3 justify-start">
               <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
                 <BotIcon className="h-4 w-4 text-white" />
@@ -357,13 +834,23 @@ export function Playground() {
               className="flex-1 bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent font-general py-3"
               disabled={aiLoading || !selectedProject}
             />
-            <Button
-              onClick={handleSendMessage}
-              disabled={!currentMessage.trim() || aiLoading || !selectedProject}
-              className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
-            >
-              <SendIcon className="h-4 w-4" />
-            </Button>
+            {aiLoading ? (
+              <Button
+                onClick={stopGeneration}
+                className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
+                title="Stop generating"
+              >
+                <SquareIcon className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSendMessage}
+                disabled={!currentMessage.trim() || !selectedProject}
+                className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
+              >
+                <SendIcon className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -371,9 +858,15 @@ export function Playground() {
       {/* Right Panel - Desktop Only (not tablet) */}
       {showSettingsPanel && (
         <div className="w-80 flex flex-col min-h-0">
-          <SettingsPanel />
+          {renderSettingsPanel()}
         </div>
       )}
+
+      <CitationSourceDialog
+        citation={selectedCitation}
+        items={projectData}
+        onClose={() => setSelectedCitation(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
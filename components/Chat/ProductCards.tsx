@@ -0,0 +1,58 @@
+"use client"
+
+import { ShoppingCartIcon } from "lucide-react"
+
+import { Button } from '@/components/ui/Button'
+import { formatPrice } from '@/lib/utils'
+import type { ChatProductSuggestion } from '@/hooks/use-project-chat'
+
+interface ProductCardsProps {
+  products?: ChatProductSuggestion[]
+}
+
+/**
+ * Cards for the products suggested with an answer. The buy button opens the tracked redirect,
+ * so the owner can see how often each suggested product is clicked.
+ */
+export function ProductCards({ products = [] }: ProductCardsProps) {
+  if (products.length === 0) return null
+
+  return (
+    <div className="mt-3 grid gap-2">
+      {products.map(product => (
+        <div
+          key={product.id}
+          className="rounded-md border border-sidebar-border bg-background p-3 space-y-2"
+        >
+          <div className="flex items-start justify-between gap-2">
+            <h4 className="text-sidebar-foreground font-medium text-sm font-general line-clamp-2">
+              {product.title}
+            </h4>
+            {product.price !== null && (
+              <span className="text-sidebar-foreground font-semibold text-sm flex-shrink-0">
+                {formatPrice(product.price, product.currency)}
+              </span>
+            )}
+          </div>
+          {product.description && (
+            <p className="text-sidebar-foreground/70 text-xs line-clamp-2 leading-relaxed">
+              {product.description}
+            </p>
+          )}
+          {product.url && (
+            <Button
+              asChild
+              size="sm"
+              className="w-full bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+            >
+              <a href={product.url} target="_blank" rel="noopener noreferrer">
+                <ShoppingCartIcon className="h-4 w-4 mr-2" />
+                Buy now
+              </a>
+            </Button>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -4,6 +4,7 @@ import * as React from "react"
 import { useState, useEffect } from "react"
 import { 
   SendIcon, 
+  SquareIcon,
   BotIcon,
   UserIcon,
   ShoppingBagIcon,
@@ -24,9 +25,15 @@ import {
   SheetTrigger,
 } from '@/components/ui/Sheet'
 import { supabase } from "@/lib/supabase"
+import { formatPrice } from "@/lib/utils"
 import { useData } from "@/hooks/use-data"
 import { useProjectChat } from "@/hooks/use-project-chat"
+import type { ChatCitation, ChatProductSuggestion, AnswerFeedback } from "@/hooks/use-project-chat"
 import useIsMobile from '@/hooks/use-mobile'
+import { CitedMessageContent, CitationSourceDialog } from './MessageCitations'
+import { ProductCards } from './ProductCards'
+import { MessageFeedback } from './MessageFeedback'
+import { HandoffButton, HandoffBanner, AssistantAvatar } from './HandoffControls'
 import type { Database } from "@/lib/supabase"
 
 type Project = Database['public']['Tables']['projects']['Row']
@@ -36,6 +43,11 @@ interface ChatMessage {
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: ChatCitation[]
+  products?: ChatProductSuggestion[]
+  messageId?: string
+  feedback?: AnswerFeedback
+  sender?: 'ai' | 'human'
 }
 
 interface ProjectChatProps {
@@ -53,8 +65,15 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
   const { 
     messages: chatMessages, 
     isLoading: isLoadingMessage, 
-    sendMessage 
-  } = useProjectChat()
+    streamingMessageId,
+    sendMessage,
+    stopGeneration,
+    submitFeedback,
+    conversationId,
+    handoffStatus,
+    requestHandoff,
+    cancelHandoff
+  } = useProjectChat(projectSlug)
   
   // Initialize with welcome message if no messages yet
   const [initialMessage] = React.useState<ChatMessage>(
@@ -72,6 +91,7 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
   }, [chatMessages, initialMessage, project?.name])
   
   const [currentMessage, setCurrentMessage] = React.useState("")
+  const [selectedCitation, setSelectedCitation] = React.useState<ChatCitation | null>(null)
 
   // Get products data for the selected project
   const { data: allData } = useData(project?.id)
@@ -126,9 +146,12 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
   const handleSendMessage = async () => {
     if (!currentMessage.trim()) return
 
-    // Send message using the hook
-    await sendMessage(currentMessage, projectSlug)
+    // Clear the input right away so it is free while the answer streams in
+    const message = currentMessage
     setCurrentMessage("")
+
+    // Send message using the hook
+    await sendMessage(message, projectSlug)
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
@@ -182,7 +205,7 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
                     {product.metadata?.price && (
                       <div className="flex items-center justify-between">
                         <span className="text-sidebar-foreground font-semibold">
-                          ${product.metadata.price}
+                          {formatPrice(product.metadata.price, product.metadata.currency)}
                         </span>
                         <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20 text-xs">
                           Product
@@ -290,6 +313,11 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
               </div>
             </div>
             <div className="flex items-center gap-2">
+              <HandoffButton
+                conversationId={conversationId}
+                handoffStatus={handoffStatus}
+                onRequest={requestHandoff}
+              />
               {(isMobile || isTablet) && products.length > 0 ? (
                 <Sheet>
                   <SheetTrigger asChild>
@@ -323,11 +351,7 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
               key={message.id}
               className={`flex gap-3 ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}
             >
-              {message.role === 'assistant' && (
-                <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
-                  <BotIcon className="h-4 w-4 text-white" />
-                </div>
-              )}
+              {message.role === 'assistant' && <AssistantAvatar sender={message.sender} />}
               <div
                 className={`max-w-[70%] rounded-lg p-3 ${
                   message.role === 'user'
@@ -335,10 +359,22 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
                     : 'bg-sidebar-accent text-sidebar-foreground'
                 }`}
               >
-                <p className="text-sm leading-relaxed font-general">{message.content}</p>
+                <CitedMessageContent
+                  content={message.content}
+                  citations={message.citations}
+                  onCitationClick={setSelectedCitation}
+                />
+                <ProductCards products={message.products} />
                 <p className="text-xs opacity-60 mt-1 font-general">
+                  {message.role === 'assistant' && `${message.sender === 'human' ? 'Team member' : 'AI'} · `}
                   {message.timestamp.toLocaleTimeString()}
                 </p>
+                {message.role === 'assistant' && message.messageId && message.id !== streamingMessageId && (
+                  <MessageFeedback
+                    feedback={message.feedback}
+                    onSubmit={(feedback, comment) => submitFeedback(message.id, feedback, comment)}
+                  />
+                )}
               </div>
               {message.role === 'user' && (
                 <div className="w-8 h-8 bg-sidebar-foreground rounded-full flex items-center justify-center flex-shrink-0">
@@ -347,7 +383,7 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
               )}
             </div>
           ))}
-          {isLoadingMessage && (
+          {isLoadingMessage && !streamingMessageId && handoffStatus === 'bot' && (
             <div className="flex gap-3 justify-start">
               <div className="w-8 h-8 bg-blue-500 rounded-full flex items-center justify-center flex-shrink-0">
                 <BotIcon className="h-4 w-4 text-white" />
@@ -363,6 +399,8 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
           )}
         </div>
 
+        <HandoffBanner handoffStatus={handoffStatus} onCancel={cancelHandoff} />
+
         {/* Chat Input */}
         <div className="border-t border-sidebar-border p-4 bg-background">
           <div className="flex gap-3">
@@ -370,17 +408,27 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
               value={currentMessage}
               onChange={(e) => setCurrentMessage(e.target.value)}
               onKeyPress={handleKeyPress}
-              placeholder="Type your message..."
+              placeholder={handoffStatus === 'bot' ? "Type your message..." : "Message the team..."}
               className="flex-1 bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50 focus:ring-2 focus:ring-blue-500 focus:border-transparent font-general"
               disabled={isLoadingMessage}
             />
-            <Button
-              onClick={handleSendMessage}
-              disabled={!currentMessage.trim() || isLoadingMessage}
-              className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
-            >
-              <SendIcon className="h-4 w-4" />
-            </Button>
+            {isLoadingMessage ? (
+              <Button
+                onClick={stopGeneration}
+                className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
+                title="Stop generating"
+              >
+                <SquareIcon className="h-4 w-4" />
+              </Button>
+            ) : (
+              <Button
+                onClick={handleSendMessage}
+                disabled={!currentMessage.trim()}
+                className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90 font-general"
+              >
+                <SendIcon className="h-4 w-4" />
+              </Button>
+            )}
           </div>
         </div>
       </div>
@@ -391,6 +439,12 @@ export function ProjectChat({ projectSlug }: ProjectChatProps) {
           <ProductsPanel />
         </div>
       )}
+
+      <CitationSourceDialog
+        citation={selectedCitation}
+        items={allData}
+        onClose={() => setSelectedCitation(null)}
+      />
     </div>
   )
 }
\ No newline at end of file
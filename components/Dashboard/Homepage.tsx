@@ -29,6 +29,8 @@ import { Button } from '@/components/ui/Button'
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
 import { useProjects } from '@/hooks/use-projects'
+import { useUsage, type AccountUsage } from '@/hooks/use-usage'
+import { useResponseTimeStats, type ResponseTimeStats } from '@/hooks/use-response-times'
 
 const dashboardMetrics = [
   { 
@@ -48,25 +50,24 @@ const dashboardMetrics = [
   },
   { 
     icon: DatabaseIcon, 
-    title: "Knowledge Sources", 
+    title: "Knowledge Chunks", 
     color: "text-purple-400",
     bgColor: "bg-purple-500/10",
-    data: "12"
+    data: "—"
   },
   { 
     icon: ZapIcon, 
     title: "Message Credits", 
     color: "text-orange-400",
     bgColor: "bg-orange-500/10",
-    data: "8.5K",
-    subData: "15K"
+    data: "—"
   },
   { 
     icon: ClockIcon, 
     title: "Response Time", 
     color: "text-cyan-400",
     bgColor: "bg-cyan-500/10",
-    data: "1.8s"
+    data: "—"
   },
   { 
     icon: UsersIcon, 
@@ -177,6 +178,39 @@ const recentActivity = [
   }
 ]
 
+const compactNumber = new Intl.NumberFormat('en', { notation: 'compact', maximumFractionDigits: 1 })
+
+// Current billing period usage against the plan, for the metrics backed by real data
+const getUsageMetric = (title: string, usage: AccountUsage | null, projectCount: number) => {
+  switch (title) {
+    case "Active Projects":
+      return { data: projectCount.toString(), subData: usage ? usage.projects_quota.toString() : undefined }
+    case "Knowledge Chunks":
+      return usage
+        ? { data: compactNumber.format(usage.embedded_chunks), subData: compactNumber.format(usage.embedded_chunks_quota) }
+        : null
+    case "Message Credits":
+      return usage
+        ? { data: compactNumber.format(usage.chat_turns), subData: compactNumber.format(usage.chat_turns_quota) }
+        : null
+    default:
+      return null
+  }
+}
+
+const formatDuration = (ms: number) => ms < 1000 ? `${Math.round(ms)}ms` : `${(ms / 1000).toFixed(1)}s`
+
+// Median response time, with the 95th percentile beside it, from the chat telemetry of the last 30 days
+const getResponseTimeMetric = (title: string, stats: ResponseTimeStats | null) => {
+  if (title !== "Response Time" || stats?.p50_ms == null) {
+    return null
+  }
+  return {
+    data: formatDuration(stats.p50_ms),
+    subData: stats.p95_ms != null ? `p95 ${formatDuration(stats.p95_ms)}` : undefined
+  }
+}
+
 const unansweredQuestions = [
   {
     id: 1,
@@ -245,6 +279,8 @@ const getPriorityColor = (priority: string) => {
 export function Homepage() {
   const [activeTab, setActiveTab] = React.useState<'issues' | 'questions'>('issues')
   const { projects } = useProjects()
+  const { usage } = useUsage()
+  const { stats: responseTimes } = useResponseTimeStats()
 
   return (
     <div className="flex flex-col h-full w-full max-w-full overflow-hidden">
@@ -273,8 +309,11 @@ export function Homepage() {
           {/* Dashboard Metrics Grid - Mobile: 3 cols, Desktop: 6 cols with better proportions */}
           <div className="grid grid-cols-3 lg:grid-cols-6 gap-3 sm:gap-4 mb-6">
             {dashboardMetrics.map((metric, index) => {
-              // Update the Active Projects metric with real data
-              const displayData = metric.title === "Active Projects" ? projects.length.toString() : metric.data
+              // Replace placeholder values with real usage where it is metered, and with measured response times
+              const usageMetric = getUsageMetric(metric.title, usage, projects.length)
+                ?? getResponseTimeMetric(metric.title, responseTimes)
+              const displayData = usageMetric?.data ?? metric.data
+              const displaySubData = usageMetric ? usageMetric.subData : metric.subData
               
               return (
               <div key={index} className="flex flex-col">
@@ -293,9 +332,9 @@ export function Homepage() {
                       <span className="text-lg sm:text-xl lg:text-lg xl:text-xl font-bold text-sidebar-foreground leading-none">
                         {displayData}
                       </span>
-                      {metric.subData && (
+                      {displaySubData && (
                         <span className="text-xs text-sidebar-foreground/60 leading-none font-normal">
-                          / {metric.subData}
+                          / {displaySubData}
                         </span>
                       )}
                     </div>
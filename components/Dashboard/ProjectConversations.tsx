@@ -0,0 +1,746 @@
+"use client"
+
+import { useState, useEffect, useMemo, type FormEvent } from "react"
+import {
+  ColumnDef,
+  SortingState,
+  flexRender,
+  getCoreRowModel,
+  getPaginationRowModel,
+  getSortedRowModel,
+  useReactTable
+} from "@tanstack/react-table"
+import {
+  ArrowLeftIcon,
+  ArrowUpDownIcon,
+  BotIcon,
+  HeadsetIcon,
+  LoaderIcon,
+  MessageSquareIcon,
+  RefreshCwIcon,
+  SendIcon,
+  ThumbsDownIcon,
+  ThumbsUpIcon,
+  TrashIcon,
+  UserIcon
+} from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/Button"
+import { Card } from "@/components/ui/Card"
+import { Badge } from "@/components/ui/Badge"
+import { Input } from "@/components/ui/Input"
+import { Label } from "@/components/ui/Label"
+import { Textarea } from "@/components/ui/Textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/Select"
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from "@/components/ui/Sheet"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from "@/components/ui/Table"
+import { supabase } from "@/lib/supabase"
+import {
+  useConversations,
+  DEFAULT_CONVERSATION_FILTERS,
+  type ConversationFilters,
+  type ConversationSummary,
+  type TranscriptMessage
+} from "@/hooks/use-conversations"
+import { useLiveConversation } from "@/hooks/use-live-conversation"
+import type { Database } from "@/lib/supabase"
+
+type Project = Database['public']['Tables']['projects']['Row']
+
+interface DashboardProjectConversationsProps {
+  projectSlug: string
+  // Opens this conversation's transcript, e.g. from a handoff notification
+  conversationId?: string | null
+  onNavigate: (path: string) => void
+}
+
+const PAGE_SIZE = 20
+
+const formatDateTime = (dateString: string) =>
+  new Date(dateString).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+const formatSimilarity = (similarity: number | null) =>
+  similarity === null ? 'Keyword match' : `${Math.round(similarity * 100)}% match`
+
+function SortableHeader({ label, onClick }: { label: string; onClick: () => void }) {
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={onClick}
+      className="-ml-3 h-8 text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar-accent"
+    >
+      {label}
+      <ArrowUpDownIcon className="h-3 w-3 ml-2" />
+    </Button>
+  )
+}
+
+function HandoffStatusBadge({ status }: { status: ConversationSummary['handoff_status'] }) {
+  if (status === 'requested') {
+    return (
+      <Badge variant="outline" className="text-xs bg-amber-500/10 text-amber-500 border-amber-500/20 whitespace-nowrap">
+        Wants a human
+      </Badge>
+    )
+  }
+  if (status === 'human') {
+    return (
+      <Badge variant="outline" className="text-xs bg-green-500/10 text-green-500 border-green-500/20 whitespace-nowrap">
+        Live with you
+      </Badge>
+    )
+  }
+  return <span className="text-sidebar-foreground/50 text-xs">Bot</span>
+}
+
+const columns: ColumnDef<ConversationSummary>[] = [
+  {
+    accessorKey: 'first_question',
+    header: 'First question',
+    cell: ({ row }) => (
+      <p className="text-sidebar-foreground line-clamp-2 max-w-md">
+        {row.original.first_question || <span className="text-sidebar-foreground/50">No messages</span>}
+      </p>
+    )
+  },
+  {
+    accessorKey: 'handoff_status',
+    header: 'Answered by',
+    cell: ({ row }) => <HandoffStatusBadge status={row.original.handoff_status} />
+  },
+  {
+    accessorKey: 'message_count',
+    header: ({ column }) => (
+      <SortableHeader label="Messages" onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')} />
+    ),
+    cell: ({ row }) => (
+      <span className="text-sidebar-foreground">{row.original.message_count}</span>
+    )
+  },
+  {
+    accessorKey: 'knowledge_gap_count',
+    header: 'Knowledge gaps',
+    cell: ({ row }) => row.original.knowledge_gap_count > 0 ? (
+      <Badge variant="outline" className="text-xs bg-orange-500/10 text-orange-500 border-orange-500/20">
+        {row.original.knowledge_gap_count} gap{row.original.knowledge_gap_count === 1 ? '' : 's'}
+      </Badge>
+    ) : (
+      <span className="text-sidebar-foreground/50 text-xs">None</span>
+    )
+  },
+  {
+    id: 'feedback',
+    header: 'Feedback',
+    cell: ({ row }) => {
+      const { positive_feedback_count, negative_feedback_count } = row.original
+      if (positive_feedback_count + negative_feedback_count === 0) {
+        return <span className="text-sidebar-foreground/50 text-xs">None</span>
+      }
+      return (
+        <div className="flex items-center gap-3 text-xs">
+          {positive_feedback_count > 0 && (
+            <span className="flex items-center gap-1 text-green-500">
+              <ThumbsUpIcon className="h-3 w-3" />
+              {positive_feedback_count}
+            </span>
+          )}
+          {negative_feedback_count > 0 && (
+            <span className="flex items-center gap-1 text-red-500">
+              <ThumbsDownIcon className="h-3 w-3" />
+              {negative_feedback_count}
+            </span>
+          )}
+        </div>
+      )
+    }
+  },
+  {
+    accessorKey: 'last_message_at',
+    header: ({ column }) => (
+      <SortableHeader label="Last activity" onClick={() => column.toggleSorting(column.getIsSorted() === 'asc')} />
+    ),
+    sortingFn: 'datetime',
+    cell: ({ row }) => (
+      <span className="text-sidebar-foreground/70 text-sm whitespace-nowrap">
+        {formatDateTime(row.original.last_message_at)}
+      </span>
+    )
+  }
+]
+
+export function DashboardProjectConversations({ projectSlug, conversationId, onNavigate }: DashboardProjectConversationsProps) {
+  const [project, setProject] = useState<Project | null>(null)
+  const [projectLoading, setProjectLoading] = useState(true)
+  const [projectError, setProjectError] = useState<string | null>(null)
+  const [filters, setFilters] = useState<ConversationFilters>(DEFAULT_CONVERSATION_FILTERS)
+  const [sorting, setSorting] = useState<SortingState>([{ id: 'last_message_at', desc: true }])
+  const [selectedConversationId, setSelectedConversationId] = useState<string | null>(conversationId || null)
+  const [reply, setReply] = useState('')
+  const [isReplying, setIsReplying] = useState(false)
+  const {
+    conversations,
+    loading,
+    error,
+    deleteConversation,
+    refreshConversations
+  } = useConversations(project?.id, filters)
+  const {
+    conversation: selectedConversation,
+    transcript,
+    loading: transcriptLoading,
+    error: transcriptError,
+    sendReply,
+    setHandoffStatus
+  } = useLiveConversation(selectedConversationId)
+
+  useEffect(() => {
+    if (conversationId) {
+      setSelectedConversationId(conversationId)
+    }
+  }, [conversationId])
+
+  useEffect(() => {
+    if (transcriptError) {
+      toast.error(transcriptError)
+    }
+  }, [transcriptError])
+
+  useEffect(() => {
+    setReply('')
+  }, [selectedConversationId])
+
+  useEffect(() => {
+    const fetchProject = async () => {
+      try {
+        setProjectLoading(true)
+        setProjectError(null)
+
+        const { data, error: fetchError } = await supabase
+          .from('projects')
+          .select('*')
+          .eq('slug', projectSlug)
+          .single()
+
+        if (fetchError) {
+          if (fetchError.code === 'PGRST116') {
+            setProjectError('Project not found')
+          } else {
+            throw fetchError
+          }
+          return
+        }
+
+        setProject(data)
+      } catch (err) {
+        setProjectError(err instanceof Error ? err.message : 'An error occurred')
+      } finally {
+        setProjectLoading(false)
+      }
+    }
+
+    if (projectSlug) {
+      fetchProject()
+    }
+  }, [projectSlug])
+
+  const table = useReactTable({
+    data: conversations,
+    columns,
+    state: { sorting },
+    onSortingChange: setSorting,
+    getCoreRowModel: getCoreRowModel(),
+    getSortedRowModel: getSortedRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
+    initialState: { pagination: { pageSize: PAGE_SIZE } }
+  })
+
+  const totals = useMemo(() => ({
+    gaps: conversations.filter(conversation => conversation.knowledge_gap_count > 0).length,
+    negative: conversations.filter(conversation => conversation.negative_feedback_count > 0).length,
+    waiting: conversations.filter(conversation => conversation.handoff_status === 'requested').length
+  }), [conversations])
+
+  const handleDelete = async () => {
+    if (!selectedConversationId) return
+
+    if (confirm('Delete this conversation and all of its messages? This action cannot be undone.')) {
+      const { error: deleteError } = await deleteConversation(selectedConversationId)
+
+      if (deleteError) {
+        toast.error(deleteError)
+      } else {
+        toast.success('Conversation deleted')
+        setSelectedConversationId(null)
+      }
+    }
+  }
+
+  const handleHandoff = async (status: 'human' | 'bot') => {
+    const { error: handoffError } = await setHandoffStatus(status)
+
+    if (handoffError) {
+      toast.error(handoffError)
+    } else {
+      toast.success(status === 'human' ? 'You are now answering this visitor' : 'Handed back to the bot')
+    }
+  }
+
+  const handleReply = async (e?: FormEvent) => {
+    e?.preventDefault()
+    if (!reply.trim()) return
+
+    setIsReplying(true)
+    const { error: replyError } = await sendReply(reply.trim())
+    setIsReplying(false)
+
+    if (replyError) {
+      toast.error(replyError)
+    } else {
+      setReply('')
+    }
+  }
+
+  const updateFilters = (updates: Partial<ConversationFilters>) => {
+    setFilters(prev => ({ ...prev, ...updates }))
+    table.setPageIndex(0)
+  }
+
+  const renderTranscriptMessage = (message: TranscriptMessage) => {
+    const isAssistant = message.role === 'assistant'
+    const isHuman = message.sender === 'human'
+
+    return (
+      <div key={message.id} className="space-y-2">
+        <div className="flex items-center gap-2 text-xs text-sidebar-foreground/60">
+          {isHuman ? <HeadsetIcon className="h-3 w-3" /> : isAssistant ? <BotIcon className="h-3 w-3" /> : <UserIcon className="h-3 w-3" />}
+          <span className="font-medium">{isHuman ? 'You' : isAssistant ? 'Assistant' : 'Visitor'}</span>
+          <span>{formatDateTime(message.created_at)}</span>
+          {isAssistant && !isHuman && message.latency_ms !== null && (
+            <span>· {(message.latency_ms / 1000).toFixed(1)}s</span>
+          )}
+        </div>
+
+        <div className={`rounded-lg p-3 text-sm whitespace-pre-wrap ${
+          isHuman
+            ? 'bg-green-500/10 text-sidebar-foreground border border-green-500/20'
+            : isAssistant
+            ? 'bg-sidebar-accent text-sidebar-foreground'
+            : 'bg-sidebar-foreground text-sidebar'
+        }`}>
+          {message.content}
+        </div>
+
+        {!isAssistant && message.rewritten_query && message.rewritten_query !== message.content && (
+          <p className="text-xs text-sidebar-foreground/60">
+            Searched as: <span className="italic">{message.rewritten_query}</span>
+          </p>
+        )}
+
+        {isAssistant && (message.knowledge_gap || message.feedback) && (
+          <div className="flex flex-wrap items-center gap-2">
+            {message.knowledge_gap && (
+              <Badge variant="outline" className="text-xs bg-orange-500/10 text-orange-500 border-orange-500/20">
+                Logged as {message.knowledge_gap_type === 'issue' ? 'issue' : 'inquiry'}
+              </Badge>
+            )}
+            {message.feedback && (
+              <Badge variant="outline" className={`text-xs ${
+                message.feedback === 'positive'
+                  ? 'bg-green-500/10 text-green-500 border-green-500/20'
+                  : 'bg-red-500/10 text-red-500 border-red-500/20'
+              }`}>
+                {message.feedback === 'positive' ? 'Helpful' : 'Not helpful'}
+              </Badge>
+            )}
+            {message.feedback_comment && (
+              <span className="text-xs text-sidebar-foreground/70 italic">"{message.feedback_comment}"</span>
+            )}
+          </div>
+        )}
+
+        {isAssistant && !isHuman && (
+          <div className="rounded-lg border border-sidebar-border p-3 space-y-2">
+            <p className="text-xs font-medium text-sidebar-foreground/70">
+              Retrieved chunks ({message.retrieved_chunks.length})
+            </p>
+            {message.retrieved_chunks.length === 0 ? (
+              <p className="text-xs text-sidebar-foreground/50">Nothing in the knowledge base matched this turn.</p>
+            ) : (
+              message.retrieved_chunks.map((chunk, index) => {
+                const cited = message.citations.some(citation => citation.index === index + 1)
+                return (
+                  <div key={`${chunk.id}-${index}`} className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-xs">
+                      <span className="font-medium text-sidebar-foreground">[{index + 1}]</span>
+                      {chunk.source_type && (
+                        <Badge variant="outline" className="text-[10px] capitalize border-sidebar-border text-sidebar-foreground/70">
+                          {chunk.source_type}
+                        </Badge>
+                      )}
+                      {chunk.title && <span className="text-sidebar-foreground/80 truncate max-w-[200px]">{chunk.title}</span>}
+                      <span className="text-sidebar-foreground/50">{formatSimilarity(chunk.similarity)}</span>
+                      {cited && (
+                        <Badge variant="outline" className="text-[10px] bg-blue-500/10 text-blue-500 border-blue-500/20">
+                          Cited
+                        </Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-sidebar-foreground/60 line-clamp-3">{chunk.content}</p>
+                  </div>
+                )
+              })
+            )}
+          </div>
+        )}
+      </div>
+    )
+  }
+
+  if (projectLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <div className="w-8 h-8 border-2 border-sidebar-foreground border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
+          <p className="text-sidebar-foreground">Loading project...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (projectError || !project) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center">
+          <h2 className="text-xl font-semibold text-sidebar-foreground mb-2">
+            {projectError === 'Project not found' ? 'Project Not Found' : 'Error'}
+          </h2>
+          <p className="text-sidebar-foreground/70 mb-4">
+            {projectError === 'Project not found'
+              ? 'The project you\'re looking for doesn\'t exist or has been removed.'
+              : projectError
+            }
+          </p>
+          <Button
+            onClick={() => onNavigate('/admin/projects')}
+            className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+          >
+            Back to Projects
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex flex-col h-full w-full max-w-full overflow-hidden bg-background">
+      <div className="flex-1 overflow-y-auto min-h-0">
+        <div className="px-4 sm:px-6 lg:px-8 py-8 sm:py-12">
+          <div className="max-w-6xl mx-auto">
+            {/* Header */}
+            <div className="flex items-center gap-4 mb-8">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => onNavigate(`/admin/projects/${project.slug}`)}
+                className="text-sidebar-foreground hover:bg-sidebar-accent"
+              >
+                <ArrowLeftIcon className="h-4 w-4" />
+              </Button>
+              <div className="flex-1">
+                <h1 className="text-2xl font-bold text-sidebar-foreground font-general">
+                  Conversations
+                </h1>
+                <p className="text-sidebar-foreground/70">
+                  What visitors asked {project.name} and how it answered
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={refreshConversations}
+                disabled={loading}
+                className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+              >
+                <RefreshCwIcon className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+                Refresh
+              </Button>
+            </div>
+
+            {/* Filters */}
+            <Card className="bg-sidebar-accent border-sidebar-border p-4 mb-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="conversations-from" className="text-sidebar-foreground/70 text-xs">From</Label>
+                  <Input
+                    id="conversations-from"
+                    type="date"
+                    value={filters.from || ''}
+                    max={filters.to || undefined}
+                    onChange={(e) => updateFilters({ from: e.target.value || null })}
+                    className="bg-sidebar border-sidebar-border text-sidebar-foreground"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="conversations-to" className="text-sidebar-foreground/70 text-xs">To</Label>
+                  <Input
+                    id="conversations-to"
+                    type="date"
+                    value={filters.to || ''}
+                    min={filters.from || undefined}
+                    onChange={(e) => updateFilters({ to: e.target.value || null })}
+                    className="bg-sidebar border-sidebar-border text-sidebar-foreground"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-sidebar-foreground/70 text-xs">Knowledge gaps</Label>
+                  <Select
+                    value={filters.knowledgeGap}
+                    onValueChange={(value) => updateFilters({ knowledgeGap: value as ConversationFilters['knowledgeGap'] })}
+                  >
+                    <SelectTrigger className="bg-sidebar border-sidebar-border text-sidebar-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All conversations</SelectItem>
+                      <SelectItem value="gap">With knowledge gaps</SelectItem>
+                      <SelectItem value="no-gap">Without knowledge gaps</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-sidebar-foreground/70 text-xs">Feedback</Label>
+                  <Select
+                    value={filters.feedback}
+                    onValueChange={(value) => updateFilters({ feedback: value as ConversationFilters['feedback'] })}
+                  >
+                    <SelectTrigger className="bg-sidebar border-sidebar-border text-sidebar-foreground">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">Any feedback</SelectItem>
+                      <SelectItem value="positive">Rated helpful</SelectItem>
+                      <SelectItem value="negative">Rated not helpful</SelectItem>
+                      <SelectItem value="none">No feedback</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div className="flex items-center justify-between mt-4">
+                <p className="text-xs text-sidebar-foreground/60">
+                  {conversations.length} conversation{conversations.length === 1 ? '' : 's'}
+                  {' · '}{totals.gaps} with knowledge gaps
+                  {' · '}{totals.negative} rated not helpful
+                  {totals.waiting > 0 && <>{' · '}<span className="text-amber-500">{totals.waiting} waiting for you</span></>}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateFilters(DEFAULT_CONVERSATION_FILTERS)}
+                  className="text-sidebar-foreground/70 hover:text-sidebar-foreground hover:bg-sidebar"
+                >
+                  Clear filters
+                </Button>
+              </div>
+            </Card>
+
+            {/* Conversation list */}
+            <Card className="bg-sidebar-accent border-sidebar-border overflow-hidden">
+              {error ? (
+                <div className="p-8 text-center text-red-500 text-sm">{error}</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    {table.getHeaderGroups().map((headerGroup) => (
+                      <TableRow key={headerGroup.id} className="border-sidebar-border hover:bg-transparent">
+                        {headerGroup.headers.map((header) => (
+                          <TableHead key={header.id} className="text-sidebar-foreground/70">
+                            {header.isPlaceholder
+                              ? null
+                              : flexRender(header.column.columnDef.header, header.getContext())}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableHeader>
+                  <TableBody>
+                    {loading ? (
+                      <TableRow className="border-sidebar-border hover:bg-transparent">
+                        <TableCell colSpan={columns.length} className="h-24 text-center text-sidebar-foreground/70">
+                          Loading conversations...
+                        </TableCell>
+                      </TableRow>
+                    ) : table.getRowModel().rows.length ? (
+                      table.getRowModel().rows.map((row) => (
+                        <TableRow
+                          key={row.id}
+                          onClick={() => setSelectedConversationId(row.original.id)}
+                          className="border-sidebar-border cursor-pointer hover:bg-sidebar/60"
+                        >
+                          {row.getVisibleCells().map((cell) => (
+                            <TableCell key={cell.id}>
+                              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow className="border-sidebar-border hover:bg-transparent">
+                        <TableCell colSpan={columns.length} className="h-32 text-center">
+                          <MessageSquareIcon className="h-6 w-6 mx-auto mb-2 text-sidebar-foreground/40" />
+                          <p className="text-sidebar-foreground/70 text-sm">No conversations match these filters</p>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+
+              {table.getPageCount() > 1 && (
+                <div className="flex items-center justify-between border-t border-sidebar-border px-4 py-3">
+                  <p className="text-xs text-sidebar-foreground/60">
+                    Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
+                  </p>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => table.previousPage()}
+                      disabled={!table.getCanPreviousPage()}
+                      className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+                    >
+                      Previous
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => table.nextPage()}
+                      disabled={!table.getCanNextPage()}
+                      className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+                    >
+                      Next
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </Card>
+          </div>
+        </div>
+      </div>
+
+      {/* Transcript */}
+      <Sheet open={selectedConversationId !== null} onOpenChange={(open) => !open && setSelectedConversationId(null)}>
+        <SheetContent
+          side="right"
+          className="w-full sm:max-w-xl p-0 bg-background border-sidebar-border flex flex-col"
+        >
+          <SheetHeader className="p-6 border-b border-sidebar-border">
+            <div className="flex items-center gap-3">
+              <SheetTitle className="text-sidebar-foreground font-general">Transcript</SheetTitle>
+              {selectedConversation && <HandoffStatusBadge status={selectedConversation.handoff_status} />}
+            </div>
+            <SheetDescription className="text-sidebar-foreground/70">
+              {selectedConversation && `Started ${formatDateTime(selectedConversation.created_at)}`}
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex-1 overflow-y-auto p-6 space-y-6">
+            {transcriptLoading ? (
+              <div className="flex justify-center py-8">
+                <div className="w-6 h-6 border-2 border-sidebar-foreground border-t-transparent rounded-full animate-spin"></div>
+              </div>
+            ) : (
+              transcript.map(renderTranscriptMessage)
+            )}
+          </div>
+          {selectedConversation && (
+            <form onSubmit={handleReply} className="p-4 border-t border-sidebar-border space-y-2">
+              <p className="text-xs text-sidebar-foreground/60">
+                {selectedConversation.handoff_status === 'human'
+                  ? 'You are answering this visitor. The bot is paused until you hand back.'
+                  : selectedConversation.handoff_status === 'requested'
+                  ? 'The visitor asked for a person. Replying takes over from the bot.'
+                  : 'Replying takes over from the bot and pauses its answers.'}
+              </p>
+              <Textarea
+                value={reply}
+                onChange={(e) => setReply(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault()
+                    handleReply()
+                  }
+                }}
+                placeholder="Reply to the visitor..."
+                className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground min-h-[72px]"
+                disabled={isReplying}
+              />
+              <div className="flex justify-end gap-2">
+                {selectedConversation.handoff_status === 'human' ? (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleHandoff('bot')}
+                    className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+                  >
+                    <BotIcon className="h-4 w-4 mr-2" />
+                    Hand back to bot
+                  </Button>
+                ) : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleHandoff('human')}
+                    className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+                  >
+                    <HeadsetIcon className="h-4 w-4 mr-2" />
+                    Take over
+                  </Button>
+                )}
+                <Button
+                  type="submit"
+                  size="sm"
+                  disabled={isReplying || !reply.trim()}
+                  className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+                >
+                  {isReplying ? <LoaderIcon className="h-4 w-4 mr-2 animate-spin" /> : <SendIcon className="h-4 w-4 mr-2" />}
+                  Send
+                </Button>
+              </div>
+            </form>
+          )}
+          <div className="p-4 border-t border-sidebar-border">
+            <Button
+              variant="outline"
+              onClick={handleDelete}
+              className="border-red-500 text-red-500 hover:bg-red-500 hover:text-white"
+            >
+              <TrashIcon className="h-4 w-4 mr-2" />
+              Delete conversation
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </div>
+  )
+}
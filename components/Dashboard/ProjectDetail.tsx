@@ -8,7 +8,8 @@ import {
   ExternalLinkIcon,
   EditIcon,
   TrashIcon,
-  CopyIcon
+  CopyIcon,
+  MessageSquareIcon
 } from "lucide-react"
 import { toast } from "sonner"
 
@@ -21,10 +22,24 @@ import { Textarea } from "@/components/ui/Textarea"
 import { Switch } from "@/components/ui/Switch"
 import { supabase } from "@/lib/supabase"
 import { useProjects } from "@/hooks/use-projects"
+import { useAnswerCacheStats } from "@/hooks/use-answer-cache"
+import { useGuardrailEvents } from "@/hooks/use-guardrail-events"
+import type { GuardrailEvent } from "@/hooks/use-guardrail-events"
+import { usePiiRedactionReport } from "@/hooks/use-pii-redactions"
+import { useProductClickStats } from "@/hooks/use-product-stats"
+import { PII_TYPE_LABELS } from "@/lib/pii"
+import { ProjectEvaluations } from "@/components/Dashboard/ProjectEvaluations"
 import type { Database } from "@/lib/supabase"
 
 type Project = Database['public']['Tables']['projects']['Row']
 
+const GUARDRAIL_ACTION_LABELS: Record<GuardrailEvent['action_taken'], string> = {
+  logged: 'Logged',
+  sanitized: 'Sanitized',
+  blocked: 'Refused',
+  dropped: 'Left out'
+}
+
 interface DashboardProjectDetailProps {
   projectSlug: string
   onNavigate: (path: string) => void
@@ -42,6 +57,10 @@ export function DashboardProjectDetail({ projectSlug, onNavigate }: DashboardPro
     custom_slug: ''
   })
   const { updateProject, deleteProject } = useProjects()
+  const { stats: cacheStats } = useAnswerCacheStats(project?.id)
+  const { events: guardrailEvents } = useGuardrailEvents(project?.id, 5)
+  const { report: redactionReport } = usePiiRedactionReport(project?.id)
+  const { stats: productStats } = useProductClickStats(project?.id)
 
   useEffect(() => {
     const fetchProject = async () => {
@@ -342,6 +361,8 @@ export function DashboardProjectDetail({ projectSlug, onNavigate }: DashboardPro
                   )}
                 </Card>
 
+                <ProjectEvaluations projectId={project.id} />
+
                 {/* Danger Zone */}
                 <Card className="bg-sidebar-accent border-red-500/20 p-6">
                   <h2 className="text-lg font-semibold text-red-500 mb-4 font-general">
@@ -396,6 +417,123 @@ export function DashboardProjectDetail({ projectSlug, onNavigate }: DashboardPro
                   </div>
                 </Card>
 
+                <Card className="bg-sidebar-accent border-sidebar-border p-6">
+                  <h3 className="text-lg font-semibold text-sidebar-foreground mb-4 font-general">
+                    Answer Cache
+                  </h3>
+                  <div className="space-y-3">
+                    <div>
+                      <Label className="text-sidebar-foreground/70 text-sm">Hit Rate (30 days)</Label>
+                      <p className="text-sidebar-foreground text-sm">
+                        {cacheStats && cacheStats.bot_answers > 0
+                          ? `${Math.round(cacheStats.hit_rate * 100)}% (${cacheStats.cache_hits} of ${cacheStats.bot_answers} answers)`
+                          : 'No answers yet'}
+                      </p>
+                    </div>
+                    <div>
+                      <Label className="text-sidebar-foreground/70 text-sm">Cached Answers</Label>
+                      <p className="text-sidebar-foreground text-sm">
+                        {cacheStats ? cacheStats.cached_answers : '—'}
+                      </p>
+                    </div>
+                    <p className="text-xs text-sidebar-foreground/50">
+                      Repeated questions are answered from the cache until the knowledge base or assistant settings change.
+                    </p>
+                  </div>
+                </Card>
+
+                <Card className="bg-sidebar-accent border-sidebar-border p-6">
+                  <h3 className="text-lg font-semibold text-sidebar-foreground mb-4 font-general">
+                    Product Clicks
+                  </h3>
+                  <div className="space-y-3">
+                    {productStats.length === 0 ? (
+                      <p className="text-sm text-sidebar-foreground/70">No products suggested in the last 30 days</p>
+                    ) : (
+                      productStats.map(row => (
+                        <div key={row.product_id} className="flex items-center justify-between gap-2">
+                          <div className="min-w-0">
+                            <p className="text-sidebar-foreground text-sm truncate">{row.title}</p>
+                            <p className="text-xs text-sidebar-foreground/50">
+                              {row.clicks} of {row.impressions} {row.impressions === 1 ? 'suggestion' : 'suggestions'} clicked
+                            </p>
+                          </div>
+                          <span className="text-sm text-sidebar-foreground tabular-nums">
+                            {Math.round(row.click_through_rate * 100)}%
+                          </span>
+                        </div>
+                      ))
+                    )}
+                    <p className="text-xs text-sidebar-foreground/50">
+                      Products are shown as cards when the chatbot finds them relevant to a question.
+                    </p>
+                  </div>
+                </Card>
+
+                <Card className="bg-sidebar-accent border-sidebar-border p-6">
+                  <h3 className="text-lg font-semibold text-sidebar-foreground mb-4 font-general">
+                    Guardrail Events
+                  </h3>
+                  {guardrailEvents.length === 0 ? (
+                    <p className="text-sm text-sidebar-foreground/70">No suspicious messages detected</p>
+                  ) : (
+                    <div className="space-y-3">
+                      {guardrailEvents.map(event => (
+                        <div key={event.id} className="space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <Badge variant="outline" className="bg-sidebar-foreground/10 text-sidebar-foreground border-sidebar-foreground/20">
+                              {GUARDRAIL_ACTION_LABELS[event.action_taken]}
+                            </Badge>
+                            <span className="text-xs text-sidebar-foreground/50">
+                              {new Date(event.created_at).toLocaleDateString()}
+                            </span>
+                          </div>
+                          <p className="text-xs text-sidebar-foreground/70">
+                            {event.source === 'query' ? 'Visitor message' : 'Knowledge base entry'} · {event.rule.replace(/_/g, ' ')}
+                          </p>
+                          <p className="text-sm text-sidebar-foreground break-words">{event.excerpt}</p>
+                          {event.conversation_id && (
+                            <button
+                              className="text-xs text-blue-500 hover:underline"
+                              onClick={() => onNavigate(`/admin/projects/${project.slug}/conversations?conversation=${event.conversation_id}`)}
+                            >
+                              View conversation
+                            </button>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </Card>
+
+                <Card className="bg-sidebar-accent border-sidebar-border p-6">
+                  <h3 className="text-lg font-semibold text-sidebar-foreground mb-4 font-general">
+                    Redacted Information
+                  </h3>
+                  <div className="space-y-3">
+                    {redactionReport.length === 0 ? (
+                      <p className="text-sm text-sidebar-foreground/70">Nothing redacted in the last 30 days</p>
+                    ) : (
+                      redactionReport.map(row => (
+                        <div key={`${row.pii_type}-${row.method}`} className="flex items-center justify-between gap-2">
+                          <div>
+                            <p className="text-sidebar-foreground text-sm">{PII_TYPE_LABELS[row.pii_type]}</p>
+                            <p className="text-xs text-sidebar-foreground/50">
+                              {row.method === 'model' ? 'AI-detected' : 'Pattern'} · last {new Date(row.last_redacted_at).toLocaleDateString()}
+                            </p>
+                          </div>
+                          <span className="text-sm text-sidebar-foreground tabular-nums">
+                            {row.values_masked} in {row.questions} {row.questions === 1 ? 'question' : 'questions'}
+                          </span>
+                        </div>
+                      ))
+                    )}
+                    <p className="text-xs text-sidebar-foreground/50">
+                      Personal details in unanswered questions are masked before they become issues or inquiries. Only counts are kept.
+                    </p>
+                  </div>
+                </Card>
+
                 <Card className="bg-sidebar-accent border-sidebar-border p-6">
                   <h3 className="text-lg font-semibold text-sidebar-foreground mb-4 font-general">
                     Quick Actions
@@ -417,6 +555,14 @@ export function DashboardProjectDetail({ projectSlug, onNavigate }: DashboardPro
                       <SettingsIcon className="h-4 w-4 mr-2" />
                       Manage Knowledge
                     </Button>
+                    <Button
+                      variant="outline"
+                      className="w-full justify-start bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+                      onClick={() => onNavigate(`/admin/projects/${project.slug}/conversations`)}
+                    >
+                      <MessageSquareIcon className="h-4 w-4 mr-2" />
+                      View Conversations
+                    </Button>
                   </div>
                 </Card>
               </div>
@@ -0,0 +1,398 @@
+"use client"
+
+import * as React from "react"
+import { useState, useEffect } from "react"
+import { FlaskConicalIcon, LoaderIcon, PlayIcon, PlusIcon, TrashIcon } from "lucide-react"
+import { toast } from "sonner"
+
+import { Button } from "@/components/ui/Button"
+import { Card } from "@/components/ui/Card"
+import { Badge } from "@/components/ui/Badge"
+import { Checkbox } from "@/components/ui/Checkbox"
+import { Input } from "@/components/ui/Input"
+import { Label } from "@/components/ui/Label"
+import { Textarea } from "@/components/ui/Textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/Select"
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/Dialog"
+import { useData } from "@/hooks/use-data"
+import { useEvalSets, useEvalSet, type EvalCaseInput, type EvalRun } from "@/hooks/use-evaluations"
+
+interface ProjectEvaluationsProps {
+  projectId: string
+}
+
+const SEARCH_MODE_LABELS: Record<EvalRun['search_mode'], string> = {
+  hybrid: 'Hybrid',
+  vector: 'Vector',
+  keyword: 'Keyword'
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : `${Math.round(score * 100)}%`
+}
+
+interface AddCaseDialogProps {
+  open: boolean
+  projectId: string
+  onClose: () => void
+  onAdd: (input: EvalCaseInput) => Promise<{ error: string | null }>
+}
+
+function AddCaseDialog({ open, projectId, onClose, onAdd }: AddCaseDialogProps) {
+  const { data } = useData(projectId)
+  const [question, setQuestion] = useState('')
+  const [expectedAnswer, setExpectedAnswer] = useState('')
+  const [sourceIds, setSourceIds] = useState<string[]>([])
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Only contexts and products are chunked and searched by the chatbot
+  const sources = data.filter(item => item.type === 'context' || item.type === 'product')
+
+  useEffect(() => {
+    if (open) {
+      setQuestion('')
+      setExpectedAnswer('')
+      setSourceIds([])
+    }
+  }, [open])
+
+  const toggleSource = (id: string, checked: boolean) => {
+    setSourceIds(prev => checked ? [...prev, id] : prev.filter(sourceId => sourceId !== id))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!question.trim()) {
+      toast.error('Please write a question')
+      return
+    }
+    if (sourceIds.length === 0 && !expectedAnswer.trim()) {
+      toast.error('Pick the expected sources or write the expected answer')
+      return
+    }
+
+    setIsSubmitting(true)
+    const { error } = await onAdd({
+      question: question.trim(),
+      expected_source_ids: sourceIds,
+      expected_answer: expectedAnswer.trim() || null
+    })
+    setIsSubmitting(false)
+
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    toast.success('Question added')
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && !isSubmitting && onClose()}>
+      <DialogContent className="bg-sidebar border-sidebar-border sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="text-sidebar-foreground font-general">Add question</DialogTitle>
+            <DialogDescription className="text-sidebar-foreground/70">
+              Runs check that these sources are retrieved and that the answer matches yours.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor="eval-question" className="text-sidebar-foreground">
+              Question
+            </Label>
+            <Input
+              id="eval-question"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              placeholder="What a visitor would ask"
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-sidebar-foreground">Expected sources</Label>
+            <div className="max-h-48 overflow-y-auto rounded-lg bg-sidebar-accent border border-sidebar-border p-3 space-y-2">
+              {sources.length === 0 ? (
+                <p className="text-sm text-sidebar-foreground/70">No contexts or products in this project yet</p>
+              ) : (
+                sources.map(source => (
+                  <label key={source.id} className="flex items-center gap-2 text-sm text-sidebar-foreground">
+                    <Checkbox
+                      checked={sourceIds.includes(source.id)}
+                      onCheckedChange={(checked) => toggleSource(source.id, checked === true)}
+                      disabled={isSubmitting}
+                    />
+                    <span className="truncate">{source.title}</span>
+                    <span className="text-xs text-sidebar-foreground/50">{source.type}</span>
+                  </label>
+                ))
+              )}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="eval-answer" className="text-sidebar-foreground">
+              Expected answer <span className="text-sidebar-foreground/50">(optional)</span>
+            </Label>
+            <Textarea
+              id="eval-answer"
+              value={expectedAnswer}
+              onChange={(e) => setExpectedAnswer(e.target.value)}
+              placeholder="Leave empty to only check retrieval"
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground min-h-[100px]"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !question.trim()}
+              className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+            >
+              {isSubmitting && <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export function ProjectEvaluations({ projectId }: ProjectEvaluationsProps) {
+  const { sets, createSet, deleteSet } = useEvalSets(projectId)
+  const [selectedSetId, setSelectedSetId] = useState<string | null>(null)
+  const [newSetName, setNewSetName] = useState('')
+  const [searchMode, setSearchMode] = useState<EvalRun['search_mode']>('hybrid')
+  const [isAddingCase, setIsAddingCase] = useState(false)
+
+  const selectedSet = sets.find(set => set.id === selectedSetId) ?? sets[0] ?? null
+  const { cases, runs, running, addCase, deleteCase, runSet } = useEvalSet(selectedSet)
+
+  const handleCreateSet = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newSetName.trim()) return
+
+    const { data, error } = await createSet(newSetName.trim())
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setNewSetName('')
+    setSelectedSetId(data?.id ?? null)
+  }
+
+  const handleDeleteSet = async () => {
+    if (!selectedSet) return
+    if (!confirm(`Delete "${selectedSet.name}" with its questions and run history?`)) return
+
+    const { error } = await deleteSet(selectedSet.id)
+    if (error) {
+      toast.error(error)
+      return
+    }
+    setSelectedSetId(null)
+  }
+
+  const handleDeleteCase = async (id: string) => {
+    const { error } = await deleteCase(id)
+    if (error) {
+      toast.error(error)
+    }
+  }
+
+  const handleRun = async () => {
+    const { data, error } = await runSet({ searchMode })
+    if (error) {
+      toast.error(error)
+      return
+    }
+    if (data) {
+      toast.success(`Recall@${data.k} ${formatScore(data.recall_at_k)}, MRR ${formatScore(data.mrr)}`)
+    }
+  }
+
+  return (
+    <Card className="bg-sidebar-accent border-sidebar-border p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-sidebar-foreground font-general">
+          Evaluations
+        </h2>
+        {selectedSet && (
+          <div className="flex items-center gap-2">
+            <Select value={searchMode} onValueChange={(value) => setSearchMode(value as EvalRun['search_mode'])}>
+              <SelectTrigger className="w-28 bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SEARCH_MODE_LABELS).map(([mode, label]) => (
+                  <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              size="sm"
+              onClick={handleRun}
+              disabled={running || cases.length === 0}
+              className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+            >
+              {running ? <LoaderIcon className="h-4 w-4 mr-2 animate-spin" /> : <PlayIcon className="h-4 w-4 mr-2" />}
+              Run
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2">
+          {sets.map(set => (
+            <Button
+              key={set.id}
+              variant="outline"
+              size="sm"
+              onClick={() => setSelectedSetId(set.id)}
+              className={`border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80 ${
+                set.id === selectedSet?.id ? 'bg-sidebar-foreground/10' : 'bg-sidebar-accent'
+              }`}
+            >
+              <FlaskConicalIcon className="h-4 w-4 mr-2" />
+              {set.name}
+            </Button>
+          ))}
+          <form onSubmit={handleCreateSet} className="flex items-center gap-2">
+            <Input
+              value={newSetName}
+              onChange={(e) => setNewSetName(e.target.value)}
+              placeholder="New question set"
+              className="h-9 w-44 bg-sidebar-accent border-sidebar-border text-sidebar-foreground"
+            />
+            <Button
+              type="submit"
+              variant="ghost"
+              size="sm"
+              disabled={!newSetName.trim()}
+              className="text-sidebar-foreground hover:bg-sidebar-accent"
+            >
+              <PlusIcon className="h-4 w-4" />
+            </Button>
+          </form>
+        </div>
+
+        {!selectedSet ? (
+          <p className="text-sm text-sidebar-foreground/70">
+            Create a set of questions with the sources and answers you expect, then run it after changing the knowledge base or assistant settings.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label className="text-sidebar-foreground/70 text-sm">
+                  {cases.length} {cases.length === 1 ? 'question' : 'questions'}
+                </Label>
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsAddingCase(true)}
+                    className="text-sidebar-foreground hover:bg-sidebar-accent"
+                  >
+                    <PlusIcon className="h-4 w-4 mr-2" />
+                    Add question
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={handleDeleteSet}
+                    className="text-red-500 hover:bg-sidebar-accent"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {cases.map(evalCase => (
+                <div key={evalCase.id} className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sidebar-foreground text-sm">{evalCase.question}</p>
+                    <p className="text-xs text-sidebar-foreground/50">
+                      {evalCase.expected_source_ids.length} expected {evalCase.expected_source_ids.length === 1 ? 'source' : 'sources'}
+                      {evalCase.expected_answer ? ' · expected answer' : ''}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDeleteCase(evalCase.id)}
+                    className="text-sidebar-foreground/50 hover:bg-sidebar-accent"
+                  >
+                    <TrashIcon className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-3">
+              <Label className="text-sidebar-foreground/70 text-sm">Run History</Label>
+              {runs.length === 0 ? (
+                <p className="text-sm text-sidebar-foreground/70">Not run yet</p>
+              ) : (
+                runs.map(run => (
+                  <div key={run.id} className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sidebar-foreground text-sm">
+                          {new Date(run.started_at).toLocaleString()}
+                        </span>
+                        {run.status !== 'completed' && (
+                          <Badge variant="outline" className="bg-sidebar-foreground/10 text-sidebar-foreground border-sidebar-foreground/20">
+                            {run.status}
+                          </Badge>
+                        )}
+                      </div>
+                      <p className="text-xs text-sidebar-foreground/50 truncate">
+                        {run.error || `${SEARCH_MODE_LABELS[run.search_mode]} · threshold ${run.settings.match_threshold} · ${run.model ?? run.provider ?? 'default model'}`}
+                      </p>
+                    </div>
+                    {run.status === 'completed' && (
+                      <span className="text-xs text-sidebar-foreground tabular-nums whitespace-nowrap">
+                        R@{run.k} {formatScore(run.recall_at_k)} · MRR {formatScore(run.mrr)} · Answer {formatScore(run.answer_match)}
+                      </span>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </>
+        )}
+      </div>
+
+      <AddCaseDialog
+        open={isAddingCase}
+        projectId={projectId}
+        onClose={() => setIsAddingCase(false)}
+        onAdd={addCase}
+      />
+    </Card>
+  )
+}
@@ -10,23 +10,25 @@ import { useProjects } from '@/hooks/use-projects'
 import { SearchAndFilters } from "../knowledge-base/SearchAndFilters"
 import { DataCard } from "../knowledge-base/DataCard"
 import { CreateDataModal } from "../knowledge-base/CreateDataModal"
+import { ResolveInquiryDialog } from "../knowledge-base/ResolveInquiryDialog"
 import { EmptyState } from "../knowledge-base/EmptyState"
 import { SemanticSearch } from '../semantic-processing/SemanticSearch'
 import { filterAndSortData } from "../knowledge-base/Utils"
-import { FilterState, CreateDataFormData } from "../knowledge-base/Types"
+import { FilterState, CreateDataFormData, DataItem } from "../knowledge-base/Types"
 import { DATA_TYPES } from "../knowledge-base/Constants"
 
 export function KnowledgeBase() {
   const { projects } = useProjects()
   const [selectedProjectId, setSelectedProjectId] = useState<string>('')
   const [activeTab, setActiveTab] = useState<'browse' | 'search'>('browse')
-  const { data, loading, createData } = useData(selectedProjectId || undefined)
+  const { data, loading, createData, resolveInquiry } = useData(selectedProjectId || undefined)
   const [filters, setFilters] = useState<FilterState>({
     search: '',
     type: 'context',
     sortBy: 'newest'
   })
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
+  const [resolvingInquiry, setResolvingInquiry] = useState<DataItem | null>(null)
 
   // Set default project when projects load
   useEffect(() => {
@@ -64,6 +66,16 @@ export function KnowledgeBase() {
     })
   }
 
+  const handleResolveInquiry = async (inquiry: DataItem, answer: string) => {
+    const item = data.find(dataItem => dataItem.id === inquiry.id)
+    if (!item) {
+      return { error: 'Inquiry not found' }
+    }
+
+    const { error } = await resolveInquiry(item, answer)
+    return { error }
+  }
+
   const handleClearFilters = () => {
     setFilters({
       search: '',
@@ -168,7 +180,7 @@ export function KnowledgeBase() {
             {activeTab === 'browse' && filteredData.length > 0 ? (
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 sm:gap-6 mt-6 sm:mt-8">
                 {filteredData.map((item) => (
-                  <DataCard key={item.id} item={item} />
+                  <DataCard key={item.id} item={item} onResolve={setResolvingInquiry} />
                 ))}
               </div>
             ) : activeTab === 'browse' && !selectedProjectId ? (
@@ -202,6 +214,13 @@ export function KnowledgeBase() {
         onSubmit={handleCreateData}
         defaultType={filters.type}
       />
+
+      {/* Resolve Inquiry Dialog */}
+      <ResolveInquiryDialog
+        inquiry={resolvingInquiry}
+        onClose={() => setResolvingInquiry(null)}
+        onResolve={handleResolveInquiry}
+      />
     </div>
   )
 }
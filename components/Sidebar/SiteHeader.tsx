@@ -18,6 +18,8 @@ export function SiteHeader({ currentView }: { currentView?: string }) {
         return 'Projects'
       case 'dashboard-project-detail':
         return 'Project Details'
+      case 'project-conversations':
+        return 'Conversations'
       case 'data-library':
         return 'Data Library'
       case 'quick-create':
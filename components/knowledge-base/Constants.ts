@@ -25,13 +25,4 @@ export const SORT_OPTIONS = [
   { value: 'newest', label: 'Newest First' },
   { value: 'oldest', label: 'Oldest First' },
   { value: 'title', label: 'Title A-Z' }
-]
-
-export const MOCK_REPORT_COUNTS: Record<string, number> = {
-  '1': 43,
-  '2': 28,
-  '3': 15,
-  '4': 7,
-  '5': 32,
-  '6': 19
-}
\ No newline at end of file
+]
\ No newline at end of file
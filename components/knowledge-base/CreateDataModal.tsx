@@ -12,6 +12,8 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Badge } from '@/components/ui/Badge'
 import { DATA_TYPES } from './Constants'
 import { CreateDataFormData, DataType } from './Types'
+import { LANGUAGE_CODES, LANGUAGE_NAMES } from '@/lib/languages'
+import type { LanguageCode } from '@/lib/languages'
 
 interface CreateDataModalProps {
   isOpen: boolean
@@ -27,6 +29,7 @@ export function CreateDataModal({ isOpen, onClose, onSubmit, defaultType = 'cont
     content: '',
     type: defaultType,
     tags: [],
+    language: null,
     metadata: {}
   })
   const [tagInput, setTagInput] = useState('')
@@ -41,6 +44,7 @@ export function CreateDataModal({ isOpen, onClose, onSubmit, defaultType = 'cont
         content: '',
         type: defaultType,
         tags: [],
+        language: null,
         metadata: {}
       })
       setTagInput('')
@@ -61,6 +65,10 @@ export function CreateDataModal({ isOpen, onClose, onSubmit, defaultType = 'cont
         toast.error('Please enter a price for the product')
         return
       }
+      if (formData.metadata.currency !== undefined && !/^[A-Z]{3}$/.test(formData.metadata.currency)) {
+        toast.error('Please enter a three-letter currency code, e.g. USD or EUR')
+        return
+      }
     }
 
     if (formData.type === 'inquiry') {
@@ -94,6 +102,7 @@ export function CreateDataModal({ isOpen, onClose, onSubmit, defaultType = 'cont
         content: '',
         type: defaultType,
         tags: [],
+        language: null,
         metadata: {}
       })
       setTagInput('')
@@ -166,6 +175,21 @@ export function CreateDataModal({ isOpen, onClose, onSubmit, defaultType = 'cont
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="currency" className="text-sidebar-foreground font-medium">
+                Currency
+              </Label>
+              <Input
+                id="currency"
+                value={formData.metadata.currency ?? 'USD'}
+                onChange={(e) => updateMetadata('currency', e.target.value.toUpperCase())}
+                placeholder="USD"
+                maxLength={3}
+                className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground placeholder:text-sidebar-foreground/50"
+                disabled={isSubmitting}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="affiliate-link" className="text-sidebar-foreground font-medium">
                 Affiliate Link
@@ -337,6 +361,31 @@ export function CreateDataModal({ isOpen, onClose, onSubmit, defaultType = 'cont
             />
           </div>
 
+          {/* Language */}
+          <div className="space-y-2">
+            <Label className="text-sidebar-foreground font-medium">
+              Language
+            </Label>
+            <Select
+              value={formData.language || 'default'}
+              onValueChange={(value) => setFormData(prev => ({
+                ...prev,
+                language: value === 'default' ? null : value as LanguageCode
+              }))}
+              disabled={isSubmitting}
+            >
+              <SelectTrigger className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="default">Project default</SelectItem>
+                {LANGUAGE_CODES.map(code => (
+                  <SelectItem key={code} value={code}>{LANGUAGE_NAMES[code]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
           {/* Type-specific fields */}
           {renderTypeSpecificFields()}
 
@@ -9,12 +9,14 @@ import {
   MessageSquareIcon, 
   ShareIcon,
   TrendingUpIcon,
-  UserIcon
+  UserIcon,
+  CheckCircleIcon
 } from "lucide-react"
 import { Card } from '@/components/ui/Card'
 import { Badge } from '@/components/ui/Badge'
 import { Button } from '@/components/ui/Button'
 import { DataType, DataItem } from './Types'
+import { LANGUAGE_NAMES, isLanguageCode } from '@/lib/languages'
 import { DATA_TYPES, PRIORITY_LEVELS } from './Constants'
 import { formatFileSize, formatDate, getReportCount, getPriorityFromMetadata } from './Utils'
 
@@ -22,12 +24,67 @@ interface DataCardProps {
   item: DataItem
   onEdit?: (item: DataItem) => void
   onDelete?: (id: string, type: DataType) => void
+  onResolve?: (item: DataItem) => void
 }
 
-export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
+export function DataCard({ item, onEdit, onDelete, onResolve }: DataCardProps) {
   const typeConfig = DATA_TYPES.find(t => t.id === item.type)
   const TypeIcon = typeConfig?.icon || FileIcon
 
+  // Only tagged items show a language; the rest are in the project's default language
+  const renderLanguageBadge = () => {
+    if (!isLanguageCode(item.language)) return null
+
+    return (
+      <Badge variant="outline" className="bg-sidebar-foreground/5 text-sidebar-foreground/60 border-sidebar-foreground/10 text-xs">
+        {LANGUAGE_NAMES[item.language]}
+      </Badge>
+    )
+  }
+
+  // Other ways visitors asked the same question, merged into this gap by chat-query
+  const renderPhrasings = () => {
+    const phrasings = item.phrasings || []
+    if (phrasings.length === 0) return null
+
+    return (
+      <div className="space-y-1">
+        <p className="text-xs text-sidebar-foreground/50">Also asked as:</p>
+        <ul className="space-y-0.5">
+          {phrasings.slice(0, 2).map((phrasing, index) => (
+            <li key={index} className="text-xs text-sidebar-foreground/70 italic line-clamp-1">
+              "{phrasing}"
+            </li>
+          ))}
+        </ul>
+        {phrasings.length > 2 && (
+          <p className="text-xs text-sidebar-foreground/50">+{phrasings.length - 2} more</p>
+        )}
+      </div>
+    )
+  }
+
+  // Details the chatbot collected when the visitor reported the issue
+  const renderIntakeDetails = () => {
+    const details = [
+      { label: 'Steps', value: item.metadata?.stepsToReproduce },
+      { label: 'Device', value: item.metadata?.device },
+      { label: 'Contact', value: item.metadata?.contactEmail }
+    ].filter(detail => detail.value)
+    if (details.length === 0) return null
+
+    return (
+      <dl className="space-y-1 text-xs">
+        {details.map(detail => (
+          <div key={detail.label} className="flex gap-2">
+            <dt className="text-sidebar-foreground/50 flex-shrink-0">{detail.label}:</dt>
+            <dd className="text-sidebar-foreground/70 line-clamp-2">{detail.value}</dd>
+          </div>
+        ))}
+      </dl>
+    )
+  }
+
   const renderContextCard = () => (
     <Card className="bg-sidebar-accent border-sidebar-border hover:border-sidebar-foreground/20 transition-all duration-200 cursor-pointer overflow-hidden">
       <div className="p-3 sm:p-4 space-y-3 sm:space-y-4">
@@ -43,9 +100,12 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
               </p>
             </div>
           </div>
-          <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20 text-xs flex-shrink-0">
-            {typeConfig?.name}
-          </Badge>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {renderLanguageBadge()}
+            <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20 text-xs">
+              {typeConfig?.name}
+            </Badge>
+          </div>
         </div>
 
         {/* Title */}
@@ -63,6 +123,12 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
             <CalendarIcon className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
             <span>{formatDate(item.updated_at, true)}</span>
           </div>
+          {getReportCount(item) > 1 && (
+            <div className="flex items-center gap-1 sm:gap-2">
+              <TrendingUpIcon className="h-3 w-3 sm:h-4 sm:w-4 flex-shrink-0" />
+              <span><span className="font-medium">{getReportCount(item)}</span> reports</span>
+            </div>
+          )}
         </div>
 
         {/* Description */}
@@ -72,6 +138,18 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
           </p>
         )}
 
+        {renderPhrasings()}
+
+        {/* Answer */}
+        {item.status === 'resolved' && item.answer && (
+          <div className="rounded-lg border border-green-500/20 bg-green-500/5 p-2 sm:p-3">
+            <p className="text-xs font-medium text-green-500 mb-1">Answer</p>
+            <p className="text-xs sm:text-sm text-sidebar-foreground/70 line-clamp-3 leading-relaxed">
+              {item.answer}
+            </p>
+          </div>
+        )}
+
         {/* Tags */}
         {item.tags.length > 0 && (
           <div className="flex flex-wrap gap-1 sm:gap-2">
@@ -110,16 +188,36 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
               <span className="hidden xs:inline">Share</span>
             </div>
           </div>
-          <Badge variant="outline" className="bg-sidebar-foreground/10 text-sidebar-foreground/70 border-sidebar-foreground/20 text-xs">
-            {item.tags[0] || 'General'}
-          </Badge>
+          {item.status === 'resolved' ? (
+            <Badge variant="outline" className="bg-green-500/10 text-green-500 border-green-500/20 text-xs">
+              <CheckCircleIcon className="h-3 w-3 mr-1" />
+              Resolved
+            </Badge>
+          ) : onResolve ? (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={(e) => {
+                e.stopPropagation()
+                onResolve(item)
+              }}
+              className="h-7 text-xs bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+            >
+              <CheckCircleIcon className="h-3 w-3 mr-1" />
+              Resolve with answer
+            </Button>
+          ) : (
+            <Badge variant="outline" className="bg-sidebar-foreground/10 text-sidebar-foreground/70 border-sidebar-foreground/20 text-xs">
+              {item.tags[0] || 'General'}
+            </Badge>
+          )}
         </div>
       </div>
     </Card>
   )
 
   const renderIssueCard = () => {
-    const reportCount = getReportCount(item.id)
+    const reportCount = getReportCount(item)
     const priority: keyof typeof PRIORITY_LEVELS = item.type === 'issue' ? ((item as any).severity || 'medium') : 'medium'
     const priorityConfig = PRIORITY_LEVELS[priority]
     const PriorityIcon = priorityConfig.icon
@@ -143,7 +241,7 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
             <div className="flex items-center gap-1 text-xs sm:text-sm text-sidebar-foreground/60 flex-shrink-0">
               <TrendingUpIcon className="h-3 w-3 sm:h-4 sm:w-4" />
               <span className="font-medium">{reportCount}</span>
-              <span className="hidden xs:inline">reports</span>
+              <span className="hidden xs:inline">{reportCount === 1 ? 'report' : 'reports'}</span>
             </div>
           </div>
 
@@ -159,6 +257,10 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
             </p>
           )}
 
+          {renderIntakeDetails()}
+
+          {renderPhrasings()}
+
           {/* Footer with dates and status */}
           <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 sm:gap-3 pt-2 border-t border-sidebar-border">
             <div className="flex items-center gap-1 sm:gap-2 text-xs text-sidebar-foreground/60">
@@ -168,7 +270,7 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
             <div className="flex items-center gap-1 sm:gap-2 text-xs text-sidebar-foreground/60">
               <TrendingUpIcon className="h-3 w-3 flex-shrink-0" />
               <span>Active</span>
-              <span className="text-sidebar-foreground/40">#{item.id.slice(-6)}</span>
+              <span className="text-sidebar-foreground/40">{item.metadata?.referenceCode || `#${item.id.slice(-6)}`}</span>
             </div>
           </div>
         </div>
@@ -194,9 +296,12 @@ export function DataCard({ item, onEdit, onDelete }: DataCardProps) {
               </p>
             </div>
           </div>
-          <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20 text-xs flex-shrink-0">
-            {typeConfig?.name}
-          </Badge>
+          <div className="flex items-center gap-1 flex-shrink-0">
+            {renderLanguageBadge()}
+            <Badge variant="outline" className="bg-blue-500/10 text-blue-500 border-blue-500/20 text-xs">
+              {typeConfig?.name}
+            </Badge>
+          </div>
         </div>
 
         {/* Description */}
@@ -0,0 +1,117 @@
+"use client"
+
+import * as React from "react"
+import { useState, useEffect } from "react"
+import { LoaderIcon } from "lucide-react"
+import { toast } from "sonner"
+import { Button } from '@/components/ui/Button'
+import { Label } from '@/components/ui/Label'
+import { Textarea } from '@/components/ui/Textarea'
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from '@/components/ui/Dialog'
+import { DataItem } from './Types'
+
+interface ResolveInquiryDialogProps {
+  inquiry: DataItem | null
+  onClose: () => void
+  onResolve: (inquiry: DataItem, answer: string) => Promise<{ error: string | null }>
+}
+
+export function ResolveInquiryDialog({ inquiry, onClose, onResolve }: ResolveInquiryDialogProps) {
+  const [answer, setAnswer] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Start with an empty answer for each inquiry
+  useEffect(() => {
+    setAnswer('')
+  }, [inquiry?.id])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!inquiry) return
+
+    if (!answer.trim()) {
+      toast.error('Please write an answer')
+      return
+    }
+
+    setIsSubmitting(true)
+    const { error } = await onResolve(inquiry, answer.trim())
+    setIsSubmitting(false)
+
+    if (error) {
+      toast.error(error)
+      return
+    }
+
+    toast.success('Inquiry resolved. Your chatbot will use this answer from now on.')
+    onClose()
+  }
+
+  const question = inquiry?.description || inquiry?.title
+
+  return (
+    <Dialog open={inquiry !== null} onOpenChange={(open) => !open && !isSubmitting && onClose()}>
+      <DialogContent className="bg-sidebar border-sidebar-border sm:max-w-lg">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle className="text-sidebar-foreground font-general">Resolve with answer</DialogTitle>
+            <DialogDescription className="text-sidebar-foreground/70">
+              The question and your answer are added to the knowledge base as context.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="rounded-lg bg-sidebar-accent border border-sidebar-border p-3 space-y-1">
+            <p className="text-xs text-sidebar-foreground/60">Question</p>
+            <p className="text-sm text-sidebar-foreground">{question}</p>
+            {inquiry?.phrasings && inquiry.phrasings.length > 0 && (
+              <p className="text-xs text-sidebar-foreground/60">
+                Also asked {inquiry.phrasings.length} other way{inquiry.phrasings.length === 1 ? '' : 's'}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="inquiry-answer" className="text-sidebar-foreground">
+              Answer
+            </Label>
+            <Textarea
+              id="inquiry-answer"
+              value={answer}
+              onChange={(e) => setAnswer(e.target.value)}
+              placeholder="Write the answer your chatbot should give"
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground min-h-[140px]"
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={isSubmitting}
+              className="bg-sidebar-accent border-sidebar-border text-sidebar-foreground hover:bg-sidebar-accent/80"
+            >
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              disabled={isSubmitting || !answer.trim()}
+              className="bg-sidebar-foreground text-sidebar hover:bg-sidebar-foreground/90"
+            >
+              {isSubmitting && <LoaderIcon className="h-4 w-4 mr-2 animate-spin" />}
+              Resolve
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
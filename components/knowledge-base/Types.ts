@@ -1,3 +1,5 @@
+import type { LanguageCode } from '@/lib/languages'
+
 export interface DataItem {
   id: string
   title: string
@@ -8,7 +10,14 @@ export interface DataItem {
   file_size: number | null
   type: 'context' | 'issue' | 'inquiry' | 'product'
   tags: string[]
+  language?: string | null
   metadata: Record<string, any>
+  // Knowledge gaps only: how many visitors asked, and the other ways they asked it
+  report_count?: number
+  phrasings?: string[]
+  // Inquiries only: resolution state and the owner's answer
+  status?: string
+  answer?: string | null
   user_id: string
   project_id: string
   created_at: string
@@ -29,6 +38,7 @@ export interface CreateDataFormData {
   content: string
   type: DataType
   tags: string[]
+  language?: LanguageCode | null
   metadata: Record<string, any>
   project_id?: string
 }
\ No newline at end of file
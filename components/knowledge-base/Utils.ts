@@ -1,5 +1,4 @@
 import { DataItem, FilterState } from './Types'
-import { MOCK_REPORT_COUNTS } from './Constants'
 
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes'
@@ -25,8 +24,8 @@ export const formatDate = (dateString: string, mobile = false): string => {
   })
 }
 
-export const getReportCount = (id: string): number => {
-  return MOCK_REPORT_COUNTS[id] || Math.floor(Math.random() * 50) + 1
+export const getReportCount = (item: DataItem): number => {
+  return item.report_count ?? 1
 }
 
 export const getPriorityFromMetadata = (metadata: Record<string, any>): 'high' | 'medium' | 'low' => {
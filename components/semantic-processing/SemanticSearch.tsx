@@ -9,6 +9,7 @@ import { Card } from "@/components/ui/Card"
 import { Badge } from "@/components/ui/Badge"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/Select"
 import { useSemanticProcessing } from "@/hooks/use-semantic-processing"
+import type { SearchMode } from "@/lib/embeddings"
 import { ProcessingStatus } from "./ProcessingStatus"
 
 interface SemanticSearchProps {
@@ -20,6 +21,7 @@ export function SemanticSearch({ projectId, onResultClick }: SemanticSearchProps
   const [query, setQuery] = useState("")
   const [sourceType, setSourceType] = useState<string>("all")
   const [threshold, setThreshold] = useState(0.4)
+  const [mode, setMode] = useState<SearchMode>("hybrid")
   const [results, setResults] = useState<any[]>([])
   const [hasSearched, setHasSearched] = useState(false)
   
@@ -32,7 +34,8 @@ export function SemanticSearch({ projectId, onResultClick }: SemanticSearchProps
       const searchResults = await searchContent(query, projectId, {
         threshold,
         limit: 20,
-        sourceType: sourceType === "all" ? undefined : sourceType as any
+        sourceType: sourceType === "all" ? undefined : sourceType as any,
+        mode
       })
       
       setResults(searchResults)
@@ -48,8 +51,8 @@ export function SemanticSearch({ projectId, onResultClick }: SemanticSearchProps
     }
   }
 
-  const formatSimilarity = (similarity: number) => {
-    return `${Math.round(similarity * 100)}%`
+  const formatSimilarity = (similarity: number | null) => {
+    return similarity === null ? 'Keyword' : `${Math.round(similarity * 100)}%`
   }
 
   const getSourceTypeColor = (type: string) => {
@@ -103,6 +106,17 @@ export function SemanticSearch({ projectId, onResultClick }: SemanticSearchProps
         <div className="flex gap-3 items-center">
           <FilterIcon className="h-4 w-4 text-sidebar-foreground/60" />
           
+          <Select value={mode} onValueChange={(value) => setMode(value as SearchMode)}>
+            <SelectTrigger className="w-40 bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="hybrid">Hybrid</SelectItem>
+              <SelectItem value="vector">Semantic only</SelectItem>
+              <SelectItem value="keyword">Keyword only</SelectItem>
+            </SelectContent>
+          </Select>
+
           <Select value={sourceType} onValueChange={setSourceType}>
             <SelectTrigger className="w-40 bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
               <SelectValue />
@@ -116,7 +130,11 @@ export function SemanticSearch({ projectId, onResultClick }: SemanticSearchProps
             </SelectContent>
           </Select>
 
-          <Select value={threshold.toString()} onValueChange={(value) => setThreshold(parseFloat(value))}>
+          <Select
+            value={threshold.toString()}
+            onValueChange={(value) => setThreshold(parseFloat(value))}
+            disabled={mode === "keyword"}
+          >
             <SelectTrigger className="w-40 bg-sidebar-accent border-sidebar-border text-sidebar-foreground">
               <SelectValue />
             </SelectTrigger>
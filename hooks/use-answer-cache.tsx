@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+
+// Answer cache statistics of a project over the last 30 days, from get_answer_cache_stats
+export interface AnswerCacheStats {
+  cached_answers: number
+  bot_answers: number
+  cache_hits: number
+  hit_rate: number
+}
+
+interface UseAnswerCacheStatsReturn {
+  stats: AnswerCacheStats | null
+  loading: boolean
+  error: string | null
+  refreshStats: () => Promise<void>
+}
+
+/**
+ * Retires the project's cached answers after its knowledge base changed, so the chatbot
+ * stops reusing answers based on the old content
+ */
+export async function invalidateAnswerCache(projectId: string): Promise<{ error: string | null }> {
+  const { error } = await supabase.rpc('invalidate_answer_cache', { filter_project_id: projectId })
+
+  if (error) {
+    console.warn('Failed to invalidate answer cache:', error)
+    return { error: error.message }
+  }
+
+  return { error: null }
+}
+
+export function useAnswerCacheStats(projectId?: string): UseAnswerCacheStatsReturn {
+  const { user } = useAuth()
+  const [stats, setStats] = useState<AnswerCacheStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStats = async () => {
+    if (!user || !projectId) {
+      setStats(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase.rpc('get_answer_cache_stats', {
+        filter_project_id: projectId
+      })
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      const row = (data as AnswerCacheStats[] | null)?.[0]
+
+      // bigint columns arrive as strings or numbers depending on their size
+      setStats(row ? {
+        cached_answers: Number(row.cached_answers),
+        bot_answers: Number(row.bot_answers),
+        cache_hits: Number(row.cache_hits),
+        hit_rate: Number(row.hit_rate)
+      } : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load answer cache statistics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStats()
+  }, [user, projectId])
+
+  return {
+    stats,
+    loading,
+    error,
+    refreshStats: fetchStats
+  }
+}
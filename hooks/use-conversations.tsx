@@ -0,0 +1,229 @@
+import { useState, useEffect, useMemo } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+import type { Database } from '@/lib/supabase'
+
+type MessageRow = Database['public']['Tables']['messages']['Row']
+type ConversationRow = Database['public']['Tables']['conversations']['Row']
+
+export interface RetrievedChunk {
+  id: string
+  content: string
+  // Null when the chunk was found by keyword search alone
+  similarity: number | null
+  keyword_rank: number
+  source_type: string | null
+  source_id: string | null
+  title: string | null
+}
+
+export interface TranscriptCitation {
+  index: number
+  sourceType: string | null
+  sourceId: string | null
+  title: string | null
+}
+
+export type TranscriptMessage = Omit<MessageRow, 'retrieved_chunks' | 'citations'> & {
+  retrieved_chunks: RetrievedChunk[]
+  citations: TranscriptCitation[]
+}
+
+export interface ConversationFilters {
+  // Inclusive local dates in yyyy-mm-dd form, matched against the last message
+  from: string | null
+  to: string | null
+  knowledgeGap: 'all' | 'gap' | 'no-gap'
+  feedback: 'all' | 'positive' | 'negative' | 'none'
+}
+
+export const DEFAULT_CONVERSATION_FILTERS: ConversationFilters = {
+  from: null,
+  to: null,
+  knowledgeGap: 'all',
+  feedback: 'all'
+}
+
+export interface ConversationSummary {
+  id: string
+  created_at: string
+  last_message_at: string
+  message_count: number
+  first_question: string | null
+  knowledge_gap_count: number
+  positive_feedback_count: number
+  negative_feedback_count: number
+  handoff_status: ConversationRow['handoff_status']
+  handoff_requested_at: string | null
+}
+
+interface UseConversationsReturn {
+  conversations: ConversationSummary[]
+  loading: boolean
+  error: string | null
+  deleteConversation: (conversationId: string) => Promise<{ error: string | null }>
+  refreshConversations: () => Promise<void>
+}
+
+// The inbox shows the most recently active conversations in the selected date range
+const CONVERSATION_LIMIT = 200
+
+type ConversationWithMessages = ConversationRow & {
+  messages: Pick<MessageRow, 'role' | 'content' | 'knowledge_gap' | 'feedback' | 'created_at'>[]
+}
+
+const toConversationSummary = (conversation: ConversationWithMessages): ConversationSummary => {
+  const messages = [...(conversation.messages || [])]
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+
+  return {
+    id: conversation.id,
+    created_at: conversation.created_at,
+    last_message_at: conversation.last_message_at,
+    message_count: messages.length,
+    first_question: messages.find(message => message.role === 'user')?.content || null,
+    knowledge_gap_count: messages.filter(message => message.knowledge_gap).length,
+    positive_feedback_count: messages.filter(message => message.feedback === 'positive').length,
+    negative_feedback_count: messages.filter(message => message.feedback === 'negative').length,
+    handoff_status: conversation.handoff_status,
+    handoff_requested_at: conversation.handoff_requested_at
+  }
+}
+
+const matchesFilters = (conversation: ConversationSummary, filters: ConversationFilters): boolean => {
+  if (filters.knowledgeGap === 'gap' && conversation.knowledge_gap_count === 0) return false
+  if (filters.knowledgeGap === 'no-gap' && conversation.knowledge_gap_count > 0) return false
+
+  const hasFeedback = conversation.positive_feedback_count + conversation.negative_feedback_count > 0
+  switch (filters.feedback) {
+    case 'positive':
+      return conversation.positive_feedback_count > 0
+    case 'negative':
+      return conversation.negative_feedback_count > 0
+    case 'none':
+      return !hasFeedback
+    default:
+      return true
+  }
+}
+
+/**
+ * Lists the chat conversations of a project for its owner, with their live handoff state
+ */
+export function useConversations(projectId?: string, filters: ConversationFilters = DEFAULT_CONVERSATION_FILTERS): UseConversationsReturn {
+  const { user } = useAuth()
+  const [allConversations, setAllConversations] = useState<ConversationSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchConversations = async () => {
+    if (!user || !projectId) {
+      setAllConversations([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      let query = supabase
+        .from('conversations')
+        .select('*, messages(role, content, knowledge_gap, feedback, created_at)')
+        .eq('project_id', projectId)
+
+      // Dates are picked in the owner's timezone, so bound them by local midnight
+      if (filters.from) {
+        query = query.gte('last_message_at', new Date(`${filters.from}T00:00:00`).toISOString())
+      }
+      if (filters.to) {
+        query = query.lte('last_message_at', new Date(`${filters.to}T23:59:59.999`).toISOString())
+      }
+
+      const { data, error: fetchError } = await query
+        .order('last_message_at', { ascending: false })
+        .limit(CONVERSATION_LIMIT)
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      setAllConversations((data || []).map(toConversationSummary))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load conversations')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const deleteConversation = async (conversationId: string) => {
+    if (!user) {
+      return { error: 'User not authenticated' }
+    }
+
+    try {
+      const { error: deleteError } = await supabase
+        .from('conversations')
+        .delete()
+        .eq('id', conversationId)
+
+      if (deleteError) {
+        throw deleteError
+      }
+
+      setAllConversations(prev => prev.filter(conversation => conversation.id !== conversationId))
+      return { error: null }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to delete conversation'
+      return { error: errorMessage }
+    }
+  }
+
+  useEffect(() => {
+    fetchConversations()
+  }, [user, projectId, filters.from, filters.to])
+
+  // Keep handoff states current so requests for a human show up without refreshing
+  useEffect(() => {
+    if (!user || !projectId) return
+
+    const channel = supabase
+      .channel(`conversations:${projectId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `project_id=eq.${projectId}` },
+        (payload) => {
+          const updated = payload.new as ConversationRow
+          setAllConversations(prev => prev.map(conversation =>
+            conversation.id === updated.id
+              ? {
+                  ...conversation,
+                  last_message_at: updated.last_message_at,
+                  handoff_status: updated.handoff_status,
+                  handoff_requested_at: updated.handoff_requested_at
+                }
+              : conversation
+          ))
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user, projectId])
+
+  // Gap and feedback filters only narrow the loaded list, so they do not refetch
+  const conversations = useMemo(
+    () => allConversations.filter(conversation => matchesFilters(conversation, filters)),
+    [allConversations, filters]
+  )
+
+  return {
+    conversations,
+    loading,
+    error,
+    deleteConversation,
+    refreshConversations: fetchConversations
+  }
+}
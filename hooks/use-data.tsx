@@ -2,13 +2,27 @@ import { useState, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/hooks/use-auth'
 import { useSemanticProcessing } from '@/hooks/use-semantic-processing'
+import { fetchAccountUsage } from '@/hooks/use-usage'
+import { invalidateAnswerCache } from '@/hooks/use-answer-cache'
 import type { Database } from '@/lib/supabase'
+import type { LanguageCode } from '@/lib/languages'
 
 // Union types for all data items
 type ContextItem = Database['public']['Tables']['contexts']['Row'] & { type: 'context' }
-type IssueItem = Database['public']['Tables']['issues']['Row'] & { type: 'issue'; metadata: { severity: string; status: string } }
+type IssueItem = Database['public']['Tables']['issues']['Row'] & {
+  type: 'issue'
+  metadata: {
+    severity: string
+    status: string
+    // Collected by the chatbot's issue intake
+    referenceCode: string
+    stepsToReproduce: string | null
+    device: string | null
+    contactEmail: string | null
+  }
+}
 type InquiryItem = Database['public']['Tables']['inquiries']['Row'] & { type: 'inquiry' }
-type ProductItem = Database['public']['Tables']['products']['Row'] & { type: 'product'; metadata: { price?: number; affiliateLink?: string } }
+type ProductItem = Database['public']['Tables']['products']['Row'] & { type: 'product'; metadata: { price?: number; currency?: string; affiliateLink?: string } }
 
 type DataItem = ContextItem | IssueItem | InquiryItem | ProductItem
 
@@ -33,6 +47,8 @@ interface CreateDataInput {
   file_size?: number
   type: DataType
   tags?: string[]
+  // Null means the project's default language
+  language?: LanguageCode | null
   metadata?: Record<string, any>
   project_id: string
 }
@@ -44,6 +60,7 @@ interface UseDataReturn {
   createData: (data: CreateDataInput) => Promise<{ data: DataItem | null; error: string | null }>
   updateData: (id: string, type: DataType, updates: any) => Promise<{ data: DataItem | null; error: string | null }>
   deleteData: (id: string) => Promise<{ error: string | null }>
+  resolveInquiry: (inquiry: DataItem, answer: string) => Promise<{ data: DataItem | null; error: string | null }>
   getDataByProject: (projectId: string, type?: DataType) => Promise<{ data: DataItem[] | null; error: string | null }>
   refreshData: () => Promise<void>
 }
@@ -66,7 +83,11 @@ const transformToDataItem = (item: any, type: DataType): DataItem => {
         ...baseItem,
         metadata: {
           severity: item.severity,
-          status: item.status
+          status: item.status,
+          referenceCode: item.reference_code,
+          stepsToReproduce: item.steps_to_reproduce,
+          device: item.device,
+          contactEmail: item.contact_email
         }
       } as IssueItem
     case 'product':
@@ -74,6 +95,7 @@ const transformToDataItem = (item: any, type: DataType): DataItem => {
         ...baseItem,
         metadata: {
           price: item.price,
+          currency: item.currency,
           affiliateLink: item.affiliate_link
         }
       } as ProductItem
@@ -145,6 +167,20 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
     }
 
     try {
+      // Items with enough content are embedded, which the plan's chunk quota must allow
+      const contentToProcess = dataInput.content || dataInput.description
+      const willEmbed = !!contentToProcess && contentToProcess.length > 50
+      if (willEmbed) {
+        const { data: usage } = await fetchAccountUsage()
+        if (usage && usage.embedded_chunks >= usage.embedded_chunks_quota) {
+          const resetDate = new Date(`${usage.period_end}T00:00:00Z`).toLocaleDateString()
+          return {
+            data: null,
+            error: `Your plan's limit of ${usage.embedded_chunks_quota.toLocaleString()} knowledge chunks this month has been reached. Upgrade your plan or add more after ${resetDate}.`
+          }
+        }
+      }
+
       const tableName = getTableName(dataInput.type)
       let insertData: any = {
         title: dataInput.title,
@@ -153,6 +189,7 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
         file_name: dataInput.file_name,
         file_size: dataInput.file_size,
         tags: dataInput.tags || [],
+        language: dataInput.language || null,
         user_id: user.id,
         project_id: dataInput.project_id
       }
@@ -172,6 +209,7 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
           break
         case 'product':
           insertData.price = dataInput.metadata?.price
+          insertData.currency = dataInput.metadata?.currency || 'USD'
           insertData.affiliate_link = dataInput.metadata?.affiliateLink
           break
       }
@@ -191,15 +229,17 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
       setData(prev => [transformedData, ...prev])
 
       // Process content for semantic search if there's meaningful content
-      const contentToProcess = dataInput.content || dataInput.description
-      if (contentToProcess && contentToProcess.length > 50) {
+      if (willEmbed) {
         try {
-          await processContent(contentToProcess, createdData.id, dataInput.type, dataInput.project_id, dataInput.title)
+          await processContent(contentToProcess, createdData.id, dataInput.type, dataInput.project_id, dataInput.title, dataInput.language)
         } catch (embeddingError) {
           console.warn('Failed to process embeddings:', embeddingError)
         }
       }
 
+      // Cached chatbot answers may not reflect the new item
+      await invalidateAnswerCache(dataInput.project_id)
+
       return { data: transformedData, error: null }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to create data'
@@ -219,6 +259,9 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
         delete updateData.metadata
       } else if (type === 'product' && updates.metadata) {
         updateData.price = updates.metadata.price
+        if (updates.metadata.currency) {
+          updateData.currency = updates.metadata.currency
+        }
         updateData.affiliate_link = updates.metadata.affiliateLink
         delete updateData.metadata
       }
@@ -242,6 +285,8 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
         )
       )
 
+      await invalidateAnswerCache(updatedData.project_id)
+
       return { data: transformedData, error: null }
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Failed to update data'
@@ -259,10 +304,11 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
       }
 
       const tableName = getTableName(itemType)
-      const { error: deleteError } = await supabase
+      const { data: deletedData, error: deleteError } = await supabase
         .from(tableName as any)
         .delete()
         .eq('id', id)
+        .select('project_id')
 
       if (deleteError) {
         throw deleteError
@@ -275,6 +321,11 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
         console.warn('Failed to delete embeddings:', embeddingError)
       }
 
+      const deletedProjectId = (deletedData as { project_id: string | null }[] | null)?.[0]?.project_id
+      if (deletedProjectId) {
+        await invalidateAnswerCache(deletedProjectId)
+      }
+
       // Update local state
       setData(prev => prev.filter(item => item.id !== id))
 
@@ -285,6 +336,115 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
     }
   }
 
+  // Removes the context and any embeddings of a resolution that did not complete
+  const discardResolutionContext = async (contextId: string) => {
+    try {
+      await deleteContentEmbeddings(contextId, 'context')
+    } catch (embeddingError) {
+      console.warn('Failed to delete embeddings of unused context:', embeddingError)
+    }
+
+    const { error: deleteError } = await supabase
+      .from('contexts')
+      .delete()
+      .eq('id', contextId)
+
+    if (deleteError) {
+      console.warn('Failed to delete unused context:', deleteError)
+    }
+  }
+
+  /**
+   * Answers an inquiry: saves the question and answer as a context item the chatbot can retrieve,
+   * then marks the inquiry resolved. If any step fails the context is removed again and the inquiry
+   * stays open, so answering it again does not leave a duplicate context behind.
+   */
+  const resolveInquiry = async (inquiry: DataItem, answer: string) => {
+    if (!user) {
+      return { data: null, error: 'User not authenticated' }
+    }
+    if (inquiry.type !== 'inquiry') {
+      return { data: null, error: 'Only inquiries can be resolved' }
+    }
+
+    let contextId: string | null = null
+
+    try {
+      const question = inquiry.description || inquiry.title
+      // Include the other phrasings so visitors who word the question differently also match
+      const phrasings = inquiry.phrasings || []
+      const content = [
+        `Question: ${question}`,
+        ...(phrasings.length > 0 ? [`Also asked as: ${phrasings.join(' | ')}`] : []),
+        `Answer: ${answer}`
+      ].join('\n\n')
+
+      const { data: contextData, error: contextError } = await supabase
+        .from('contexts')
+        .insert({
+          title: question.length > 100 ? `${question.substring(0, 97)}...` : question,
+          description: answer,
+          content,
+          tags: ['resolved-inquiry'],
+          user_id: user.id,
+          project_id: inquiry.project_id
+        })
+        .select()
+        .single()
+
+      if (contextError) {
+        throw contextError
+      }
+      contextId = contextData.id
+
+      // Embed the answer regardless of length so the next visitor who asks gets it
+      await processContent(content, contextData.id, 'context', inquiry.project_id, contextData.title)
+
+      const { data: resolvedData, error: resolveError } = await supabase
+        .from('inquiries')
+        .update({
+          status: 'resolved',
+          answer,
+          resolved_at: new Date().toISOString(),
+          resolved_context_id: contextData.id
+        })
+        .eq('id', inquiry.id)
+        .select()
+        .single()
+
+      if (resolveError) {
+        throw resolveError
+      }
+      // The resolved inquiry now points at the context, so it is kept from here on
+      contextId = null
+
+      // The unanswered question should no longer be retrieved in place of the answer
+      try {
+        await deleteContentEmbeddings(inquiry.id, 'inquiry')
+      } catch (embeddingError) {
+        console.warn('Failed to delete inquiry embeddings:', embeddingError)
+      }
+
+      await invalidateAnswerCache(inquiry.project_id)
+
+      // Update local state
+      const resolvedInquiry = transformToDataItem(resolvedData, 'inquiry')
+      const createdContext = transformToDataItem(contextData, 'context')
+      setData(prev => [
+        createdContext,
+        ...prev.map(item => item.id === inquiry.id ? resolvedInquiry : item)
+      ])
+
+      return { data: resolvedInquiry, error: null }
+    } catch (err) {
+      if (contextId) {
+        await discardResolutionContext(contextId)
+      }
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve inquiry'
+      return { data: null, error: errorMessage }
+    }
+  }
+
   const getDataByProject = async (projectId: string, type?: DataType) => {
     try {
       let allData: DataItem[] = []
@@ -333,6 +493,7 @@ export function useData(projectId?: string, type?: DataType): UseDataReturn {
     createData,
     updateData,
     deleteData,
+    resolveInquiry,
     getDataByProject,
     refreshData,
   }
@@ -0,0 +1,312 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+
+// Golden question set of a project, replayed by the run-evaluation function
+export interface EvalSet {
+  id: string
+  project_id: string
+  name: string
+  description: string | null
+  created_at: string
+}
+
+export interface EvalCase {
+  id: string
+  set_id: string
+  question: string
+  // Knowledge base items (contexts, products, ...) the answer should be retrieved from
+  expected_source_ids: string[]
+  // Null scores retrieval only
+  expected_answer: string | null
+  created_at: string
+}
+
+export interface EvalRun {
+  id: string
+  set_id: string
+  status: 'running' | 'completed' | 'failed'
+  settings: {
+    match_threshold: number
+    match_count: number
+    temperature: number
+    top_p: number
+    max_output_tokens: number
+  }
+  search_mode: 'vector' | 'keyword' | 'hybrid'
+  provider: string | null
+  model: string | null
+  // Retrieval depth recall is measured at
+  k: number
+  case_count: number
+  // Null when no question in the set has what the metric needs
+  recall_at_k: number | null
+  mrr: number | null
+  answer_match: number | null
+  error: string | null
+  started_at: string
+  completed_at: string | null
+}
+
+export interface EvalCaseInput {
+  question: string
+  expected_source_ids: string[]
+  expected_answer: string | null
+}
+
+// Settings a run can try without saving them to the project
+export interface EvalRunOptions {
+  searchMode?: EvalRun['search_mode']
+  overrides?: Partial<EvalRun['settings']>
+}
+
+interface UseEvalSetsReturn {
+  sets: EvalSet[]
+  loading: boolean
+  error: string | null
+  createSet: (name: string, description?: string) => Promise<{ data: EvalSet | null; error: string | null }>
+  deleteSet: (id: string) => Promise<{ error: string | null }>
+  refreshSets: () => Promise<void>
+}
+
+interface UseEvalSetReturn {
+  cases: EvalCase[]
+  runs: EvalRun[]
+  loading: boolean
+  running: boolean
+  error: string | null
+  addCase: (input: EvalCaseInput) => Promise<{ error: string | null }>
+  deleteCase: (id: string) => Promise<{ error: string | null }>
+  runSet: (options?: EvalRunOptions) => Promise<{ data: EvalRun | null; error: string | null }>
+  refreshSet: () => Promise<void>
+}
+
+// Runs listed with a set, newest first
+const RUN_HISTORY_LIMIT = 20
+
+export function useEvalSets(projectId?: string): UseEvalSetsReturn {
+  const { user } = useAuth()
+  const [sets, setSets] = useState<EvalSet[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSets = async () => {
+    if (!user || !projectId) {
+      setSets([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from('eval_sets')
+        .select('id, project_id, name, description, created_at')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: true })
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      setSets((data as EvalSet[] | null) || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load question sets')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const createSet = async (name: string, description?: string) => {
+    if (!user || !projectId) {
+      return { data: null, error: 'User not authenticated' }
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('eval_sets')
+      .insert({ project_id: projectId, user_id: user.id, name, description: description || null })
+      .select('id, project_id, name, description, created_at')
+      .single()
+
+    if (insertError) {
+      return { data: null, error: insertError.message }
+    }
+
+    setSets(prev => [...prev, data as EvalSet])
+    return { data: data as EvalSet, error: null }
+  }
+
+  const deleteSet = async (id: string) => {
+    const { error: deleteError } = await supabase
+      .from('eval_sets')
+      .delete()
+      .eq('id', id)
+
+    if (deleteError) {
+      return { error: deleteError.message }
+    }
+
+    setSets(prev => prev.filter(set => set.id !== id))
+    return { error: null }
+  }
+
+  useEffect(() => {
+    fetchSets()
+  }, [user, projectId])
+
+  return {
+    sets,
+    loading,
+    error,
+    createSet,
+    deleteSet,
+    refreshSets: fetchSets
+  }
+}
+
+/**
+ * Questions and run history of one golden set
+ */
+export function useEvalSet(evalSet?: EvalSet | null): UseEvalSetReturn {
+  const { user } = useAuth()
+  const [cases, setCases] = useState<EvalCase[]>([])
+  const [runs, setRuns] = useState<EvalRun[]>([])
+  const [loading, setLoading] = useState(true)
+  const [running, setRunning] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSet = async () => {
+    if (!user || !evalSet) {
+      setCases([])
+      setRuns([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [casesResult, runsResult] = await Promise.all([
+        supabase
+          .from('eval_cases')
+          .select('id, set_id, question, expected_source_ids, expected_answer, created_at')
+          .eq('set_id', evalSet.id)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('eval_runs')
+          .select('*')
+          .eq('set_id', evalSet.id)
+          .order('started_at', { ascending: false })
+          .limit(RUN_HISTORY_LIMIT)
+      ])
+
+      if (casesResult.error) {
+        throw casesResult.error
+      }
+      if (runsResult.error) {
+        throw runsResult.error
+      }
+
+      setCases((casesResult.data as EvalCase[] | null) || [])
+      setRuns((runsResult.data as EvalRun[] | null) || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load question set')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const addCase = async (input: EvalCaseInput) => {
+    if (!user || !evalSet) {
+      return { error: 'User not authenticated' }
+    }
+
+    const { data, error: insertError } = await supabase
+      .from('eval_cases')
+      .insert({
+        ...input,
+        set_id: evalSet.id,
+        project_id: evalSet.project_id,
+        user_id: user.id
+      })
+      .select('id, set_id, question, expected_source_ids, expected_answer, created_at')
+      .single()
+
+    if (insertError) {
+      return { error: insertError.message }
+    }
+
+    setCases(prev => [...prev, data as EvalCase])
+    return { error: null }
+  }
+
+  const deleteCase = async (id: string) => {
+    const { error: deleteError } = await supabase
+      .from('eval_cases')
+      .delete()
+      .eq('id', id)
+
+    if (deleteError) {
+      return { error: deleteError.message }
+    }
+
+    setCases(prev => prev.filter(evalCase => evalCase.id !== id))
+    return { error: null }
+  }
+
+  const runSet = async (options: EvalRunOptions = {}) => {
+    if (!evalSet) {
+      return { data: null, error: 'No question set selected' }
+    }
+
+    setRunning(true)
+    try {
+      // The function checks that the signed-in user owns the set
+      const { data: { session } } = await supabase.auth.getSession()
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/run-evaluation`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session?.access_token ?? import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          setId: evalSet.id,
+          searchMode: options.searchMode,
+          overrides: options.overrides
+        })
+      })
+
+      const result = await response.json()
+      // A failed run is still stored, so the history is reloaded either way
+      await fetchSet()
+
+      if (!response.ok) {
+        return { data: null, error: result.error || 'Failed to run the evaluation' }
+      }
+      return { data: result.run as EvalRun, error: null }
+    } catch (err) {
+      return { data: null, error: err instanceof Error ? err.message : 'Failed to run the evaluation' }
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchSet()
+  }, [user, evalSet?.id])
+
+  return {
+    cases,
+    runs,
+    loading,
+    running,
+    error,
+    addCase,
+    deleteCase,
+    runSet,
+    refreshSet: fetchSet
+  }
+}
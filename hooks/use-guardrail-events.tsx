@@ -0,0 +1,74 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+
+// A prompt-injection guardrail trigger recorded by chat-query
+export interface GuardrailEvent {
+  id: string
+  project_id: string
+  conversation_id: string | null
+  source: 'query' | 'context'
+  source_id: string | null
+  rule: string
+  excerpt: string
+  action_taken: 'logged' | 'sanitized' | 'blocked' | 'dropped'
+  created_at: string
+}
+
+interface UseGuardrailEventsReturn {
+  events: GuardrailEvent[]
+  loading: boolean
+  error: string | null
+  refreshEvents: () => Promise<void>
+}
+
+/**
+ * Loads the most recent guardrail triggers of a project, for the owner to review
+ */
+export function useGuardrailEvents(projectId?: string, limit = 10): UseGuardrailEventsReturn {
+  const { user } = useAuth()
+  const [events, setEvents] = useState<GuardrailEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchEvents = async () => {
+    if (!user || !projectId) {
+      setEvents([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from('guardrail_events')
+        .select('id, project_id, conversation_id, source, source_id, rule, excerpt, action_taken, created_at')
+        .eq('project_id', projectId)
+        .order('created_at', { ascending: false })
+        .limit(limit)
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      setEvents((data as GuardrailEvent[] | null) || [])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load guardrail events')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchEvents()
+  }, [user, projectId, limit])
+
+  return {
+    events,
+    loading,
+    error,
+    refreshEvents: fetchEvents
+  }
+}
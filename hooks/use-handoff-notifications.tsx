@@ -0,0 +1,66 @@
+import { useEffect, useRef } from 'react'
+import { toast } from 'sonner'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+import type { Database } from '@/lib/supabase'
+
+type Conversation = Database['public']['Tables']['conversations']['Row']
+
+/**
+ * Notifies the owner anywhere in the admin dashboard when a visitor asks for a human,
+ * with a link to the conversation's live transcript
+ */
+export function useHandoffNotifications(onNavigate: (path: string) => void) {
+  const { user } = useAuth()
+  // Each request is announced once; other updates to a waiting conversation (new messages) are ignored
+  const notifiedRequestsRef = useRef(new Map<string, string | null>())
+  const onNavigateRef = useRef(onNavigate)
+  onNavigateRef.current = onNavigate
+
+  useEffect(() => {
+    if (!user) return
+
+    const notify = async (conversation: Conversation) => {
+      const { data: project } = await supabase
+        .from('projects')
+        .select('name, slug')
+        .eq('id', conversation.project_id)
+        .single()
+
+      if (!project) return
+
+      toast.info('A visitor wants to talk to a person', {
+        description: project.name,
+        duration: 15000,
+        action: {
+          label: 'Open',
+          onClick: () => onNavigateRef.current(
+            `/admin/projects/${project.slug}/conversations?conversation=${conversation.id}`
+          )
+        }
+      })
+    }
+
+    const channel = supabase
+      .channel(`handoff-requests:${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `user_id=eq.${user.id}` },
+        (payload) => {
+          const conversation = payload.new as Conversation
+          if (conversation.handoff_status !== 'requested') return
+
+          const notified = notifiedRequestsRef.current
+          if (notified.get(conversation.id) === conversation.handoff_requested_at) return
+          notified.set(conversation.id, conversation.handoff_requested_at)
+
+          notify(conversation)
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [user])
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect, useRef } from 'react'
+import type { RealtimeChannel } from '@supabase/supabase-js'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+import {
+  HANDOFF_EVENTS,
+  getHandoffChannelName,
+  type HandoffStatus,
+  type HandoffStatusPayload,
+  type HumanMessagePayload
+} from '@/lib/handoff'
+import type { TranscriptMessage } from '@/hooks/use-conversations'
+import type { Database } from '@/lib/supabase'
+
+type Conversation = Database['public']['Tables']['conversations']['Row']
+
+interface UseLiveConversationReturn {
+  conversation: Conversation | null
+  transcript: TranscriptMessage[]
+  loading: boolean
+  error: string | null
+  sendReply: (content: string) => Promise<{ error: string | null }>
+  setHandoffStatus: (status: Exclude<HandoffStatus, 'requested'>) => Promise<{ error: string | null }>
+}
+
+const appendMessage = (transcript: TranscriptMessage[], message: TranscriptMessage) =>
+  transcript.some(existing => existing.id === message.id) ? transcript : [...transcript, message]
+
+/**
+ * Loads a conversation for its owner and keeps it live: new visitor messages and handoff changes arrive
+ * through Realtime, and the owner can take over, reply into the visitor's chat and hand back to the bot.
+ */
+export function useLiveConversation(conversationId: string | null): UseLiveConversationReturn {
+  const { user } = useAuth()
+  const [conversation, setConversation] = useState<Conversation | null>(null)
+  const [transcript, setTranscript] = useState<TranscriptMessage[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Also used to broadcast to the visitor, who shares the same channel
+  const channelRef = useRef<RealtimeChannel | null>(null)
+
+  const fetchConversation = async (id: string) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const [conversationResult, messagesResult] = await Promise.all([
+        supabase.from('conversations').select('*').eq('id', id).single(),
+        supabase.from('messages').select('*').eq('conversation_id', id).order('created_at', { ascending: true })
+      ])
+
+      if (conversationResult.error) {
+        throw conversationResult.error
+      }
+      if (messagesResult.error) {
+        throw messagesResult.error
+      }
+
+      setConversation(conversationResult.data)
+      setTranscript((messagesResult.data || []) as TranscriptMessage[])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load transcript')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    setConversation(null)
+    setTranscript([])
+
+    if (!user || !conversationId) return
+
+    fetchConversation(conversationId)
+
+    const channel = supabase
+      .channel(getHandoffChannelName(conversationId))
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `conversation_id=eq.${conversationId}` },
+        (payload) => setTranscript(prev => appendMessage(prev, payload.new as TranscriptMessage))
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversations', filter: `id=eq.${conversationId}` },
+        (payload) => setConversation(payload.new as Conversation)
+      )
+      .subscribe()
+
+    channelRef.current = channel
+
+    return () => {
+      channelRef.current = null
+      supabase.removeChannel(channel)
+    }
+  }, [user, conversationId])
+
+  const broadcast = async (event: string, payload: HumanMessagePayload | HandoffStatusPayload) => {
+    await channelRef.current?.send({ type: 'broadcast', event, payload })
+  }
+
+  const updateConversation = async (updates: Database['public']['Tables']['conversations']['Update']) => {
+    if (!conversation) {
+      throw new Error('Conversation not loaded')
+    }
+
+    const { data, error: updateError } = await supabase
+      .from('conversations')
+      .update(updates)
+      .eq('id', conversation.id)
+      .select()
+      .single()
+
+    if (updateError) {
+      throw updateError
+    }
+
+    setConversation(data)
+    return data as Conversation
+  }
+
+  const setHandoffStatus = async (status: Exclude<HandoffStatus, 'requested'>) => {
+    if (!user || !conversation) {
+      return { error: 'User not authenticated' }
+    }
+
+    try {
+      if (conversation.handoff_status !== status) {
+        await updateConversation({ handoff_status: status })
+        await broadcast(HANDOFF_EVENTS.status, { status })
+      }
+      return { error: null }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to update conversation'
+      return { error: errorMessage }
+    }
+  }
+
+  const sendReply = async (content: string) => {
+    if (!user || !conversation) {
+      return { error: 'User not authenticated' }
+    }
+
+    try {
+      // Replying takes the conversation over, so the bot stops answering the visitor
+      if (conversation.handoff_status !== 'human') {
+        await updateConversation({ handoff_status: 'human' })
+        await broadcast(HANDOFF_EVENTS.status, { status: 'human' })
+      }
+
+      const { data, error: insertError } = await supabase
+        .from('messages')
+        .insert({
+          conversation_id: conversation.id,
+          project_id: conversation.project_id,
+          user_id: user.id,
+          role: 'assistant',
+          sender: 'human',
+          content
+        })
+        .select()
+        .single()
+
+      if (insertError) {
+        throw insertError
+      }
+
+      const message = data as TranscriptMessage
+      setTranscript(prev => appendMessage(prev, message))
+      await broadcast(HANDOFF_EVENTS.message, {
+        id: message.id,
+        content: message.content,
+        created_at: message.created_at
+      })
+
+      await supabase
+        .from('conversations')
+        .update({ last_message_at: message.created_at })
+        .eq('id', conversation.id)
+
+      return { error: null }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to send reply'
+      return { error: errorMessage }
+    }
+  }
+
+  return {
+    conversation,
+    transcript,
+    loading,
+    error,
+    sendReply,
+    setHandoffStatus
+  }
+}
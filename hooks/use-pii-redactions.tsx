@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+import type { PiiType } from '@/lib/pii'
+
+// Personal information masked in a project's knowledge gaps over the last 30 days, from get_pii_redaction_report
+export interface PiiRedactionReportRow {
+  pii_type: PiiType
+  method: 'pattern' | 'model'
+  values_masked: number
+  questions: number
+  last_redacted_at: string
+}
+
+interface UsePiiRedactionReportReturn {
+  report: PiiRedactionReportRow[]
+  loading: boolean
+  error: string | null
+  refreshReport: () => Promise<void>
+}
+
+export function usePiiRedactionReport(projectId?: string): UsePiiRedactionReportReturn {
+  const { user } = useAuth()
+  const [report, setReport] = useState<PiiRedactionReportRow[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchReport = async () => {
+    if (!user || !projectId) {
+      setReport([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase.rpc('get_pii_redaction_report', {
+        filter_project_id: projectId
+      })
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      // bigint columns arrive as strings or numbers depending on their size
+      setReport(((data as PiiRedactionReportRow[] | null) || []).map(row => ({
+        ...row,
+        values_masked: Number(row.values_masked),
+        questions: Number(row.questions)
+      })))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load redaction report')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchReport()
+  }, [user, projectId])
+
+  return {
+    report,
+    loading,
+    error,
+    refreshReport: fetchReport
+  }
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+
+// How often a product was suggested in chat and its buy button clicked over the last 30 days, from get_product_click_stats
+export interface ProductClickStats {
+  product_id: string
+  title: string
+  impressions: number
+  clicks: number
+  click_through_rate: number
+}
+
+interface UseProductClickStatsReturn {
+  stats: ProductClickStats[]
+  loading: boolean
+  error: string | null
+  refreshStats: () => Promise<void>
+}
+
+export function useProductClickStats(projectId?: string): UseProductClickStatsReturn {
+  const { user } = useAuth()
+  const [stats, setStats] = useState<ProductClickStats[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStats = async () => {
+    if (!user || !projectId) {
+      setStats([])
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase.rpc('get_product_click_stats', {
+        filter_project_id: projectId
+      })
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      // bigint columns arrive as strings or numbers depending on their size
+      setStats(((data as ProductClickStats[] | null) || []).map(row => ({
+        ...row,
+        impressions: Number(row.impressions),
+        clicks: Number(row.clicks),
+        click_through_rate: Number(row.click_through_rate)
+      })))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load product click statistics')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStats()
+  }, [user, projectId])
+
+  return {
+    stats,
+    loading,
+    error,
+    refreshStats: fetchStats
+  }
+}
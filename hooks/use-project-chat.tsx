@@ -1,30 +1,311 @@
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useRef, useEffect } from 'react'
 import { supabase } from '@/lib/supabase'
 import { toast } from 'sonner'
+import {
+  HANDOFF_EVENTS,
+  getHandoffChannelName,
+  type HandoffStatus,
+  type HandoffStatusPayload,
+  type HumanMessagePayload
+} from '@/lib/handoff'
+
+export interface ChatCitation {
+  index: number
+  sourceType: 'context' | 'issue' | 'inquiry' | 'product' | null
+  sourceId: string | null
+  title: string | null
+  // Null when the source was found by keyword search alone
+  similarity: number | null
+  snippet: string
+}
+
+// Product suggested with an answer; url is the tracked redirect to its buy link, if it has one
+export interface ChatProductSuggestion {
+  id: string
+  title: string
+  price: number | null
+  currency: string
+  description: string | null
+  url: string | null
+}
+
+export type AnswerFeedback = 'positive' | 'negative'
 
 interface ChatMessage {
   id: string
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  citations?: ChatCitation[]
+  products?: ChatProductSuggestion[]
+  // Id of the stored answer; only answers that were saved can be rated
+  messageId?: string
+  feedback?: AnswerFeedback
+  // Who wrote an assistant message: the bot or the project owner after a handoff
+  sender?: 'ai' | 'human'
+}
+
+interface ChatContextItem {
+  id: string
+  content: string
+  similarity: number | null
+  keyword_rank: number
+  score: number
+  metadata: Record<string, unknown>
+  source_type: string | null
+  source_id: string | null
+}
+
+interface ChatQueryResult {
+  conversationId: string
+  messageId: string | null
+  context: ChatContextItem[] | null
+  citations: ChatCitation[]
+  products: ChatProductSuggestion[]
+  knowledgeGap: boolean
+  knowledgeGapType: 'issue' | 'inquiry' | null
+  // Reference id of an issue filed this turn, and whether the bot is still asking for its details
+  issueReference: string | null
+  issueIntake: boolean
+  // Standalone version of the message used for retrieval
+  rewrittenQuery: string
+  handoffStatus: HandoffStatus
+}
+
+interface ServerSentEvent {
+  event: string
+  data: unknown
 }
 
 interface UseProjectChatReturn {
   messages: ChatMessage[]
   isLoading: boolean
+  streamingMessageId: string | null
   error: string | null
   sendMessage: (message: string, projectSlug: string) => Promise<void>
+  stopGeneration: () => void
   clearMessages: () => void
+  submitFeedback: (id: string, feedback: AnswerFeedback, comment?: string) => Promise<{ error: string | null }>
+  // Whether the bot or a person answers; only available once the conversation has started
+  conversationId: string | null
+  handoffStatus: HandoffStatus
+  requestHandoff: () => Promise<{ error: string | null }>
+  cancelHandoff: () => Promise<{ error: string | null }>
+}
+
+const VISITOR_ID_KEY = 'chat_visitor_id'
+const CONVERSATION_ID_KEY_PREFIX = 'chat_conversation_id:'
+
+/**
+ * Thrown when chat-query refuses a message because of a rate limit (429) or the owner's plan quota (402);
+ * its message is written for the visitor
+ */
+class ChatLimitError extends Error {}
+
+/**
+ * Anonymous token identifying this browser to chat-query's rate limits when no IP address is available
+ */
+const getVisitorId = (): string => {
+  let visitorId = localStorage.getItem(VISITOR_ID_KEY)
+  if (!visitorId) {
+    visitorId = crypto.randomUUID()
+    localStorage.setItem(VISITOR_ID_KEY, visitorId)
+  }
+  return visitorId
+}
+
+/**
+ * Conversation ids are kept per project for the browser tab, so reloading the chat shows the conversation
+ * again (see loadTranscript) and continues it instead of starting a new one
+ */
+const getStoredConversationId = (projectSlug: string): string | null =>
+  sessionStorage.getItem(`${CONVERSATION_ID_KEY_PREFIX}${projectSlug}`)
+
+const storeConversationId = (projectSlug: string, conversationId: string | null) => {
+  const key = `${CONVERSATION_ID_KEY_PREFIX}${projectSlug}`
+  if (conversationId) {
+    sessionStorage.setItem(key, conversationId)
+  } else {
+    sessionStorage.removeItem(key)
+  }
+}
+
+// Stored message as returned by load-conversation
+interface TranscriptMessage {
+  id: string
+  role: 'user' | 'assistant'
+  sender: 'visitor' | 'ai' | 'human'
+  content: string
+  citations: ChatCitation[] | null
+  feedback: AnswerFeedback | null
+  created_at: string
+}
+
+/**
+ * Loads a stored conversation: its messages, including owner replies sent while the visitor was away,
+ * and who is answering it
+ * @returns null when the conversation no longer exists
+ */
+async function loadTranscript(conversationId: string): Promise<{ messages: ChatMessage[]; handoffStatus: HandoffStatus } | null> {
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/load-conversation`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ conversationId })
+  })
+
+  const result = await response.json()
+  if (response.status === 404) {
+    return null
+  }
+  if (!response.ok) {
+    throw new Error(result.error || 'Failed to load the conversation')
+  }
+
+  return {
+    handoffStatus: result.handoffStatus,
+    messages: (result.messages as TranscriptMessage[]).map(message => ({
+      id: message.id,
+      role: message.role,
+      content: message.content,
+      timestamp: new Date(message.created_at),
+      citations: message.citations?.length ? message.citations : undefined,
+      // The bot's answers can still be rated, as they could before the reload
+      messageId: message.sender === 'ai' ? message.id : undefined,
+      feedback: message.feedback ?? undefined,
+      sender: message.role === 'assistant' ? (message.sender === 'human' ? 'human' : 'ai') : undefined
+    }))
+  }
+}
+
+/**
+ * Reads a text/event-stream body and yields each complete event
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const events = buffer.split(/\r?\n\r?\n/)
+    // Keep the last (possibly incomplete) event for the next read
+    buffer = events.pop() || ''
+
+    for (const rawEvent of events) {
+      let event = 'message'
+      let data = ''
+
+      for (const line of rawEvent.split(/\r?\n/)) {
+        if (line.startsWith('event:')) {
+          event = line.slice(6).trim()
+        } else if (line.startsWith('data:')) {
+          data += line.slice(5).trim()
+        }
+      }
+
+      if (data) {
+        yield { event, data: JSON.parse(data) }
+      }
+    }
+  }
 }
 
-export function useProjectChat(): UseProjectChatReturn {
+/**
+ * Chat with a project's assistant. With a projectSlug, the conversation is remembered for the tab and
+ * shown again on mount; without one (the owner's playground) every session starts fresh.
+ */
+export function useProjectChat(projectSlug?: string): UseProjectChatReturn {
   const [messages, setMessages] = useState<ChatMessage[]>([])
   const [isLoading, setIsLoading] = useState(false)
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+  // Server-side conversation the next message continues; history is loaded from it by chat-query
+  const conversationIdRef = useRef<string | null>(null)
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [handoffStatus, setHandoffStatus] = useState<HandoffStatus>('bot')
+  // Project whose conversation id is kept in session storage
+  const storedSlugRef = useRef(projectSlug)
+
+  // Show and continue this tab's conversation with the project, if it had one
+  useEffect(() => {
+    storedSlugRef.current = projectSlug
+    const storedId = projectSlug ? getStoredConversationId(projectSlug) : null
+    conversationIdRef.current = storedId
+    setConversationId(storedId)
+    setHandoffStatus('bot')
+    setMessages([])
+    if (!projectSlug || !storedId) return
+
+    let cancelled = false
+    loadTranscript(storedId)
+      .then(transcript => {
+        if (cancelled || conversationIdRef.current !== storedId) return
+        if (!transcript) {
+          // Deleted by the owner; the next message starts a new conversation
+          conversationIdRef.current = null
+          setConversationId(null)
+          storeConversationId(projectSlug, null)
+          return
+        }
+        // Keep anything sent while the transcript was loading after it
+        setMessages(prev => [...transcript.messages, ...prev.filter(msg => !transcript.messages.some(stored => stored.id === msg.id))])
+        setHandoffStatus(transcript.handoffStatus)
+      })
+      .catch(err => {
+        console.error('Error loading conversation:', err)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [projectSlug])
+
+  // Receive the owner's replies and takeover/hand-back while the conversation is open
+  useEffect(() => {
+    if (!conversationId) return
+
+    const channel = supabase
+      .channel(getHandoffChannelName(conversationId))
+      .on('broadcast', { event: HANDOFF_EVENTS.message }, ({ payload }) => {
+        const humanMessage = payload as HumanMessagePayload
+        setMessages(prev => prev.some(msg => msg.id === humanMessage.id) ? prev : [...prev, {
+          id: humanMessage.id,
+          role: 'assistant',
+          sender: 'human',
+          content: humanMessage.content,
+          timestamp: new Date(humanMessage.created_at)
+        }])
+      })
+      .on('broadcast', { event: HANDOFF_EVENTS.status }, ({ payload }) => {
+        // The owner only broadcasts actual changes, so each one is announced
+        const { status } = payload as HandoffStatusPayload
+        setHandoffStatus(status)
+        if (status === 'human') {
+          toast.info('A team member has joined the chat.', { position: 'bottom-center' })
+        } else if (status === 'bot') {
+          toast.info("You're back with the AI assistant.", { position: 'bottom-center' })
+        }
+      })
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [conversationId])
 
   const sendMessage = useCallback(async (message: string, projectSlug: string) => {
     if (!message.trim() || !projectSlug) return
 
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
+    const assistantMessageId = (Date.now() + 1).toString()
+
     try {
       setError(null)
       setIsLoading(true)
@@ -38,13 +319,7 @@ export function useProjectChat(): UseProjectChatReturn {
       }
       setMessages(prev => [...prev, userMessage])
 
-      // Format chat history for the API (excluding the message we just added)
-      const chatHistory = messages.map(msg => ({
-        role: msg.role,
-        content: msg.content
-      }))
-
-      // Call the chat-query edge function
+      // Call the chat-query edge function in streaming mode
       const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/chat-query`, {
         method: 'POST',
         headers: {
@@ -53,56 +328,204 @@ export function useProjectChat(): UseProjectChatReturn {
         },
         body: JSON.stringify({
           query: message,
-          chatHistory,
+          conversationId: conversationIdRef.current,
           projectSlug,
-          threshold: 0.4 // Set threshold to 40%
-        })
+          visitorId: getVisitorId(),
+          stream: true
+        }),
+        signal: abortController.signal
       })
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json()
+        if (response.status === 429 || response.status === 402) {
+          throw new ChatLimitError(errorData.error || 'Too many messages. Please try again later.')
+        }
         throw new Error(errorData.error || 'Failed to get response from AI')
       }
 
-      const data = await response.json()
-      
-     // Check if this was a knowledge gap and notify the user
-     if (data.knowledgeGap) {
-       const isIssue = data.knowledgeGapType === 'issue'
+      let result: ChatQueryResult | null = null
+      let hasReceivedText = false
+      let isHandedOff = false
+
+      for await (const { event, data } of readServerSentEvents(response.body)) {
+        if (event === 'conversation') {
+          conversationIdRef.current = (data as { conversationId: string }).conversationId
+          setConversationId(conversationIdRef.current)
+          if (storedSlugRef.current) {
+            storeConversationId(storedSlugRef.current, conversationIdRef.current)
+          }
+        } else if (event === 'handoff') {
+          // A person is handling the conversation; the message was passed on without an answer
+          isHandedOff = true
+          setHandoffStatus((data as HandoffStatusPayload).status)
+        } else if (event === 'token') {
+          const { text } = data as { text: string }
+          hasReceivedText = true
+          // Add the assistant message on the first token, then grow it in place
+          setStreamingMessageId(assistantMessageId)
+          setMessages(prev => {
+            if (!prev.some(msg => msg.id === assistantMessageId)) {
+              return [...prev, {
+                id: assistantMessageId,
+                role: 'assistant',
+                sender: 'ai',
+                content: text,
+                timestamp: new Date()
+              }]
+            }
+            return prev.map(msg =>
+              msg.id === assistantMessageId ? { ...msg, content: msg.content + text } : msg
+            )
+          })
+        } else if (event === 'done') {
+          result = data as ChatQueryResult
+        } else if (event === 'error') {
+          throw new Error((data as { error?: string }).error || 'Failed to get response from AI')
+        }
+      }
+
+      if (isHandedOff) return
+
+      if (!hasReceivedText) {
+        throw new Error('No response text from AI')
+      }
+
+      // Attach the sources the answer cited, the suggested products and the stored id used for feedback
+      if (result) {
+        const citations = result.citations?.length ? result.citations : undefined
+        const products = result.products?.length ? result.products : undefined
+        const messageId = result.messageId || undefined
+        setMessages(prev => prev.map(msg =>
+          msg.id === assistantMessageId ? { ...msg, citations, products, messageId } : msg
+        ))
+      }
+
+     // Check if this was a knowledge gap and notify the user.
+     // Issues being reported through follow-up questions are announced once they are filed.
+     if (result?.issueReference) {
+       toast.info(`Your issue has been filed. Reference id: ${result.issueReference}`, {
+         duration: 8000,
+         position: 'bottom-center',
+         icon: '🐛'
+       })
+     } else if (result?.knowledgeGap && !result.issueIntake) {
+       const isIssue = result.knowledgeGapType === 'issue'
        toast.info(`Your ${isIssue ? 'issue' : 'question'} has been logged for future reference.`, {
          duration: 5000,
         position: 'bottom-center',
         icon: isIssue ? '🐛' : '❓'
        })
      }
-     
-      // Add AI response to chat
-      const assistantMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'assistant',
-        content: data.response,
-        timestamp: new Date()
-      }
-      setMessages(prev => [...prev, assistantMessage])
 
     } catch (err) {
+      // Keep whatever was generated before the user pressed Stop
+      if (abortController.signal.aborted) return
+
       console.error('Error in project chat:', err)
       setError(err instanceof Error ? err.message : 'An error occurred')
-      
-      // Add error message to chat
+
+      // Add error message to chat, replacing any partial answer.
+      // Throttled visitors are told why and how long to wait rather than shown a generic apology.
       const errorMessage: ChatMessage = {
-        id: (Date.now() + 1).toString(),
+        id: assistantMessageId,
         role: 'assistant',
-        content: "I'm sorry, I encountered an error while processing your request. Please try again later.",
+        content: err instanceof ChatLimitError
+          ? err.message
+          : "I'm sorry, I encountered an error while processing your request. Please try again later.",
         timestamp: new Date()
       }
-      setMessages(prev => [...prev, errorMessage])
+      setMessages(prev => [...prev.filter(msg => msg.id !== assistantMessageId), errorMessage])
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
+      setStreamingMessageId(null)
       setIsLoading(false)
     }
+  }, [])
+
+  const stopGeneration = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
+
+  const submitFeedback = useCallback(async (id: string, feedback: AnswerFeedback, comment?: string) => {
+    const message = messages.find(msg => msg.id === id)
+    if (!message?.messageId || !conversationIdRef.current) {
+      return { error: 'This answer can no longer be rated' }
+    }
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/submit-feedback`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          conversationId: conversationIdRef.current,
+          messageId: message.messageId,
+          feedback,
+          comment
+        })
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to send feedback')
+      }
+
+      setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, feedback } : msg))
+      return { error: null }
+    } catch (err) {
+      console.error('Error sending feedback:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to send feedback' }
+    }
   }, [messages])
 
+  const updateHandoff = useCallback(async (action: 'request' | 'cancel') => {
+    if (!conversationIdRef.current) {
+      return { error: 'Send a message first' }
+    }
+
+    try {
+      const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/request-handoff`, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${import.meta.env.VITE_SUPABASE_ANON_KEY}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          conversationId: conversationIdRef.current,
+          action
+        })
+      })
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to reach the team')
+      }
+
+      setHandoffStatus(result.handoffStatus)
+      return { error: null }
+    } catch (err) {
+      console.error('Error updating handoff:', err)
+      return { error: err instanceof Error ? err.message : 'Failed to reach the team' }
+    }
+  }, [])
+
+  const requestHandoff = useCallback(() => updateHandoff('request'), [updateHandoff])
+
+  const cancelHandoff = useCallback(() => updateHandoff('cancel'), [updateHandoff])
+
   const clearMessages = useCallback(() => {
+    abortControllerRef.current?.abort()
+    conversationIdRef.current = null
+    setConversationId(null)
+    if (storedSlugRef.current) {
+      storeConversationId(storedSlugRef.current, null)
+    }
+    setHandoffStatus('bot')
     setMessages([])
     setError(null)
   }, [])
@@ -110,8 +533,15 @@ export function useProjectChat(): UseProjectChatReturn {
   return {
     messages,
     isLoading,
+    streamingMessageId,
     error,
     sendMessage,
-    clearMessages
+    stopGeneration,
+    clearMessages,
+    submitFeedback,
+    conversationId,
+    handoffStatus,
+    requestHandoff,
+    cancelHandoff
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,175 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+import type { Database } from '@/lib/supabase'
+import { isLanguageCode } from '@/lib/languages'
+import type { LanguageCode } from '@/lib/languages'
+import { isPiiType, PII_TYPES } from '@/lib/pii'
+import type { PiiType } from '@/lib/pii'
+import { isIntakeField, INTAKE_FIELDS } from '@/lib/issue-intake'
+import type { IntakeField } from '@/lib/issue-intake'
+
+type ProjectSettingsRow = Database['public']['Tables']['project_settings']['Row']
+
+export type ProjectSettings = Omit<ProjectSettingsRow, 'project_id' | 'user_id' | 'created_at' | 'updated_at' | 'default_language' | 'supported_languages' | 'pii_redaction_types' | 'issue_intake_fields'> & {
+  default_language: LanguageCode
+  // Empty means the bot replies in any language it detects
+  supported_languages: LanguageCode[]
+  pii_redaction_types: PiiType[]
+  // Empty means issues reported in chat are filed without follow-up questions
+  issue_intake_fields: IntakeField[]
+}
+
+export const DEFAULT_PROJECT_SETTINGS: ProjectSettings = {
+  assistant_name: null,
+  instructions: null,
+  tone: 'friendly',
+  banned_topics: [],
+  fallback_message: null,
+  answer_length: 'medium',
+  temperature: 0.2,
+  top_p: 0.8,
+  max_output_tokens: 1024,
+  match_threshold: 0.4,
+  match_count: 5,
+  gap_cutoff: 0.5,
+  llm_provider: null,
+  generation_model: null,
+  default_language: 'en',
+  supported_languages: [],
+  guardrail_action: 'block',
+  guardrail_blocked_phrases: [],
+  guardrail_screen_context: true,
+  pii_redaction_enabled: true,
+  pii_redaction_types: PII_TYPES,
+  pii_model_detection: false,
+  issue_intake_fields: INTAKE_FIELDS
+}
+
+export type NumericSetting = 'temperature' | 'top_p' | 'max_output_tokens' | 'match_threshold' | 'match_count' | 'gap_cutoff'
+
+// Allowed ranges for the generation and retrieval parameters (mirrored in the database and chat-query)
+export const SETTING_BOUNDS: Record<NumericSetting, { min: number; max: number; step: number }> = {
+  temperature: { min: 0, max: 1, step: 0.05 },
+  top_p: { min: 0.1, max: 1, step: 0.05 },
+  max_output_tokens: { min: 128, max: 2048, step: 64 },
+  match_threshold: { min: 0.1, max: 0.9, step: 0.05 },
+  match_count: { min: 1, max: 20, step: 1 },
+  gap_cutoff: { min: 0.1, max: 0.9, step: 0.05 }
+}
+
+interface UseProjectSettingsReturn {
+  settings: ProjectSettings
+  loading: boolean
+  error: string | null
+  saveSettings: (updates: Partial<ProjectSettings>) => Promise<{ data: ProjectSettings | null; error: string | null }>
+  refreshSettings: () => Promise<void>
+}
+
+const toProjectSettings = (row: ProjectSettingsRow): ProjectSettings => ({
+  assistant_name: row.assistant_name,
+  instructions: row.instructions,
+  tone: row.tone,
+  banned_topics: row.banned_topics || [],
+  fallback_message: row.fallback_message,
+  answer_length: row.answer_length,
+  temperature: row.temperature,
+  top_p: row.top_p,
+  max_output_tokens: row.max_output_tokens,
+  match_threshold: row.match_threshold,
+  match_count: row.match_count,
+  gap_cutoff: row.gap_cutoff,
+  llm_provider: row.llm_provider,
+  generation_model: row.generation_model,
+  default_language: isLanguageCode(row.default_language) ? row.default_language : 'en',
+  supported_languages: (row.supported_languages || []).filter(isLanguageCode),
+  guardrail_action: row.guardrail_action,
+  guardrail_blocked_phrases: row.guardrail_blocked_phrases || [],
+  guardrail_screen_context: row.guardrail_screen_context,
+  pii_redaction_enabled: row.pii_redaction_enabled,
+  pii_redaction_types: (row.pii_redaction_types || []).filter(isPiiType),
+  pii_model_detection: row.pii_model_detection,
+  issue_intake_fields: (row.issue_intake_fields || []).filter(isIntakeField)
+})
+
+/**
+ * Loads and saves the assistant settings of a project. Projects without a saved row use the defaults.
+ */
+export function useProjectSettings(projectId?: string): UseProjectSettingsReturn {
+  const { user } = useAuth()
+  const [settings, setSettings] = useState<ProjectSettings>(DEFAULT_PROJECT_SETTINGS)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSettings = async () => {
+    if (!user || !projectId) {
+      setSettings(DEFAULT_PROJECT_SETTINGS)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase
+        .from('project_settings')
+        .select('*')
+        .eq('project_id', projectId)
+        .maybeSingle()
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      setSettings(data ? toProjectSettings(data) : DEFAULT_PROJECT_SETTINGS)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load project settings')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const saveSettings = async (updates: Partial<ProjectSettings>) => {
+    if (!user || !projectId) {
+      return { data: null, error: 'User not authenticated' }
+    }
+
+    try {
+      const { data, error: saveError } = await supabase
+        .from('project_settings')
+        .upsert({
+          ...settings,
+          ...updates,
+          project_id: projectId,
+          user_id: user.id
+        })
+        .select()
+        .single()
+
+      if (saveError) {
+        throw saveError
+      }
+
+      const savedSettings = toProjectSettings(data)
+      setSettings(savedSettings)
+
+      return { data: savedSettings, error: null }
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to save project settings'
+      return { data: null, error: errorMessage }
+    }
+  }
+
+  useEffect(() => {
+    fetchSettings()
+  }, [user, projectId])
+
+  return {
+    settings,
+    loading,
+    error,
+    saveSettings,
+    refreshSettings: fetchSettings
+  }
+}
@@ -2,6 +2,7 @@ import { useState, useEffect, useRef } from 'react'
 import { supabase } from '@/lib/supabase'
 import { useAuth } from '@/hooks/use-auth'
 import { slugify } from '@/lib/utils'
+import { getQuotaErrorMessage } from '@/hooks/use-usage'
 import type { Database } from '@/lib/supabase'
 
 type Project = Database['public']['Tables']['projects']['Row']
@@ -214,6 +215,11 @@ export function useProjects(): UseProjectsReturn {
         .single()
 
       if (createError) {
+        // The project quota trigger explains the limit in its message
+        const quotaMessage = getQuotaErrorMessage(createError)
+        if (quotaMessage) {
+          return { data: null, error: quotaMessage }
+        }
         throw createError
       }
 
@@ -0,0 +1,79 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+
+// Chat response times over the last 30 days, from get_response_time_stats
+export interface ResponseTimeStats {
+  requests: number
+  replies: number
+  errors: number
+  // Null until the bot has replied at least once
+  p50_ms: number | null
+  p95_ms: number | null
+}
+
+interface UseResponseTimeStatsReturn {
+  stats: ResponseTimeStats | null
+  loading: boolean
+  error: string | null
+  refreshStats: () => Promise<void>
+}
+
+/**
+ * Loads response time percentiles for one project, or for all of the signed-in user's projects
+ */
+export function useResponseTimeStats(projectId?: string): UseResponseTimeStatsReturn {
+  const { user } = useAuth()
+  const [stats, setStats] = useState<ResponseTimeStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchStats = async () => {
+    if (!user) {
+      setStats(null)
+      setLoading(false)
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: fetchError } = await supabase.rpc('get_response_time_stats', {
+        filter_project_id: projectId ?? null
+      })
+
+      if (fetchError) {
+        throw fetchError
+      }
+
+      const row = (data as ResponseTimeStats[] | null)?.[0]
+
+      // bigint columns arrive as strings or numbers depending on their size
+      setStats(row
+        ? {
+            requests: Number(row.requests),
+            replies: Number(row.replies),
+            errors: Number(row.errors),
+            p50_ms: row.p50_ms === null ? null : Number(row.p50_ms),
+            p95_ms: row.p95_ms === null ? null : Number(row.p95_ms)
+          }
+        : null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load response times')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchStats()
+  }, [user, projectId])
+
+  return {
+    stats,
+    loading,
+    error,
+    refreshStats: fetchStats
+  }
+}
@@ -1,6 +1,6 @@
 import { useState } from 'react'
 import { geminiChunker, SemanticChunk } from '@/lib/gemini'
-import { embeddingService, EmbeddingResult } from '@/lib/embeddings'
+import { embeddingService, EmbeddingResult, SearchMode } from '@/lib/embeddings'
 import { useAuth } from '@/hooks/use-auth'
 
 interface ProcessingState {
@@ -17,7 +17,8 @@ interface UseSemanticProcessingReturn {
     sourceId: string,
     sourceType: 'context' | 'issue' | 'inquiry' | 'product',
     projectId: string,
-    originalTitle?: string
+    originalTitle?: string,
+    language?: string | null
   ) => Promise<EmbeddingResult[]>
   searchContent: (
     query: string,
@@ -26,6 +27,7 @@ interface UseSemanticProcessingReturn {
       threshold?: number // Default changed in implementation
       limit?: number
       sourceType?: 'context' | 'issue' | 'inquiry' | 'product'
+      mode?: SearchMode
     }
   ) => Promise<any[]>
   deleteContentEmbeddings: (sourceId: string, sourceType: string) => Promise<void>
@@ -49,7 +51,8 @@ export function useSemanticProcessing(): UseSemanticProcessingReturn {
     sourceId: string,
     sourceType: 'context' | 'issue' | 'inquiry' | 'product',
     projectId: string,
-    originalTitle?: string
+    originalTitle?: string,
+    language?: string | null
   ): Promise<EmbeddingResult[]> => {
     if (!user) {
       throw new Error('User must be authenticated')
@@ -87,7 +90,8 @@ export function useSemanticProcessing(): UseSemanticProcessingReturn {
         sourceType,
         projectId,
         user.id,
-        originalTitle
+        originalTitle,
+        language
       )
 
       updateState({
@@ -115,6 +119,7 @@ export function useSemanticProcessing(): UseSemanticProcessingReturn {
       threshold?: number // Default changed in implementation
       limit?: number
       sourceType?: 'context' | 'issue' | 'inquiry' | 'product'
+      mode?: SearchMode
     } = {}
   ) => {
     if (!user) {
@@ -132,14 +137,15 @@ export function useSemanticProcessing(): UseSemanticProcessingReturn {
       const {
         threshold = 0.4, // Changed default threshold to 40%
         limit = 10,
-        sourceType
+        sourceType,
+        mode = 'hybrid'
       } = options
 
       const results = await embeddingService.searchSimilar(
         query,
         projectId,
         user.id,
-        { threshold, limit, sourceType }
+        { threshold, limit, sourceType, mode }
       )
 
       updateState({
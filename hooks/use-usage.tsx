@@ -0,0 +1,97 @@
+import { useState, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import { useAuth } from '@/hooks/use-auth'
+
+// Usage of the signed-in account in the current billing period, from get_account_usage
+export interface AccountUsage {
+  plan: 'personal' | 'creator' | 'business'
+  period_start: string
+  period_end: string
+  chat_turns: number
+  chat_turns_quota: number
+  embedded_chunks: number
+  embedded_chunks_quota: number
+  projects: number
+  projects_quota: number
+}
+
+interface UseUsageReturn {
+  usage: AccountUsage | null
+  loading: boolean
+  error: string | null
+  refreshUsage: () => Promise<void>
+}
+
+/**
+ * Loads the signed-in account's usage and plan limits for the current billing period
+ */
+export async function fetchAccountUsage(): Promise<{ data: AccountUsage | null; error: string | null }> {
+  try {
+    const { data, error } = await supabase.rpc('get_account_usage')
+
+    if (error) {
+      throw error
+    }
+
+    const row = (data as AccountUsage[] | null)?.[0]
+    if (!row) {
+      return { data: null, error: 'Usage not available' }
+    }
+
+    // bigint columns arrive as strings or numbers depending on their size
+    return {
+      data: {
+        ...row,
+        chat_turns: Number(row.chat_turns),
+        chat_turns_quota: Number(row.chat_turns_quota),
+        embedded_chunks: Number(row.embedded_chunks),
+        embedded_chunks_quota: Number(row.embedded_chunks_quota),
+        projects: Number(row.projects),
+        projects_quota: Number(row.projects_quota)
+      },
+      error: null
+    }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : 'Failed to load usage'
+    return { data: null, error: errorMessage }
+  }
+}
+
+/**
+ * Message of a database error raised by a quota trigger, which is written to be shown as is
+ */
+export function getQuotaErrorMessage(error: { message?: string; hint?: string | null } | null): string | null {
+  return error?.hint === 'quota_exceeded' && error.message ? error.message : null
+}
+
+export function useUsage(): UseUsageReturn {
+  const { user } = useAuth()
+  const [usage, setUsage] = useState<AccountUsage | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchUsage = async () => {
+    if (!user) {
+      setUsage(null)
+      setLoading(false)
+      return
+    }
+
+    setLoading(true)
+    const { data, error: fetchError } = await fetchAccountUsage()
+    setUsage(data)
+    setError(fetchError)
+    setLoading(false)
+  }
+
+  useEffect(() => {
+    fetchUsage()
+  }, [user])
+
+  return {
+    usage,
+    loading,
+    error,
+    refreshUsage: fetchUsage
+  }
+}
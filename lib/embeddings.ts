@@ -11,9 +11,14 @@ export interface EmbeddingResult {
     chunkIndex: number
     totalChunks: number
     originalTitle?: string
+    // Language the source item is written in; absent means the project's default language
+    language?: string
   }
 }
 
+// vector: embedding similarity, keyword: full-text match, hybrid: both fused by rank
+export type SearchMode = 'vector' | 'keyword' | 'hybrid'
+
 export class EmbeddingService {
   async generateEmbedding(text: string): Promise<number[]> {
     try {
@@ -67,7 +72,8 @@ export class EmbeddingService {
     sourceType: 'context' | 'issue' | 'inquiry' | 'product',
     projectId: string,
     userId: string,
-    originalTitle?: string
+    originalTitle?: string,
+    language?: string | null
   ): Promise<EmbeddingResult[]> {
     try {
       const results: EmbeddingResult[] = []
@@ -82,7 +88,8 @@ export class EmbeddingService {
           keywords: chunk.keywords,
           chunkIndex: chunk.chunkIndex,
           totalChunks: chunk.totalChunks,
-          originalTitle
+          originalTitle,
+          ...(language ? { language } : {})
         }
 
         // Store in database - convert embedding array to PostgreSQL vector format
@@ -128,21 +135,25 @@ export class EmbeddingService {
       threshold?: number // Default changed in implementation
       limit?: number
       sourceType?: 'context' | 'issue' | 'inquiry' | 'product'
+      mode?: SearchMode
     } = {}
   ) {
     try {
       const {
         threshold = 0.4, // Changed default threshold to 40%
         limit = 10,
-        sourceType
+        sourceType,
+        mode = 'hybrid'
       } = options
 
-      // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query)
+      // Generate embedding for the query (keyword search matches on the raw text only)
+      const queryEmbedding = mode === 'keyword' ? null : await this.generateEmbedding(query)
 
-      // Use the similarity_search function from the database
-      const { data, error } = await supabase.rpc('similarity_search', {
-        query_embedding: JSON.stringify(queryEmbedding), // Convert to JSON string
+      // Use the hybrid_search function from the database
+      const { data, error } = await supabase.rpc('hybrid_search', {
+        query_text: query,
+        query_embedding: queryEmbedding ? JSON.stringify(queryEmbedding) : null, // Convert to JSON string
+        search_mode: mode,
         match_threshold: threshold,
         match_count: limit,
         filter_project_id: projectId,
@@ -164,6 +175,8 @@ export class EmbeddingService {
         id: item.id,
         content: item.content,
         similarity: item.similarity,
+        keywordRank: item.keyword_rank,
+        score: item.score,
         metadata: item.metadata,
         sourceType: item.source_type,
         sourceId: item.source_id
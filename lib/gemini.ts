@@ -1,3 +1,5 @@
+import { STOPWORDS, tokenize } from './languages'
+
 export interface SemanticChunk {
   content: string
   summary: string
@@ -52,12 +54,10 @@ export class GeminiChunker {
   }
 
   private extractSimpleKeywords(text: string): string[] {
-    // Simple keyword extraction - get meaningful words
-    const words = text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
+    // Simple keyword extraction - get meaningful words in any supported language
+    const words = tokenize(text)
       .filter(word => word.length > 3)
-      .filter(word => !['this', 'that', 'with', 'have', 'will', 'been', 'from', 'they', 'know', 'want', 'been', 'good', 'much', 'some', 'time', 'very', 'when', 'come', 'here', 'just', 'like', 'long', 'make', 'many', 'over', 'such', 'take', 'than', 'them', 'well', 'were'].includes(word))
+      .filter(word => !STOPWORDS.has(word))
     
     // Get unique words and return top 5
     const uniqueWords = [...new Set(words)]
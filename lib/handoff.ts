@@ -0,0 +1,28 @@
+import type { Database } from '@/lib/supabase'
+
+export type HandoffStatus = Database['public']['Tables']['conversations']['Row']['handoff_status']
+
+export type MessageSender = Database['public']['Tables']['messages']['Row']['sender']
+
+// Broadcast events the owner's dashboard sends to the visitor's chat
+export const HANDOFF_EVENTS = {
+  message: 'human-message',
+  status: 'handoff-status'
+} as const
+
+export interface HumanMessagePayload {
+  id: string
+  content: string
+  created_at: string
+}
+
+export interface HandoffStatusPayload {
+  status: HandoffStatus
+}
+
+/**
+ * Realtime channel shared by a visitor's chat and the owner's live transcript.
+ * Anonymous visitors cannot read messages through RLS, so owner replies reach them as broadcasts;
+ * the conversation id is only known to the visitor and the project owner.
+ */
+export const getHandoffChannelName = (conversationId: string) => `conversation:${conversationId}`
@@ -0,0 +1,15 @@
+// Details the chatbot can ask for before filing an issue reported in chat (mirrored in supabase/functions/_shared/issue-intake.ts)
+export type IntakeField = 'steps_to_reproduce' | 'device' | 'contact_email' | 'severity'
+
+export const INTAKE_FIELD_LABELS: Record<IntakeField, string> = {
+  steps_to_reproduce: 'Steps to reproduce',
+  device: 'Device',
+  contact_email: 'Contact email',
+  severity: 'Severity'
+}
+
+export const INTAKE_FIELDS = Object.keys(INTAKE_FIELD_LABELS) as IntakeField[]
+
+export function isIntakeField(value: unknown): value is IntakeField {
+  return typeof value === 'string' && INTAKE_FIELDS.includes(value as IntakeField)
+}
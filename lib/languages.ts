@@ -0,0 +1,41 @@
+// Languages the chatbot can detect and answer in (mirrored in supabase/functions/_shared/languages.ts)
+export type LanguageCode = 'en' | 'es' | 'pt' | 'tl' | 'fr' | 'de' | 'it' | 'id'
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  tl: 'Tagalog',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  id: 'Indonesian'
+}
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES) as LanguageCode[]
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && LANGUAGE_CODES.includes(value as LanguageCode)
+}
+
+// Frequent words that identify each language, including common greetings and thanks
+const LANGUAGE_STOPWORDS: Record<LanguageCode, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'what', 'how', 'can', 'does', 'my', 'your', 'this', 'that', 'with', 'for', 'have', 'not', 'where', 'when', 'it', 'of', 'to', 'do', 'hello', 'thanks', 'please', 'much', 'there', 'will', 'been', 'from', 'they', 'want', 'some', 'very', 'here', 'just', 'like', 'know', 'good', 'time', 'come', 'long', 'make', 'many', 'over', 'such', 'take', 'than', 'them', 'well', 'were'],
+  es: ['el', 'los', 'las', 'una', 'con', 'del', 'pero', 'es', 'qué', 'cómo', 'hay', 'puedo', 'tiene', 'por', 'usted', 'yo', 'mi', 'cuánto', 'cuesta', 'dónde', 'hola', 'gracias', 'quiero', 'necesito', 'también', 'muy', 'este', 'esta', 'porque', 'cuando', 'tengo', 'sí', 'le', 'lo', 'al', 'su'],
+  pt: ['não', 'você', 'é', 'os', 'uma', 'com', 'do', 'da', 'em', 'mas', 'isso', 'como', 'obrigado', 'obrigada', 'tem', 'olá', 'oi', 'quanto', 'custa', 'onde', 'posso', 'quero', 'preciso', 'também', 'muito', 'seu', 'sua', 'meu', 'minha', 'nao', 'voce', 'vocês', 'ao', 'pelo'],
+  tl: ['ang', 'ng', 'mga', 'sa', 'na', 'ko', 'mo', 'ako', 'ikaw', 'po', 'ba', 'hindi', 'paano', 'ano', 'may', 'kung', 'lang', 'yung', 'naman', 'siya', 'kayo', 'natin', 'ito', 'saan', 'magkano', 'salamat', 'opo', 'wala', 'meron', 'pwede', 'gusto', 'kailangan', 'ninyo', 'niyo'],
+  fr: ['le', 'la', 'les', 'des', 'est', 'et', 'je', 'vous', 'pas', 'une', 'pour', 'avec', 'qui', 'comment', 'combien', 'dans', 'sur', 'mon', 'ce', 'bonjour', 'merci', 'où', 'quel', 'quelle', 'puis', 'nous', 'suis', 'mais', 'très', 'aussi'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'ein', 'eine', 'mit', 'wie', 'was', 'für', 'auf', 'sie', 'wir', 'kann', 'haben', 'bitte', 'hallo', 'danke', 'wo', 'viel', 'kostet', 'mein', 'ihr', 'auch', 'sehr', 'aber', 'oder'],
+  it: ['il', 'gli', 'della', 'che', 'non', 'sono', 'come', 'per', 'mi', 'posso', 'quanto', 'questo', 'questa', 'dove', 'grazie', 'anche', 'ho', 'è', 'ciao', 'buongiorno', 'costa', 'vorrei', 'voglio', 'molto', 'mio', 'suo', 'nel', 'alla', 'perché', 'quando'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'saya', 'anda', 'tidak', 'dengan', 'untuk', 'apa', 'bagaimana', 'bisa', 'ada', 'berapa', 'mau', 'kami', 'dari', 'ke', 'akan', 'terima', 'kasih', 'halo', 'harga', 'dimana', 'sudah', 'belum', 'juga', 'tolong']
+}
+
+// Words too common to be useful as keywords in any supported language
+export const STOPWORDS = new Set(LANGUAGE_CODES.flatMap(code => LANGUAGE_STOPWORDS[code]))
+
+/**
+ * Splits text into lowercase words, keeping accented letters
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean)
+}
@@ -0,0 +1,12 @@
+// Generation models a project may choose for each provider (mirrored in supabase/functions/_shared/providers.ts)
+export type LlmProvider = 'vertex' | 'gemini' | 'openai'
+
+export const GENERATION_MODELS: Record<LlmProvider, string[]> = {
+  vertex: ['gemini-2.0-flash-001', 'gemini-2.0-flash-lite-001'],
+  gemini: ['gemini-2.0-flash-001', 'gemini-2.0-flash-lite-001'],
+  openai: ['gpt-4o-mini', 'gpt-4.1-mini']
+}
+
+export function isGenerationModel(provider: LlmProvider | null, model: string): boolean {
+  return provider !== null && GENERATION_MODELS[provider].includes(model)
+}
@@ -0,0 +1,19 @@
+// Kinds of personal information chat-query masks before logging knowledge gaps (mirrored in supabase/functions/_shared/redaction.ts)
+export type PiiType = 'email' | 'phone' | 'card' | 'ssn' | 'iban' | 'ip' | 'address' | 'name'
+
+export const PII_TYPE_LABELS: Record<PiiType, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  card: 'Card numbers',
+  ssn: 'Social security numbers',
+  iban: 'Bank account numbers',
+  ip: 'IP addresses',
+  address: 'Street addresses',
+  name: 'Names'
+}
+
+export const PII_TYPES = Object.keys(PII_TYPE_LABELS) as PiiType[]
+
+export function isPiiType(value: unknown): value is PiiType {
+  return typeof value === 'string' && PII_TYPES.includes(value as PiiType)
+}
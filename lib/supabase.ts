@@ -22,6 +22,7 @@ export type Database = {
           file_name: string | null
           file_size: number | null
           tags: string[]
+          language: string | null
           user_id: string
           project_id: string
           created_at: string
@@ -36,6 +37,7 @@ export type Database = {
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
           user_id: string
           project_id: string
           created_at?: string
@@ -50,6 +52,7 @@ export type Database = {
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
           user_id?: string
           project_id?: string
           created_at?: string
@@ -67,6 +70,15 @@ export type Database = {
           file_name: string | null
           file_size: number | null
           tags: string[]
+          language: string | null
+          report_count: number
+          phrasings: string[]
+          last_reported_at: string | null
+          steps_to_reproduce: string | null
+          device: string | null
+          contact_email: string | null
+          conversation_id: string | null
+          reference_code: string
           user_id: string
           project_id: string
           created_at: string
@@ -82,6 +94,15 @@ export type Database = {
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
+          report_count?: number
+          phrasings?: string[]
+          last_reported_at?: string | null
+          steps_to_reproduce?: string | null
+          device?: string | null
+          contact_email?: string | null
+          conversation_id?: string | null
+          reference_code?: string
           user_id: string
           project_id: string
           created_at?: string
@@ -97,6 +118,15 @@ export type Database = {
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
+          report_count?: number
+          phrasings?: string[]
+          last_reported_at?: string | null
+          steps_to_reproduce?: string | null
+          device?: string | null
+          contact_email?: string | null
+          conversation_id?: string | null
+          reference_code?: string
           user_id?: string
           project_id?: string
           created_at?: string
@@ -113,6 +143,14 @@ export type Database = {
           file_name: string | null
           file_size: number | null
           tags: string[]
+          language: string | null
+          report_count: number
+          phrasings: string[]
+          last_reported_at: string | null
+          status: 'open' | 'resolved'
+          answer: string | null
+          resolved_at: string | null
+          resolved_context_id: string | null
           user_id: string
           project_id: string
           created_at: string
@@ -127,6 +165,14 @@ export type Database = {
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
+          report_count?: number
+          phrasings?: string[]
+          last_reported_at?: string | null
+          status?: 'open' | 'resolved'
+          answer?: string | null
+          resolved_at?: string | null
+          resolved_context_id?: string | null
           user_id: string
           project_id: string
           created_at?: string
@@ -141,6 +187,14 @@ export type Database = {
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
+          report_count?: number
+          phrasings?: string[]
+          last_reported_at?: string | null
+          status?: 'open' | 'resolved'
+          answer?: string | null
+          resolved_at?: string | null
+          resolved_context_id?: string | null
           user_id?: string
           project_id?: string
           created_at?: string
@@ -153,11 +207,13 @@ export type Database = {
           title: string
           description: string | null
           price: number | null
+          currency: string
           affiliate_link: string | null
           file_url: string | null
           file_name: string | null
           file_size: number | null
           tags: string[]
+          language: string | null
           user_id: string
           project_id: string
           created_at: string
@@ -168,11 +224,13 @@ export type Database = {
           title: string
           description?: string | null
           price?: number | null
+          currency?: string
           affiliate_link?: string | null
           file_url?: string | null
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
           user_id: string
           project_id: string
           created_at?: string
@@ -183,11 +241,13 @@ export type Database = {
           title?: string
           description?: string | null
           price?: number | null
+          currency?: string
           affiliate_link?: string | null
           file_url?: string | null
           file_name?: string | null
           file_size?: number | null
           tags?: string[]
+          language?: string | null
           user_id?: string
           project_id?: string
           created_at?: string
@@ -231,6 +291,7 @@ export type Database = {
           slug: string
           is_public: boolean
           custom_slug: string | null
+          knowledge_version: number
           created_at: string
           updated_at: string
         }
@@ -244,6 +305,7 @@ export type Database = {
           slug?: string
           is_public?: boolean
           custom_slug?: string | null
+          knowledge_version?: number
           created_at?: string
           updated_at?: string
         }
@@ -257,6 +319,225 @@ export type Database = {
           slug?: string
           is_public?: boolean
           custom_slug?: string | null
+          knowledge_version?: number
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      project_settings: {
+        Row: {
+          project_id: string
+          user_id: string
+          assistant_name: string | null
+          instructions: string | null
+          tone: 'friendly' | 'professional' | 'casual' | 'formal'
+          banned_topics: string[]
+          fallback_message: string | null
+          answer_length: 'short' | 'medium' | 'detailed'
+          temperature: number
+          top_p: number
+          max_output_tokens: number
+          match_threshold: number
+          match_count: number
+          gap_cutoff: number
+          llm_provider: 'vertex' | 'gemini' | 'openai' | null
+          generation_model: string | null
+          default_language: string
+          supported_languages: string[]
+          guardrail_action: 'log' | 'sanitize' | 'block'
+          guardrail_blocked_phrases: string[]
+          guardrail_screen_context: boolean
+          pii_redaction_enabled: boolean
+          pii_redaction_types: string[]
+          pii_model_detection: boolean
+          issue_intake_fields: string[]
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          project_id: string
+          user_id: string
+          assistant_name?: string | null
+          instructions?: string | null
+          tone?: 'friendly' | 'professional' | 'casual' | 'formal'
+          banned_topics?: string[]
+          fallback_message?: string | null
+          answer_length?: 'short' | 'medium' | 'detailed'
+          temperature?: number
+          top_p?: number
+          max_output_tokens?: number
+          match_threshold?: number
+          match_count?: number
+          gap_cutoff?: number
+          llm_provider?: 'vertex' | 'gemini' | 'openai' | null
+          generation_model?: string | null
+          default_language?: string
+          supported_languages?: string[]
+          guardrail_action?: 'log' | 'sanitize' | 'block'
+          guardrail_blocked_phrases?: string[]
+          guardrail_screen_context?: boolean
+          pii_redaction_enabled?: boolean
+          pii_redaction_types?: string[]
+          pii_model_detection?: boolean
+          issue_intake_fields?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          project_id?: string
+          user_id?: string
+          assistant_name?: string | null
+          instructions?: string | null
+          tone?: 'friendly' | 'professional' | 'casual' | 'formal'
+          banned_topics?: string[]
+          fallback_message?: string | null
+          answer_length?: 'short' | 'medium' | 'detailed'
+          temperature?: number
+          top_p?: number
+          max_output_tokens?: number
+          match_threshold?: number
+          match_count?: number
+          gap_cutoff?: number
+          llm_provider?: 'vertex' | 'gemini' | 'openai' | null
+          generation_model?: string | null
+          default_language?: string
+          supported_languages?: string[]
+          guardrail_action?: 'log' | 'sanitize' | 'block'
+          guardrail_blocked_phrases?: string[]
+          guardrail_screen_context?: boolean
+          pii_redaction_enabled?: boolean
+          pii_redaction_types?: string[]
+          pii_model_detection?: boolean
+          issue_intake_fields?: string[]
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      conversations: {
+        Row: {
+          id: string
+          project_id: string
+          user_id: string
+          created_at: string
+          updated_at: string
+          last_message_at: string
+          handoff_status: 'bot' | 'requested' | 'human'
+          handoff_requested_at: string | null
+          issue_intake: Record<string, unknown> | null
+        }
+        Insert: {
+          id?: string
+          project_id: string
+          user_id: string
+          created_at?: string
+          updated_at?: string
+          last_message_at?: string
+          handoff_status?: 'bot' | 'requested' | 'human'
+          handoff_requested_at?: string | null
+          issue_intake?: Record<string, unknown> | null
+        }
+        Update: {
+          id?: string
+          project_id?: string
+          user_id?: string
+          created_at?: string
+          updated_at?: string
+          last_message_at?: string
+          handoff_status?: 'bot' | 'requested' | 'human'
+          handoff_requested_at?: string | null
+          issue_intake?: Record<string, unknown> | null
+        }
+      }
+      messages: {
+        Row: {
+          id: string
+          conversation_id: string
+          project_id: string
+          user_id: string
+          role: 'user' | 'assistant'
+          sender: 'visitor' | 'ai' | 'human'
+          content: string
+          rewritten_query: string | null
+          context_ids: string[]
+          retrieved_chunks: Record<string, unknown>[]
+          citations: Record<string, unknown>[]
+          latency_ms: number | null
+          knowledge_gap: boolean
+          knowledge_gap_type: 'issue' | 'inquiry' | null
+          feedback: 'positive' | 'negative' | null
+          feedback_comment: string | null
+          feedback_at: string | null
+          feedback_inquiry_id: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          conversation_id: string
+          project_id: string
+          user_id: string
+          role: 'user' | 'assistant'
+          sender: 'visitor' | 'ai' | 'human'
+          content: string
+          rewritten_query?: string | null
+          context_ids?: string[]
+          retrieved_chunks?: Record<string, unknown>[]
+          citations?: Record<string, unknown>[]
+          latency_ms?: number | null
+          knowledge_gap?: boolean
+          knowledge_gap_type?: 'issue' | 'inquiry' | null
+          feedback?: 'positive' | 'negative' | null
+          feedback_comment?: string | null
+          feedback_at?: string | null
+          feedback_inquiry_id?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          conversation_id?: string
+          project_id?: string
+          user_id?: string
+          role?: 'user' | 'assistant'
+          sender?: 'visitor' | 'ai' | 'human'
+          content?: string
+          rewritten_query?: string | null
+          context_ids?: string[]
+          retrieved_chunks?: Record<string, unknown>[]
+          citations?: Record<string, unknown>[]
+          latency_ms?: number | null
+          knowledge_gap?: boolean
+          knowledge_gap_type?: 'issue' | 'inquiry' | null
+          feedback?: 'positive' | 'negative' | null
+          feedback_comment?: string | null
+          feedback_at?: string | null
+          feedback_inquiry_id?: string | null
+          created_at?: string
+        }
+      }
+      plan_rate_limits: {
+        Row: {
+          plan: 'personal' | 'creator' | 'business'
+          client_per_minute: number
+          client_per_day: number
+          project_per_minute: number
+          project_per_day: number
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          plan: 'personal' | 'creator' | 'business'
+          client_per_minute: number
+          client_per_day: number
+          project_per_minute: number
+          project_per_day: number
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          plan?: 'personal' | 'creator' | 'business'
+          client_per_minute?: number
+          client_per_day?: number
+          project_per_minute?: number
+          project_per_day?: number
           created_at?: string
           updated_at?: string
         }
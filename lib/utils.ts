@@ -13,4 +13,14 @@ export function slugify(text: string): string {
     .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
     .trim() // Remove leading/trailing whitespace
     .replace(/^-+|-+$/g, '') // Remove leading/trailing hyphens
-}
\ No newline at end of file
+}
+
+// Formats a price in its ISO 4217 currency, e.g. 19.99 EUR as "€19.99"
+export function formatPrice(price: number, currency = 'USD'): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(price)
+  } catch {
+    // Unknown currency codes are shown as they are
+    return `${price} ${currency}`
+  }
+}
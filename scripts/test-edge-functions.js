@@ -0,0 +1,235 @@
+import { createClient } from '@supabase/supabase-js'
+import { randomUUID } from 'crypto'
+import { embedText } from './vertex-mock.js'
+
+/**
+ * End-to-end check of chunk-content, generate-embedding and chat-query against a local Supabase stack,
+ * with the Vertex AI mock standing in for Google:
+ *
+ *   supabase start
+ *   npm run vertex-mock                       (in a second terminal)
+ *   supabase functions serve                  (with VERTEX_BASE_URL set, see scripts/vertex-mock.js)
+ *   npm run test:functions
+ *
+ * Creates a throwaway user with one project, indexes a context through the functions the dashboard uses,
+ * asks one answerable question (plain and streamed) and one the knowledge base cannot answer, then deletes
+ * the user and everything it owns.
+ */
+
+const supabaseUrl = process.env.VITE_SUPABASE_URL
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+const mockUrl = process.env.VERTEX_MOCK_URL || 'http://localhost:8089'
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  console.error('❌ Missing required environment variables:')
+  console.error('   - VITE_SUPABASE_URL')
+  console.error('   - SUPABASE_SERVICE_ROLE_KEY')
+  console.log('\nℹ️  `supabase status` prints both for the local stack')
+  process.exit(1)
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+const CONTEXT_TITLE = 'Shipping and returns'
+const CONTEXT_CONTENT = 'Standard shipping takes 3 to 5 business days. Express shipping takes 1 to 2 business days and costs 15 dollars. You can return any item within 30 days of delivery for a full refund.'
+// The mock embeds by words, so answerable questions reuse the context's wording
+const ANSWERABLE_QUESTION = 'Express shipping takes how many business days?'
+const STREAMED_QUESTION = 'Can I return an item within 30 days of delivery for a refund?'
+// Shares no words with the context, so retrieval finds nothing and a knowledge gap is logged
+const UNANSWERABLE_QUESTION = 'Do you sell gift vouchers for birthdays?'
+
+let failures = 0
+
+function check(description, passed, detail) {
+  if (passed) {
+    console.log(`✅ ${description}`)
+  } else {
+    failures++
+    console.log(`❌ ${description}${detail !== undefined ? `: ${typeof detail === 'string' ? detail : JSON.stringify(detail)}` : ''}`)
+  }
+}
+
+async function callFunction(name, body) {
+  const response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${supabaseServiceKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body)
+  })
+  return response
+}
+
+async function getMockCalls() {
+  const response = await fetch(`${mockUrl}/calls`)
+  if (!response.ok) {
+    throw new Error(`Vertex AI mock answered ${response.status}`)
+  }
+  return response.json()
+}
+
+// Collects the events of a chat-query stream into { event: [payloads] }
+function parseEventStream(text) {
+  const events = {}
+  for (const block of text.split('\n\n')) {
+    const event = block.match(/^event: (.+)$/m)?.[1]
+    const data = block.match(/^data: (.+)$/m)?.[1]
+    if (event && data) {
+      (events[event] ||= []).push(JSON.parse(data))
+    }
+  }
+  return events
+}
+
+async function createTestProject() {
+  const { data: { user }, error: userError } = await supabase.auth.admin.createUser({
+    email: `edge-functions-${Date.now()}@example.com`,
+    password: randomUUID(),
+    email_confirm: true
+  })
+  if (userError) throw userError
+
+  const { data: project, error: projectError } = await supabase
+    .from('projects')
+    .insert({ name: `Edge function test ${Date.now()}`, description: 'Online store for outdoor gear', user_id: user.id })
+    .select('id, slug')
+    .single()
+  if (projectError) throw projectError
+
+  const { data: context, error: contextError } = await supabase
+    .from('contexts')
+    .insert({ title: CONTEXT_TITLE, content: CONTEXT_CONTENT, user_id: user.id, project_id: project.id })
+    .select('id')
+    .single()
+  if (contextError) throw contextError
+
+  return { user, project, context }
+}
+
+async function testChunking() {
+  console.log('\n🔍 chunk-content')
+  const response = await callFunction('chunk-content', { content: CONTEXT_CONTENT, maxWordsPerChunk: 20 })
+  const { chunks } = await response.json()
+
+  check('returns chunks', response.ok && Array.isArray(chunks) && chunks.length > 0, chunks)
+  // The function's own fallback names its chunks "Chunk N of content"
+  check('chunks come from the model rather than the fallback', chunks?.[0]?.summary !== 'Chunk 1 of content', chunks?.[0])
+  check('chunks keep the content', chunks?.map(chunk => chunk.content).join(' ') === CONTEXT_CONTENT)
+  return chunks || []
+}
+
+async function testEmbedding(chunks, { user, project, context }) {
+  console.log('\n🔍 generate-embedding')
+  for (const chunk of chunks) {
+    const response = await callFunction('generate-embedding', { text: chunk.content })
+    const { embedding, error } = await response.json()
+
+    const expected = embedText(chunk.content)
+    check(`embeds chunk ${chunk.chunkIndex}`, response.ok && embedding?.length === expected.length, error)
+    check(`chunk ${chunk.chunkIndex} embedding is the mock's`, embedding?.every((value, i) => Math.abs(value - expected[i]) < 1e-9))
+
+    // Store it the way the dashboard does after indexing a context
+    const { error: insertError } = await supabase
+      .from('embeddings')
+      .insert({
+        content: chunk.content,
+        embedding: JSON.stringify(embedding),
+        metadata: {
+          summary: chunk.summary,
+          keywords: chunk.keywords,
+          chunkIndex: chunk.chunkIndex,
+          totalChunks: chunk.totalChunks,
+          originalTitle: CONTEXT_TITLE
+        },
+        source_type: 'context',
+        source_id: context.id,
+        project_id: project.id,
+        user_id: user.id
+      })
+    check(`stores chunk ${chunk.chunkIndex}`, !insertError, insertError?.message)
+  }
+}
+
+async function testChatQuery({ project }) {
+  const visitorId = randomUUID()
+
+  console.log('\n🔍 chat-query (answerable question)')
+  const answered = await callFunction('chat-query', { query: ANSWERABLE_QUESTION, projectSlug: project.slug, visitorId })
+  const answer = await answered.json()
+  check('answers', answered.ok && typeof answer.response === 'string', answer.error)
+  check('answer comes from the mock', answer.response?.startsWith('Mock response to:'), answer.response)
+  check('retrieves the context', answer.context?.length > 0)
+  check('logs no knowledge gap', answer.knowledgeGap === false, answer.knowledgeGapType)
+
+  console.log('\n🔍 chat-query (streamed)')
+  const streamed = await callFunction('chat-query', {
+    query: STREAMED_QUESTION,
+    projectSlug: project.slug,
+    visitorId,
+    conversationId: answer.conversationId,
+    stream: true
+  })
+  const events = parseEventStream(await streamed.text())
+  const streamedText = (events.token || []).map(token => token.text).join('')
+  check('streams tokens', streamed.ok && (events.token?.length ?? 0) > 1, Object.keys(events))
+  check('finishes the stream', events.done?.length === 1 && !events.error, events.error)
+  check('streamed answer comes from the mock', streamedText.startsWith('Mock response to:'), streamedText)
+
+  console.log('\n🔍 chat-query (knowledge gap)')
+  const gap = await callFunction('chat-query', { query: UNANSWERABLE_QUESTION, projectSlug: project.slug, visitorId })
+  const gapAnswer = await gap.json()
+  check('answers', gap.ok && typeof gapAnswer.response === 'string', gapAnswer.error)
+  check('logs a knowledge gap', gapAnswer.knowledgeGap === true)
+  // The mock classifies as ISSUE only when the question says "issue"
+  check('classifies it as an inquiry', gapAnswer.knowledgeGapType === 'inquiry', gapAnswer.knowledgeGapType)
+
+  const { data: inquiries, error } = await supabase
+    .from('inquiries')
+    .select('id, content')
+    .eq('project_id', project.id)
+  check('creates the inquiry', !error && inquiries?.some(inquiry => inquiry.content === UNANSWERABLE_QUESTION), error?.message ?? inquiries)
+}
+
+async function runTests() {
+  console.log('🚀 Testing edge functions against the Vertex AI mock...')
+
+  let callsBefore
+  try {
+    callsBefore = await getMockCalls()
+  } catch (error) {
+    console.error(`❌ Vertex AI mock not reachable at ${mockUrl}:`, error.message)
+    console.log('ℹ️  Start it with `npm run vertex-mock`')
+    process.exit(1)
+  }
+
+  let fixture = null
+  try {
+    fixture = await createTestProject()
+    const chunks = await testChunking()
+    await testEmbedding(chunks, fixture)
+    await testChatQuery(fixture)
+
+    console.log('\n🔍 Vertex AI mock')
+    const callsAfter = await getMockCalls()
+    for (const method of ['predict', 'generateContent', 'streamGenerateContent']) {
+      check(`received ${method} calls`, callsAfter[method] > callsBefore[method])
+    }
+  } catch (error) {
+    failures++
+    console.error('❌ Error running edge function tests:', error.message)
+  } finally {
+    if (fixture) {
+      // Projects and everything in them cascade from the user
+      const { error } = await supabase.auth.admin.deleteUser(fixture.user.id)
+      if (error) {
+        console.warn(`⚠️  Could not delete test user ${fixture.user.id}:`, error.message)
+      }
+    }
+  }
+
+  console.log(failures === 0 ? '\n🎉 All edge function checks passed' : `\n❌ ${failures} check(s) failed`)
+  process.exit(failures === 0 ? 0 : 1)
+}
+
+runTests()
@@ -0,0 +1,225 @@
+import http from 'http'
+import { pathToFileURL } from 'url'
+
+/**
+ * Local stand-in for the Vertex AI endpoints the edge functions call, so they run without a
+ * Google Cloud service account.
+ *
+ *   npm run vertex-mock
+ *
+ * Point the functions at it by adding to supabase/functions/.env (read by `supabase functions serve`):
+ *
+ *   LLM_PROVIDER=vertex
+ *   VERTEX_BASE_URL=http://host.docker.internal:8089
+ *
+ * Every answer is deterministic:
+ * - :predict embeds by hashing each word into a bucket of a unit vector, so texts sharing words are similar
+ * - :generateContent / :streamGenerateContent
+ *   - classification prompts ("Respond with ONLY one of: ...") get the first label that appears in the text,
+ *     otherwise the last label
+ *   - rewrite and translation prompts ("Respond with ONLY the ...") get their input back unchanged
+ *   - chunking prompts get the content split on sentences; other JSON requests get [] or {}
+ *   - anything else gets "Mock response to: " and the last line of the last user message
+ *
+ * GET /calls returns how many calls each method received, for the integration checks.
+ */
+
+const PORT = Number(process.env.VERTEX_MOCK_PORT || 8089)
+// Dimension of the embeddings.embedding column
+const EMBEDDING_DIMENSIONS = 768
+
+const MODEL_PATH = /^\/v1\/projects\/[^/]+\/locations\/[^/]+\/publishers\/google\/models\/([^/:]+):(predict|generateContent|streamGenerateContent)$/
+
+const calls = { predict: 0, generateContent: 0, streamGenerateContent: 0 }
+
+function toWords(text) {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+}
+
+function countWords(text) {
+  return text.split(/\s+/).filter(Boolean).length
+}
+
+function hashWord(word) {
+  // FNV-1a
+  let hash = 0x811c9dc5
+  for (let i = 0; i < word.length; i++) {
+    hash ^= word.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+export function embedText(text) {
+  const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+  for (const word of toWords(text)) {
+    vector[hashWord(word) % EMBEDDING_DIMENSIONS] += 1
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+  return vector.map(value => value / norm)
+}
+
+// Text between the last pair of """ fences, where the prompts put their input
+function lastQuotedBlock(prompt) {
+  const blocks = prompt.match(/"""\n([\s\S]*?)\n"""/g)
+  return blocks ? blocks[blocks.length - 1].slice(4, -4) : null
+}
+
+function chunkContent(prompt) {
+  const content = prompt.match(/CONTENT TO CHUNK:\n([\s\S]*?)\n\nPlease return the result/)?.[1] ?? ''
+  const maxWords = Number(prompt.match(/Maximum (\d+) words per chunk/)?.[1] ?? 75)
+
+  const chunks = []
+  for (const sentence of content.trim().split(/(?<=[.!?])\s+/).filter(Boolean)) {
+    const current = chunks[chunks.length - 1]
+    if (current && countWords(current.content) + countWords(sentence) <= maxWords) {
+      current.content += ` ${sentence}`
+    } else {
+      chunks.push({ content: sentence, summary: sentence })
+    }
+  }
+
+  return chunks.map((chunk, index) => ({
+    ...chunk,
+    keywords: [...new Set(toWords(chunk.content).filter(word => word.length > 3))].slice(0, 3),
+    chunkIndex: index + 1,
+    totalChunks: chunks.length
+  }))
+}
+
+export function generateText(contents, json = false) {
+  const lastUserMessage = [...contents].reverse().find(content => content.role === 'user')
+  const prompt = (lastUserMessage?.parts || []).map(part => part.text || '').join('')
+
+  const labelList = prompt.match(/Respond with ONLY one of: (.+)$/)?.[1]
+  if (labelList) {
+    const labels = labelList.split(', ')
+    const text = (lastQuotedBlock(prompt) ?? prompt).toUpperCase()
+    return labels.find(label => text.includes(label.toUpperCase())) || labels[labels.length - 1]
+  }
+
+  if (/Respond with ONLY the [\w ]+\.$/.test(prompt)) {
+    return lastQuotedBlock(prompt) ?? prompt
+  }
+
+  if (json) {
+    if (prompt.includes('CONTENT TO CHUNK:')) {
+      return JSON.stringify(chunkContent(prompt))
+    }
+    return /JSON array/.test(prompt) ? '[]' : '{}'
+  }
+
+  return `Mock response to: ${prompt.trim().split('\n').pop()}`
+}
+
+function toUsageMetadata(contents, responseText) {
+  const promptTokenCount = contents
+    .flatMap(content => content.parts || [])
+    .reduce((sum, part) => sum + countWords(part.text || ''), 0)
+  const candidatesTokenCount = countWords(responseText)
+  return { promptTokenCount, candidatesTokenCount, totalTokenCount: promptTokenCount + candidatesTokenCount }
+}
+
+function toCandidate(text, finishReason) {
+  return { content: { role: 'model', parts: [{ text }] }, ...(finishReason ? { finishReason } : {}) }
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function sendError(res, status, message) {
+  sendJson(res, status, {
+    error: { code: status, message, status: status === 404 ? 'NOT_FOUND' : 'INVALID_ARGUMENT' }
+  })
+}
+
+function handleModelCall(res, method, body) {
+  calls[method]++
+
+  if (method === 'predict') {
+    if (!Array.isArray(body.instances)) {
+      sendError(res, 400, 'instances is required')
+      return
+    }
+    sendJson(res, 200, {
+      predictions: body.instances.map(instance => ({
+        embeddings: {
+          values: embedText(instance.content || ''),
+          statistics: { token_count: countWords(instance.content || ''), truncated: false }
+        }
+      }))
+    })
+    return
+  }
+
+  if (!Array.isArray(body.contents)) {
+    sendError(res, 400, 'contents is required')
+    return
+  }
+
+  const json = body.generationConfig?.responseMimeType === 'application/json'
+  const responseText = generateText(body.contents, json)
+  const usageMetadata = toUsageMetadata(body.contents, responseText)
+
+  if (method === 'generateContent') {
+    sendJson(res, 200, { candidates: [toCandidate(responseText, 'STOP')], usageMetadata })
+    return
+  }
+
+  // Streamed word by word, each event carrying the running token counts like Vertex AI does
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+  const words = responseText.split(/(?<=\s)/)
+  let streamed = ''
+  words.forEach((word, index) => {
+    streamed += word
+    const isLast = index === words.length - 1
+    const event = {
+      candidates: [toCandidate(word, isLast ? 'STOP' : null)],
+      usageMetadata: { ...usageMetadata, candidatesTokenCount: countWords(streamed) }
+    }
+    res.write(`data: ${JSON.stringify(event)}\r\n\r\n`)
+  })
+  res.end()
+}
+
+export function createVertexMockServer() {
+  return http.createServer((req, res) => {
+    const url = new URL(req.url, 'http://localhost')
+
+    if (req.method === 'GET' && url.pathname === '/calls') {
+      sendJson(res, 200, calls)
+      return
+    }
+
+    const match = url.pathname.match(MODEL_PATH)
+    if (req.method !== 'POST' || !match) {
+      sendError(res, 404, `No mock for ${req.method} ${url.pathname}`)
+      return
+    }
+
+    let rawBody = ''
+    req.on('data', chunk => { rawBody += chunk })
+    req.on('end', () => {
+      let body
+      try {
+        body = JSON.parse(rawBody)
+      } catch {
+        sendError(res, 400, 'Request body is not valid JSON')
+        return
+      }
+
+      console.log(`${match[2]} ${match[1]}`)
+      handleModelCall(res, match[2], body)
+    })
+  })
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1]).href) {
+  createVertexMockServer().listen(PORT, () => {
+    console.log(`🧪 Vertex AI mock listening on http://localhost:${PORT}`)
+    console.log(`ℹ️  Set VERTEX_BASE_URL=http://host.docker.internal:${PORT} for the edge functions`)
+  })
+}
@@ -0,0 +1,214 @@
+/**
+ * Offline evaluation of a project's chatbot against golden questions.
+ *
+ * Each golden case is a question with the knowledge sources that should be retrieved for it and,
+ * optionally, the answer it should get. The runner replays the question through the retrieval and
+ * generation code chat-query uses (see rag.ts) with the project's settings, and scores:
+ *
+ *   recall@k      Share of the expected sources among the top k retrieved, where k is match_count
+ *   MRR           Mean reciprocal rank of the first expected source retrieved (0 when none is)
+ *   answer match  Token overlap (F1) between the generated answer and the expected one
+ *
+ * Questions are replayed as the first message of a conversation, so no query rewriting, translation or
+ * guardrail screening takes place. A case that fails to run scores 0, so an outage cannot pass for an
+ * improvement.
+ */
+
+import type { LLMProvider } from "./providers.ts"
+import { buildContext, buildGenerationRequest, buildLanguageGuidance, searchSimilarContent } from "./rag.ts"
+import type { AssistantSettings, ProjectInfo, SearchClient, SearchMode } from "./rag.ts"
+
+export interface GoldenCase {
+  id?: string
+  question: string
+  // source_id of the contexts, products, ... that hold the answer
+  expected_source_ids: string[]
+  // Null to score retrieval only, which also skips generation
+  expected_answer: string | null
+}
+
+export interface CaseResult {
+  case_id: string | null
+  question: string
+  // Distinct sources of the retrieved chunks, best match first
+  retrieved_source_ids: string[]
+  // Retrieval scores are null for cases without expected sources, answer_match for cases without an answer
+  recall: number | null
+  reciprocal_rank: number | null
+  answer_match: number | null
+  response: string | null
+  latency_ms: number
+  error: string | null
+}
+
+export interface EvaluationSummary {
+  k: number
+  case_count: number
+  // Means over the cases the metric applies to; null when it applies to none
+  recall_at_k: number | null
+  mrr: number | null
+  answer_match: number | null
+}
+
+// Everything a case is replayed with
+export interface EvaluationPipeline {
+  // Client that runs hybrid_search; the CLI passes an in-memory stand-in
+  supabase: SearchClient
+  projectInfo: Pick<ProjectInfo, 'id' | 'name' | 'description' | 'plan'>
+  settings: AssistantSettings
+  searchMode: SearchMode
+  provider: LLMProvider
+  embeddingProvider: LLMProvider
+}
+
+/**
+ * Fraction of the expected sources found in the retrieved ones
+ */
+export function recallAtK(expected: string[], retrieved: string[]): number {
+  const found = expected.filter(sourceId => retrieved.includes(sourceId))
+  return found.length / expected.length
+}
+
+/**
+ * 1 / rank of the first retrieved source that was expected, 0 if none was
+ */
+export function reciprocalRank(expected: string[], retrieved: string[]): number {
+  const rank = retrieved.findIndex(sourceId => expected.includes(sourceId))
+  return rank === -1 ? 0 : 1 / (rank + 1)
+}
+
+function normalizeAnswer(text: string): string[] {
+  return text
+    .toLowerCase()
+    // Citation markers are not part of the answer
+    .replace(/\[\d+\]/g, ' ')
+    .match(/[\p{L}\p{N}]+/gu) || []
+}
+
+/**
+ * Token-level F1 between a generated and an expected answer, from 0 to 1
+ */
+export function scoreAnswerMatch(response: string, expected: string): number {
+  const responseTokens = normalizeAnswer(response)
+  const expectedTokens = normalizeAnswer(expected)
+  if (responseTokens.length === 0 || expectedTokens.length === 0) {
+    return responseTokens.length === expectedTokens.length ? 1 : 0
+  }
+
+  const remaining = new Map<string, number>()
+  for (const token of expectedTokens) {
+    remaining.set(token, (remaining.get(token) ?? 0) + 1)
+  }
+
+  let overlap = 0
+  for (const token of responseTokens) {
+    const count = remaining.get(token) ?? 0
+    if (count > 0) {
+      overlap++
+      remaining.set(token, count - 1)
+    }
+  }
+
+  if (overlap === 0) {
+    return 0
+  }
+  const precision = overlap / responseTokens.length
+  const recall = overlap / expectedTokens.length
+  return (2 * precision * recall) / (precision + recall)
+}
+
+/**
+ * Replays one golden question and scores what was retrieved and answered
+ */
+export async function evaluateCase(goldenCase: GoldenCase, pipeline: EvaluationPipeline): Promise<CaseResult> {
+  const { settings, searchMode } = pipeline
+  const startedAt = Date.now()
+  const hasExpectedSources = goldenCase.expected_source_ids.length > 0
+  const hasExpectedAnswer = Boolean(goldenCase.expected_answer?.trim())
+
+  const result: CaseResult = {
+    case_id: goldenCase.id ?? null,
+    question: goldenCase.question,
+    retrieved_source_ids: [],
+    recall: hasExpectedSources ? 0 : null,
+    reciprocal_rank: hasExpectedSources ? 0 : null,
+    answer_match: hasExpectedAnswer ? 0 : null,
+    response: null,
+    latency_ms: 0,
+    error: null
+  }
+
+  try {
+    const queryEmbedding = searchMode === 'keyword'
+      ? null
+      : await pipeline.embeddingProvider.embed(goldenCase.question, 'RETRIEVAL_QUERY')
+
+    const similarContent = await searchSimilarContent(
+      pipeline.supabase,
+      goldenCase.question,
+      queryEmbedding,
+      pipeline.projectInfo.id,
+      searchMode,
+      settings.match_threshold,
+      settings.match_count
+    )
+
+    result.retrieved_source_ids = [...new Set(
+      similarContent.map(item => item.source_id).filter((sourceId): sourceId is string => Boolean(sourceId))
+    )]
+
+    if (hasExpectedSources) {
+      result.recall = recallAtK(goldenCase.expected_source_ids, result.retrieved_source_ids)
+      result.reciprocal_rank = reciprocalRank(goldenCase.expected_source_ids, result.retrieved_source_ids)
+    }
+
+    if (hasExpectedAnswer) {
+      const generationRequest = buildGenerationRequest(
+        goldenCase.question,
+        buildContext(similarContent),
+        [],
+        pipeline.projectInfo,
+        settings,
+        buildLanguageGuidance(null, null)
+      )
+      result.response = await pipeline.provider.generate(generationRequest.messages, generationRequest.options)
+      result.answer_match = scoreAnswerMatch(result.response, goldenCase.expected_answer as string)
+    }
+  } catch (error) {
+    console.error(`Error evaluating "${goldenCase.question}":`, error)
+    result.error = error instanceof Error ? error.message : String(error)
+  }
+
+  result.latency_ms = Date.now() - startedAt
+  return result
+}
+
+function mean(values: (number | null)[]): number | null {
+  const applicable = values.filter((value): value is number => value !== null)
+  return applicable.length > 0 ? applicable.reduce((sum, value) => sum + value, 0) / applicable.length : null
+}
+
+export function summarizeResults(results: CaseResult[], k: number): EvaluationSummary {
+  return {
+    k,
+    case_count: results.length,
+    recall_at_k: mean(results.map(result => result.recall)),
+    mrr: mean(results.map(result => result.reciprocal_rank)),
+    answer_match: mean(results.map(result => result.answer_match))
+  }
+}
+
+/**
+ * Replays every case one after the other, so a run does not trip the provider's rate limits
+ */
+export async function runEvaluation(
+  cases: GoldenCase[],
+  pipeline: EvaluationPipeline
+): Promise<{ summary: EvaluationSummary; results: CaseResult[] }> {
+  const results: CaseResult[] = []
+  for (const goldenCase of cases) {
+    results.push(await evaluateCase(goldenCase, pipeline))
+  }
+
+  return { summary: summarizeResults(results, pipeline.settings.match_count), results }
+}
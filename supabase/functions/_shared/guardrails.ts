@@ -0,0 +1,159 @@
+/**
+ * Prompt-injection guardrails for text that reaches a model prompt without being written by the owner.
+ *
+ * Visitor messages and retrieved knowledge base chunks are untrusted: chunks include inquiries that
+ * chat-query itself creates from visitor questions. Both are screened for instructions aimed at the model,
+ * and are always placed between delimiters the system prompt tells the model to treat as data.
+ */
+
+export type GuardrailAction = 'log' | 'sanitize' | 'block'
+
+export const GUARDRAIL_ACTIONS: GuardrailAction[] = ['log', 'sanitize', 'block']
+
+export interface GuardrailRule {
+  id: string
+  pattern: RegExp
+}
+
+export interface GuardrailFinding {
+  rule: string
+  excerpt: string
+}
+
+// Patterns of text trying to change the assistant's instructions or role, or to read its prompt
+const INJECTION_RULES: GuardrailRule[] = [
+  {
+    id: 'ignore_instructions',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|any|your|the|system)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions|guidelines)\b/gi
+  },
+  {
+    id: 'ignore_instructions',
+    pattern: /\b(ignora|ignore|olvida|esquece)\b[^.\n]{0,40}\b(instrucciones|instruções|instrucoes|reglas|regras)\b/gi
+  },
+  {
+    id: 'reveal_prompt',
+    // "Your rules" alone is a question about store policy; only the prompt itself is a target
+    pattern: /\b(reveal|show|print|repeat|output|display|tell me|what (is|are))\b[^.\n]{0,40}\b(system prompt|initial prompt|original prompt|hidden (prompt|instructions)|your (system |initial |original )?prompt|(instructions|rules) (you were given|in your prompt))\b/gi
+  },
+  {
+    id: 'role_override',
+    pattern: /\b(you are now|from now on,? you (are|will)|pretend (to be|you are)|roleplay as|new persona)\b/gi
+  },
+  {
+    id: 'jailbreak',
+    // Bare "developer mode" and "without restrictions" are common in product questions
+    pattern: /\b(jailbreak|jailbroken|DAN mode|do anything now|(answer|respond|reply|act) without (any )?(restrictions|limitations|filters))\b/gi
+  },
+  {
+    id: 'fake_role_marker',
+    // A role label only counts at the start of a line and followed by a chat turn: an instruction to the
+    // model, or another role label on a later line. "System: Windows 11" is just a spec.
+    pattern: /(^|\n)\s*(system|developer)\s*:\s*(you (are|must|will|should)|ignore|disregard|forget|new instructions)\b|(^|\n)\s*(system|assistant|developer)\s*:[^\n]*\n\s*(user|human|assistant)\s*:|<\|im_(start|end)\|>|\[\/?INST\]|<<\/?SYS>>/gi
+  },
+  {
+    id: 'fake_delimiter',
+    pattern: /<\/?\s*(system|instructions?|context|user_query)\s*>/gi
+  }
+]
+
+/**
+ * Finds injection patterns in untrusted text
+ * @param blockedPhrases Extra phrases the project owner wants treated as injections, matched case-insensitively
+ * @returns One finding per match, empty when the text looks harmless
+ */
+export function screenText(text: string, blockedPhrases: string[] = []): GuardrailFinding[] {
+  const findings: GuardrailFinding[] = []
+
+  for (const { id, pattern } of INJECTION_RULES) {
+    for (const match of text.matchAll(pattern)) {
+      findings.push({ rule: id, excerpt: getExcerpt(text, match.index ?? 0, match[0].length) })
+    }
+  }
+
+  const lowerText = text.toLowerCase()
+  for (const phrase of blockedPhrases) {
+    const index = lowerText.indexOf(phrase.toLowerCase())
+    if (phrase && index >= 0) {
+      findings.push({ rule: 'blocked_phrase', excerpt: getExcerpt(text, index, phrase.length) })
+    }
+  }
+
+  return findings
+}
+
+/**
+ * Removes the text matched by the injection patterns and blocked phrases
+ */
+export function sanitizeText(text: string, blockedPhrases: string[] = []): string {
+  let sanitized = text
+
+  for (const { pattern } of INJECTION_RULES) {
+    sanitized = sanitized.replace(pattern, ' ')
+  }
+
+  for (const phrase of blockedPhrases.filter(Boolean)) {
+    sanitized = sanitized.replace(new RegExp(escapeRegExp(phrase), 'gi'), ' ')
+  }
+
+  return sanitized.replace(/\s{2,}/g, ' ').trim()
+}
+
+/**
+ * Applies the project's guardrail action to earlier visitor messages before they are reused as history.
+ * Messages are stored as the visitor wrote them, so without this a message refused on its own turn would
+ * still reach the model through the prompt of the next one.
+ * @returns The history without blocked messages and the replies to them, with sanitized messages sanitized
+ */
+export function screenHistory<T extends { role: 'user' | 'assistant', content: string }>(
+  history: T[],
+  action: GuardrailAction,
+  blockedPhrases: string[] = []
+): T[] {
+  const screened: T[] = []
+  let skipReply = false
+
+  for (const message of history) {
+    if (message.role === 'assistant') {
+      if (!skipReply) {
+        screened.push(message)
+      }
+      skipReply = false
+      continue
+    }
+
+    skipReply = false
+    if (action === 'log' || screenText(message.content, blockedPhrases).length === 0) {
+      screened.push(message)
+      continue
+    }
+
+    // Same rule as the live turn: nothing left after sanitizing means the message was blocked
+    const sanitized = action === 'sanitize' ? sanitizeText(message.content, blockedPhrases) : ''
+    if (sanitized) {
+      screened.push({ ...message, content: sanitized })
+    } else {
+      skipReply = true
+    }
+  }
+
+  return screened
+}
+
+/**
+ * Places untrusted text between delimiters, removing any copy of the delimiters from the text itself
+ * so it cannot close the block early
+ */
+export function wrapUntrusted(tag: 'context' | 'user_query', text: string): string {
+  const neutralized = text.replace(/<\/?\s*(context|user_query)\s*>/gi, '')
+  return `<${tag}>\n${neutralized}\n</${tag}>`
+}
+
+function getExcerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - 30)
+  const end = Math.min(text.length, index + length + 30)
+  return `${start > 0 ? '...' : ''}${text.slice(start, end)}${end < text.length ? '...' : ''}`
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,153 @@
+/**
+ * Guided intake for issues reported in chat.
+ *
+ * When a visitor reports a problem the knowledge base cannot answer, the bot asks for the details the
+ * owner configured, one question per turn, and files a single issue once it has them. The state of an
+ * intake in progress lives on the conversation (conversations.issue_intake), so any turn can pick it up.
+ * Visitors can skip a question, and an intake ends early, filing what it has, when the visitor moves on to
+ * something else. An intake the visitor leaves without replying is not filed; the report stays in the
+ * conversation, where the first message is flagged as a knowledge gap.
+ */
+
+import type { LLMProvider } from "./providers.ts"
+
+export type IntakeField = 'steps_to_reproduce' | 'device' | 'contact_email' | 'severity'
+
+export const INTAKE_FIELDS: IntakeField[] = ['steps_to_reproduce', 'device', 'contact_email', 'severity']
+
+export type IssueSeverity = 'low' | 'medium' | 'high' | 'critical'
+
+const SEVERITIES: IssueSeverity[] = ['low', 'medium', 'high', 'critical']
+
+// Answers collected so far; null means the visitor skipped the question
+export type IntakeAnswers = Partial<Record<IntakeField, string | null>>
+
+// Intake in progress, stored in conversations.issue_intake
+export interface IssueIntake {
+  // The visitor's report, with personal information already masked
+  description: string
+  answers: IntakeAnswers
+  // Field the last question asked for
+  pending: IntakeField
+  started_at: string
+}
+
+// Question the bot asks for each field
+const FIELD_QUESTIONS: Record<IntakeField, string> = {
+  steps_to_reproduce: 'What were you doing when the problem happened? Please list the steps that lead to it.',
+  device: 'Which device, operating system and browser or app version are you using?',
+  contact_email: 'What email address can the team use to follow up with you?',
+  severity: 'How much is this affecting you: low (a minor annoyance), medium, high (it blocks something important) or critical (nothing works)?'
+}
+
+const FIELD_DESCRIPTIONS: Record<IntakeField, string> = {
+  steps_to_reproduce: 'the steps that lead to the problem',
+  device: 'the device, operating system, browser or app version',
+  contact_email: 'an email address to contact the visitor',
+  severity: 'how severe the problem is: low, medium, high or critical'
+}
+
+const EMAIL_PATTERN = /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.\p{L}{2,}/u
+
+// Replies that decline to answer the current question
+const SKIP_PATTERN = /^\s*(skip|pass|no idea|not sure|i don'?t know|dunno|n\/?a|none|prefer not( to say)?|no thanks)\s*[.!]?\s*$/i
+
+export function isIntakeField(value: unknown): value is IntakeField {
+  return typeof value === 'string' && INTAKE_FIELDS.includes(value as IntakeField)
+}
+
+export function getFieldQuestion(field: IntakeField): string {
+  return FIELD_QUESTIONS[field]
+}
+
+/**
+ * The next configured field the visitor has not answered or skipped yet
+ */
+export function getNextField(fields: IntakeField[], answers: IntakeAnswers): IntakeField | null {
+  return fields.find(field => !(field in answers)) ?? null
+}
+
+export function toSeverity(value: string | null | undefined): IssueSeverity {
+  const severity = value?.trim().toLowerCase()
+  return SEVERITIES.includes(severity as IssueSeverity) ? severity as IssueSeverity : 'medium'
+}
+
+/**
+ * Keeps only values that fit their field, e.g. a real email address for contact_email
+ * @returns The value, or undefined when the field was not really answered
+ */
+function normalizeAnswer(field: IntakeField, value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) {
+    return undefined
+  }
+
+  const trimmed = value.trim()
+  switch (field) {
+    case 'contact_email':
+      return trimmed.match(EMAIL_PATTERN)?.[0]
+    case 'severity':
+      return SEVERITIES.includes(trimmed.toLowerCase() as IssueSeverity) ? trimmed.toLowerCase() : undefined
+    default:
+      return trimmed
+  }
+}
+
+/**
+ * Reads the details a visitor's message gives for the fields still missing. A message can answer several
+ * questions at once, e.g. the first report often already names the device.
+ * @param pending Field the bot just asked for, or null when reading the first report
+ * @returns The answers found, and whether the message responded to the question at all
+ */
+export async function extractIntakeAnswers(
+  message: string,
+  fields: IntakeField[],
+  pending: IntakeField | null,
+  provider: LLMProvider
+): Promise<{ answers: IntakeAnswers; answeredQuestion: boolean }> {
+  if (pending && SKIP_PATTERN.test(message)) {
+    return { answers: { [pending]: null }, answeredQuestion: true }
+  }
+
+  const answers: IntakeAnswers = {}
+
+  try {
+    const prompt = `A website visitor is reporting a problem to a support assistant.${pending ? ` The assistant just asked for ${FIELD_DESCRIPTIONS[pending]}.` : ''}
+
+VISITOR MESSAGE:
+"""
+${message}
+"""
+
+Extract the following details if the message gives them:
+${fields.map(field => `- ${field}: ${FIELD_DESCRIPTIONS[field]}`).join('\n')}
+
+Respond with ONLY a JSON object with an "answers" object, holding the details found with their values written as the visitor gave them (severity as one of low, medium, high, critical), and an "answers_question" boolean that is false when the message ignores the question and talks about something else.`
+
+    const responseText = await provider.generate(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0, maxOutputTokens: 512, json: true }
+    )
+    const extracted = JSON.parse(responseText)
+
+    for (const field of fields) {
+      const value = normalizeAnswer(field, extracted?.answers?.[field])
+      if (value !== undefined) {
+        answers[field] = value
+      }
+    }
+
+    const answeredQuestion = !pending || extracted?.answers_question !== false || Object.keys(answers).length > 0
+    return { answers, answeredQuestion }
+  } catch (error) {
+    console.error('Error extracting issue details, using the message as the answer:', error)
+
+    // Without the model, the message is taken as the answer to the question it follows
+    if (pending) {
+      const value = pending === 'severity'
+        ? SEVERITIES.find(severity => message.toLowerCase().includes(severity)) ?? null
+        : normalizeAnswer(pending, message)
+      answers[pending] = value ?? null
+    }
+    return { answers, answeredQuestion: true }
+  }
+}
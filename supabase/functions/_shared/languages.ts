@@ -0,0 +1,171 @@
+/**
+ * Languages the chatbot can detect and answer in (mirrored in lib/languages.ts).
+ *
+ * Visitor messages are detected from common function words, which is free and reliable for all but the
+ * shortest messages; the model is only asked when the words are inconclusive. Retrieval across languages
+ * works by translating the query into the knowledge base's language, so it does not depend on the
+ * embedding model being multilingual.
+ */
+
+import type { LLMProvider } from "./providers.ts"
+
+export type LanguageCode = 'en' | 'es' | 'pt' | 'tl' | 'fr' | 'de' | 'it' | 'id'
+
+export const LANGUAGE_NAMES: Record<LanguageCode, string> = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  tl: 'Tagalog',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  id: 'Indonesian'
+}
+
+export const LANGUAGE_CODES = Object.keys(LANGUAGE_NAMES) as LanguageCode[]
+
+// Frequent words that identify each language, including common greetings and thanks
+const LANGUAGE_STOPWORDS: Record<LanguageCode, string[]> = {
+  en: ['the', 'and', 'is', 'are', 'you', 'what', 'how', 'can', 'does', 'my', 'your', 'this', 'that', 'with', 'for', 'have', 'not', 'where', 'when', 'it', 'of', 'to', 'do', 'hello', 'thanks', 'please', 'much', 'there', 'will', 'been', 'from', 'they', 'want', 'some', 'very', 'here', 'just', 'like', 'know', 'good', 'time', 'come', 'long', 'make', 'many', 'over', 'such', 'take', 'than', 'them', 'well', 'were'],
+  es: ['el', 'los', 'las', 'una', 'con', 'del', 'pero', 'es', 'qué', 'cómo', 'hay', 'puedo', 'tiene', 'por', 'usted', 'yo', 'mi', 'cuánto', 'cuesta', 'dónde', 'hola', 'gracias', 'quiero', 'necesito', 'también', 'muy', 'este', 'esta', 'porque', 'cuando', 'tengo', 'sí', 'le', 'lo', 'al', 'su'],
+  pt: ['não', 'você', 'é', 'os', 'uma', 'com', 'do', 'da', 'em', 'mas', 'isso', 'como', 'obrigado', 'obrigada', 'tem', 'olá', 'oi', 'quanto', 'custa', 'onde', 'posso', 'quero', 'preciso', 'também', 'muito', 'seu', 'sua', 'meu', 'minha', 'nao', 'voce', 'vocês', 'ao', 'pelo'],
+  tl: ['ang', 'ng', 'mga', 'sa', 'na', 'ko', 'mo', 'ako', 'ikaw', 'po', 'ba', 'hindi', 'paano', 'ano', 'may', 'kung', 'lang', 'yung', 'naman', 'siya', 'kayo', 'natin', 'ito', 'saan', 'magkano', 'salamat', 'opo', 'wala', 'meron', 'pwede', 'gusto', 'kailangan', 'ninyo', 'niyo'],
+  fr: ['le', 'la', 'les', 'des', 'est', 'et', 'je', 'vous', 'pas', 'une', 'pour', 'avec', 'qui', 'comment', 'combien', 'dans', 'sur', 'mon', 'ce', 'bonjour', 'merci', 'où', 'quel', 'quelle', 'puis', 'nous', 'suis', 'mais', 'très', 'aussi'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'ich', 'nicht', 'ein', 'eine', 'mit', 'wie', 'was', 'für', 'auf', 'sie', 'wir', 'kann', 'haben', 'bitte', 'hallo', 'danke', 'wo', 'viel', 'kostet', 'mein', 'ihr', 'auch', 'sehr', 'aber', 'oder'],
+  it: ['il', 'gli', 'della', 'che', 'non', 'sono', 'come', 'per', 'mi', 'posso', 'quanto', 'questo', 'questa', 'dove', 'grazie', 'anche', 'ho', 'è', 'ciao', 'buongiorno', 'costa', 'vorrei', 'voglio', 'molto', 'mio', 'suo', 'nel', 'alla', 'perché', 'quando'],
+  id: ['yang', 'dan', 'di', 'ini', 'itu', 'saya', 'anda', 'tidak', 'dengan', 'untuk', 'apa', 'bagaimana', 'bisa', 'ada', 'berapa', 'mau', 'kami', 'dari', 'ke', 'akan', 'terima', 'kasih', 'halo', 'harga', 'dimana', 'sudah', 'belum', 'juga', 'tolong']
+}
+
+const STOPWORD_SETS = Object.fromEntries(
+  LANGUAGE_CODES.map(code => [code, new Set(LANGUAGE_STOPWORDS[code])])
+) as Record<LanguageCode, Set<string>>
+
+// Words too common to be useful as keywords in any supported language
+export const STOPWORDS = new Set(LANGUAGE_CODES.flatMap(code => LANGUAGE_STOPWORDS[code]))
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return typeof value === 'string' && LANGUAGE_CODES.includes(value as LanguageCode)
+}
+
+/**
+ * Splits text into lowercase words, keeping accented letters
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}']+/u).filter(Boolean)
+}
+
+/**
+ * Guesses the language of a text from the function words it contains
+ * @returns The language, or null when the words do not clearly point to one
+ */
+function detectLanguageFromWords(words: string[]): LanguageCode | null {
+  const scores = LANGUAGE_CODES
+    .map(code => ({ code, score: words.filter(word => STOPWORD_SETS[code].has(word)).length }))
+    .sort((a, b) => b.score - a.score)
+
+  const [best, runnerUp] = scores
+  // Very short messages ("hola", "salamat po") can be decided by a single word
+  const minimumScore = words.length <= 3 ? 1 : 2
+
+  return best.score >= minimumScore && best.score > runnerUp.score ? best.code : null
+}
+
+/**
+ * Detects the language of a visitor's message, asking the model only when the words are inconclusive
+ * @returns The language, or null if it could not be determined (e.g. a product code on its own)
+ */
+export async function detectLanguage(text: string, provider: LLMProvider): Promise<LanguageCode | null> {
+  const words = tokenize(text)
+  if (words.length === 0) {
+    return null
+  }
+
+  const fromWords = detectLanguageFromWords(words)
+  if (fromWords || words.length < 3) {
+    return fromWords
+  }
+
+  try {
+    const labels = LANGUAGE_CODES.map(code => LANGUAGE_NAMES[code].toUpperCase())
+    const label = await provider.classify(
+      text,
+      [...labels, 'OTHER'],
+      'Identify the language the following message is written in. Answer OTHER if it is none of the listed languages.'
+    )
+    const index = label ? labels.indexOf(label) : -1
+    return index >= 0 ? LANGUAGE_CODES[index] : null
+  } catch (error) {
+    console.error('Error detecting language:', error)
+    return null
+  }
+}
+
+/**
+ * Translates a search query into another language, for retrieving content written in that language
+ * @returns The translated query, or the original query if translation fails
+ */
+export async function translateQuery(
+  query: string,
+  targetLanguage: LanguageCode,
+  provider: LLMProvider
+): Promise<string> {
+  try {
+    const prompt = `Translate the following search query into ${LANGUAGE_NAMES[targetLanguage]}.
+
+QUERY:
+"""
+${query}
+"""
+
+RULES:
+- Keep product names, codes and other specific terms exactly as written
+- Do not answer the query
+
+Respond with ONLY the translated query.`
+
+    const translatedQuery = (await provider.generate(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0.1, maxOutputTokens: 128 }
+    )).trim()
+
+    return translatedQuery || query
+  } catch (error) {
+    console.error('Error translating query, using original:', error)
+    return query
+  }
+}
+
+/**
+ * Translates a fixed reply, such as a follow-up question, into the language the visitor is answered in
+ * @returns The translated reply, or the original reply if translation fails
+ */
+export async function translateReply(
+  reply: string,
+  targetLanguage: LanguageCode,
+  provider: LLMProvider
+): Promise<string> {
+  try {
+    const prompt = `Translate the following message from a support assistant into ${LANGUAGE_NAMES[targetLanguage]}.
+
+MESSAGE:
+"""
+${reply}
+"""
+
+RULES:
+- Keep reference ids, email addresses and product names exactly as written
+- Keep the tone friendly and the meaning unchanged
+
+Respond with ONLY the translated message.`
+
+    const translatedReply = (await provider.generate(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0.1, maxOutputTokens: 256 }
+    )).trim()
+
+    return translatedReply || reply
+  } catch (error) {
+    console.error('Error translating reply, using original:', error)
+    return reply
+  }
+}
@@ -0,0 +1,634 @@
+/**
+ * Provider layer for the LLM and embedding calls made by the edge functions.
+ *
+ * Every function talks to a model through the LLMProvider interface instead of calling an API directly,
+ * so the backend can be switched between Vertex AI, the Gemini API, any OpenAI-compatible server
+ * (e.g. a local model during development) and a deterministic fake for tests.
+ *
+ * Environment:
+ *   LLM_PROVIDER            vertex (default) | gemini | openai | fake
+ *   LLM_GENERATION_MODEL    Overrides the provider's default generation model
+ *   LLM_EMBEDDING_MODEL     Overrides the provider's default embedding model
+ *   EMBEDDING_PROVIDER      Provider used for embeddings, defaults to LLM_PROVIDER
+ *   EMBEDDING_MODEL         Embedding model of EMBEDDING_PROVIDER. Without it, LLM_EMBEDDING_MODEL applies
+ *                           only when EMBEDDING_PROVIDER is LLM_PROVIDER.
+ *   GOOGLE_CLOUD_SERVICE_ACCOUNT_KEY, VERTEX_LOCATION   (vertex)
+ *   VERTEX_BASE_URL         Sends vertex calls to a stand-in such as scripts/vertex-mock.js instead of Google.
+ *                           The service account key is optional then, and no access token is requested.
+ *   GEMINI_API_KEY                                      (gemini)
+ *   OPENAI_BASE_URL, OPENAI_API_KEY                     (openai)
+ *
+ * Projects may choose their own generation provider and model. Embeddings always use the deployment-wide
+ * provider, because every stored vector has to come from the same model to be comparable.
+ */
+
+import { getAccessToken, getServiceAccountKey } from './google-auth.ts'
+import type { ServiceAccountKey } from './google-auth.ts'
+
+export type ProviderName = 'vertex' | 'gemini' | 'openai' | 'fake'
+
+export const PROVIDER_NAMES: ProviderName[] = ['vertex', 'gemini', 'openai', 'fake']
+
+// Dimension of the embeddings.embedding column
+export const EMBEDDING_DIMENSIONS = 768
+
+export type EmbeddingTask = 'RETRIEVAL_QUERY' | 'RETRIEVAL_DOCUMENT'
+
+export interface GenerationMessage {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface GenerationOptions {
+  temperature?: number
+  topP?: number
+  topK?: number
+  maxOutputTokens?: number
+  // Ask the model to answer with JSON only
+  json?: boolean
+  // Block harmful content (default). Turned off for internal tasks like chunking.
+  blockUnsafeContent?: boolean
+  signal?: AbortSignal
+  // Called with the token counts of the call, when the backend reports them
+  onUsage?: (usage: TokenUsage) => void
+}
+
+export interface TokenUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+export interface LLMProvider {
+  readonly name: ProviderName
+  readonly generationModel: string
+  readonly embeddingModel: string
+  /**
+   * Obtains the credentials model calls need ahead of the first call, so their cost can be measured
+   * on its own. Does nothing for backends authenticated with a static key.
+   */
+  authenticate(): Promise<void>
+  embed(text: string, task: EmbeddingTask): Promise<number[]>
+  generate(messages: GenerationMessage[], options?: GenerationOptions): Promise<string>
+  stream(messages: GenerationMessage[], options?: GenerationOptions): AsyncGenerator<string>
+  /**
+   * Asks the model to pick one of the labels for the text
+   * @returns The chosen label, or null if the model's answer matched none of them
+   */
+  classify(text: string, labels: string[], instructions: string): Promise<string | null>
+}
+
+export interface ProviderOptions {
+  provider?: ProviderName | null
+  generationModel?: string | null
+  embeddingModel?: string | null
+}
+
+const DEFAULT_MODELS: Record<ProviderName, { generation: string, embedding: string }> = {
+  vertex: { generation: 'gemini-2.0-flash-001', embedding: 'text-embedding-004' },
+  gemini: { generation: 'gemini-2.0-flash-001', embedding: 'text-embedding-004' },
+  openai: { generation: 'gpt-4o-mini', embedding: 'text-embedding-3-small' },
+  fake: { generation: 'fake-generation', embedding: 'fake-embedding' }
+}
+
+/**
+ * Generation models a project may choose for each provider (mirrored in lib/models.ts and the
+ * project_settings check constraint). Projects run on the deployment's credentials, so they are limited to
+ * these; LLM_GENERATION_MODEL is set by the operator and not restricted.
+ */
+export const GENERATION_MODELS: Record<Exclude<ProviderName, 'fake'>, string[]> = {
+  vertex: ['gemini-2.0-flash-001', 'gemini-2.0-flash-lite-001'],
+  gemini: ['gemini-2.0-flash-001', 'gemini-2.0-flash-lite-001'],
+  openai: ['gpt-4o-mini', 'gpt-4.1-mini']
+}
+
+export function isGenerationModel(provider: ProviderName, model: string): boolean {
+  return provider !== 'fake' && GENERATION_MODELS[provider].includes(model)
+}
+
+/**
+ * Reads a text/event-stream body and yields the data payload of each line
+ */
+async function* readEventStreamData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ''
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += value
+    const lines = buffer.split(/\r?\n/)
+    // Keep the last (possibly incomplete) line for the next read
+    buffer = lines.pop() || ''
+
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue
+
+      const payload = line.slice(5).trim()
+      if (payload) {
+        yield payload
+      }
+    }
+  }
+}
+
+function validateEmbedding(embedding: unknown, providerName: string): number[] {
+  if (!Array.isArray(embedding)) {
+    throw new Error(`No valid embedding found in ${providerName} response`)
+  }
+  if (embedding.length !== EMBEDDING_DIMENSIONS) {
+    throw new Error(`${providerName} returned a ${embedding.length}-dimensional embedding, expected ${EMBEDDING_DIMENSIONS}`)
+  }
+  return embedding
+}
+
+function buildClassificationPrompt(text: string, labels: string[], instructions: string): string {
+  return `${instructions}
+
+TEXT:
+"""
+${text}
+"""
+
+Respond with ONLY one of: ${labels.join(', ')}`
+}
+
+function matchLabel(responseText: string, labels: string[]): string | null {
+  const normalized = responseText.trim().toUpperCase()
+  return labels.find(label => normalized.includes(label.toUpperCase())) || null
+}
+
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[]
+  usageMetadata?: { promptTokenCount?: number, candidatesTokenCount?: number }
+}
+
+function toGeminiUsage(metadata: GeminiResponse['usageMetadata']): TokenUsage | null {
+  if (!metadata) return null
+  return {
+    promptTokens: metadata.promptTokenCount ?? 0,
+    completionTokens: metadata.candidatesTokenCount ?? 0
+  }
+}
+
+/**
+ * Shared request and response handling for the two Google backends, which speak the same
+ * generateContent format and differ only in endpoint, authentication and embedding API
+ */
+abstract class GoogleGenerativeProvider implements LLMProvider {
+  abstract readonly name: ProviderName
+
+  constructor(
+    readonly generationModel: string,
+    readonly embeddingModel: string
+  ) {}
+
+  abstract embed(text: string, task: EmbeddingTask): Promise<number[]>
+
+  protected abstract getGenerationUrl(method: 'generateContent' | 'streamGenerateContent'): string
+
+  protected abstract getHeaders(): Promise<Record<string, string>>
+
+  async authenticate(): Promise<void> {
+    await this.getHeaders()
+  }
+
+  protected buildRequestBody(messages: GenerationMessage[], options: GenerationOptions) {
+    const threshold = options.blockUnsafeContent === false ? 'BLOCK_NONE' : 'BLOCK_MEDIUM_AND_ABOVE'
+
+    return {
+      contents: messages.map(msg => ({
+        role: msg.role === 'assistant' ? 'model' : 'user',
+        parts: [{ text: msg.content }]
+      })),
+      generationConfig: {
+        temperature: options.temperature ?? 0.2,
+        topP: options.topP ?? 0.8,
+        topK: options.topK ?? 40,
+        maxOutputTokens: options.maxOutputTokens ?? 1024,
+        ...(options.json ? { responseMimeType: 'application/json' } : {})
+      },
+      safetySettings: [
+        'HARM_CATEGORY_HARASSMENT',
+        'HARM_CATEGORY_HATE_SPEECH',
+        'HARM_CATEGORY_SEXUALLY_EXPLICIT',
+        'HARM_CATEGORY_DANGEROUS_CONTENT'
+      ].map(category => ({ category, threshold }))
+    }
+  }
+
+  async generate(messages: GenerationMessage[], options: GenerationOptions = {}): Promise<string> {
+    const response = await fetch(this.getGenerationUrl('generateContent'), {
+      method: 'POST',
+      headers: await this.getHeaders(),
+      body: JSON.stringify(this.buildRequestBody(messages, options)),
+      signal: options.signal
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error(`${this.name} generation error:`, errorText)
+      throw new Error(`${this.name} API error: ${response.status} - ${errorText}`)
+    }
+
+    const data: GeminiResponse = await response.json()
+    const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text
+
+    if (!responseText) {
+      throw new Error(`No response text from ${this.name}`)
+    }
+
+    const usage = toGeminiUsage(data.usageMetadata)
+    if (usage) {
+      options.onUsage?.(usage)
+    }
+
+    return responseText
+  }
+
+  async *stream(messages: GenerationMessage[], options: GenerationOptions = {}): AsyncGenerator<string> {
+    const response = await fetch(`${this.getGenerationUrl('streamGenerateContent')}?alt=sse`, {
+      method: 'POST',
+      headers: await this.getHeaders(),
+      body: JSON.stringify(this.buildRequestBody(messages, options)),
+      signal: options.signal
+    })
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text()
+      console.error(`${this.name} streaming error:`, errorText)
+      throw new Error(`${this.name} API error: ${response.status} - ${errorText}`)
+    }
+
+    // Every chunk carries the running token counts; the last one has the totals
+    let usage: TokenUsage | null = null
+    for await (const payload of readEventStreamData(response.body)) {
+      const data: GeminiResponse = JSON.parse(payload)
+      usage = toGeminiUsage(data.usageMetadata) ?? usage
+      const text = data.candidates?.[0]?.content?.parts?.[0]?.text
+      if (text) {
+        yield text
+      }
+    }
+
+    if (usage) {
+      options.onUsage?.(usage)
+    }
+  }
+
+  async classify(text: string, labels: string[], instructions: string): Promise<string | null> {
+    const responseText = await this.generate(
+      [{ role: 'user', content: buildClassificationPrompt(text, labels, instructions) }],
+      { temperature: 0.1, maxOutputTokens: 10 }
+    )
+    return matchLabel(responseText, labels)
+  }
+}
+
+/**
+ * Vertex AI, authenticated with a Google Cloud service account
+ */
+export class VertexProvider extends GoogleGenerativeProvider {
+  readonly name = 'vertex' as const
+
+  constructor(
+    // Null only with a baseUrl, for a local stand-in that does not check credentials
+    private serviceAccountKey: ServiceAccountKey | null,
+    generationModel: string,
+    embeddingModel: string,
+    private location = 'us-central1',
+    private baseUrl?: string
+  ) {
+    super(generationModel, embeddingModel)
+  }
+
+  private getModelUrl(model: string, method: string): string {
+    const projectId = this.serviceAccountKey?.project_id ?? 'local'
+    const baseUrl = this.baseUrl?.replace(/\/$/, '') ?? `https://${this.location}-aiplatform.googleapis.com`
+    return `${baseUrl}/v1/projects/${projectId}/locations/${this.location}/publishers/google/models/${model}:${method}`
+  }
+
+  protected getGenerationUrl(method: 'generateContent' | 'streamGenerateContent'): string {
+    return this.getModelUrl(this.generationModel, method)
+  }
+
+  protected async getHeaders(): Promise<Record<string, string>> {
+    if (!this.serviceAccountKey) {
+      return { 'Content-Type': 'application/json' }
+    }
+    return {
+      'Authorization': `Bearer ${await getAccessToken(this.serviceAccountKey)}`,
+      'Content-Type': 'application/json'
+    }
+  }
+
+  async embed(text: string, task: EmbeddingTask): Promise<number[]> {
+    const response = await fetch(this.getModelUrl(this.embeddingModel, 'predict'), {
+      method: 'POST',
+      headers: await this.getHeaders(),
+      body: JSON.stringify({
+        instances: [{ task_type: task, content: text }]
+      })
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Vertex AI error response:', errorText)
+      throw new Error(`Vertex AI API error: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json()
+    // The embedding has been seen under a few different shapes
+    const prediction = data.predictions?.[0]
+    const embedding = prediction?.embeddings?.values ?? prediction?.values ?? prediction?.embedding ?? prediction
+
+    return validateEmbedding(embedding, 'Vertex AI')
+  }
+}
+
+/**
+ * The Gemini API (generativelanguage.googleapis.com), authenticated with an API key
+ */
+export class GeminiApiProvider extends GoogleGenerativeProvider {
+  readonly name = 'gemini' as const
+
+  constructor(
+    private apiKey: string,
+    generationModel: string,
+    embeddingModel: string
+  ) {
+    super(generationModel, embeddingModel)
+  }
+
+  protected getGenerationUrl(method: 'generateContent' | 'streamGenerateContent'): string {
+    return `https://generativelanguage.googleapis.com/v1beta/models/${this.generationModel}:${method}`
+  }
+
+  protected async getHeaders(): Promise<Record<string, string>> {
+    return {
+      'x-goog-api-key': this.apiKey,
+      'Content-Type': 'application/json'
+    }
+  }
+
+  async embed(text: string, task: EmbeddingTask): Promise<number[]> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.embeddingModel}:embedContent`,
+      {
+        method: 'POST',
+        headers: await this.getHeaders(),
+        body: JSON.stringify({
+          content: { parts: [{ text }] },
+          taskType: task,
+          outputDimensionality: EMBEDDING_DIMENSIONS
+        })
+      }
+    )
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      console.error('Gemini API embedding error:', errorText)
+      throw new Error(`Gemini API error: ${response.status} - ${errorText}`)
+    }
+
+    const data = await response.json()
+    return validateEmbedding(data.embedding?.values, 'Gemini API')
+  }
+}
+
+/**
+ * Any server implementing the OpenAI chat completions and embeddings API (OpenAI, vLLM, Ollama, LM Studio, ...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai' as const
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | undefined,
+    readonly generationModel: string,
+    readonly embeddingModel: string
+  ) {}
+
+  private getHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.apiKey ? { 'Authorization': `Bearer ${this.apiKey}` } : {})
+    }
+  }
+
+  private async post(path: string, body: unknown, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: this.getHeaders(),
+      body: JSON.stringify(body),
+      signal
+    })
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text()
+      console.error('OpenAI-compatible API error:', errorText)
+      throw new Error(`OpenAI-compatible API error: ${response.status} - ${errorText}`)
+    }
+
+    return response
+  }
+
+  private buildRequestBody(messages: GenerationMessage[], options: GenerationOptions, stream: boolean) {
+    return {
+      model: this.generationModel,
+      messages,
+      temperature: options.temperature ?? 0.2,
+      top_p: options.topP ?? 0.8,
+      max_tokens: options.maxOutputTokens ?? 1024,
+      stream,
+      // Streamed responses only report token counts when asked to, in a final chunk
+      ...(stream && options.onUsage ? { stream_options: { include_usage: true } } : {}),
+      ...(options.json ? { response_format: { type: 'json_object' } } : {})
+    }
+  }
+
+  private reportUsage(usage: { prompt_tokens?: number, completion_tokens?: number } | undefined, options: GenerationOptions) {
+    if (usage) {
+      options.onUsage?.({ promptTokens: usage.prompt_tokens ?? 0, completionTokens: usage.completion_tokens ?? 0 })
+    }
+  }
+
+  async authenticate(): Promise<void> {}
+
+  async embed(text: string): Promise<number[]> {
+    const response = await this.post('/embeddings', {
+      model: this.embeddingModel,
+      input: text,
+      dimensions: EMBEDDING_DIMENSIONS
+    })
+
+    const data = await response.json()
+    return validateEmbedding(data.data?.[0]?.embedding, 'OpenAI-compatible API')
+  }
+
+  async generate(messages: GenerationMessage[], options: GenerationOptions = {}): Promise<string> {
+    const response = await this.post('/chat/completions', this.buildRequestBody(messages, options, false), options.signal)
+
+    const data = await response.json()
+    const responseText = data.choices?.[0]?.message?.content
+
+    if (!responseText) {
+      throw new Error('No response text from OpenAI-compatible API')
+    }
+
+    this.reportUsage(data.usage, options)
+    return responseText
+  }
+
+  async *stream(messages: GenerationMessage[], options: GenerationOptions = {}): AsyncGenerator<string> {
+    const response = await this.post('/chat/completions', this.buildRequestBody(messages, options, true), options.signal)
+
+    for await (const payload of readEventStreamData(response.body as ReadableStream<Uint8Array>)) {
+      if (payload === '[DONE]') break
+
+      const data = JSON.parse(payload)
+      this.reportUsage(data.usage ?? undefined, options)
+      const text = data.choices?.[0]?.delta?.content
+      if (text) {
+        yield text
+      }
+    }
+  }
+
+  async classify(text: string, labels: string[], instructions: string): Promise<string | null> {
+    const responseText = await this.generate(
+      [{ role: 'user', content: buildClassificationPrompt(text, labels, instructions) }],
+      { temperature: 0.1, maxOutputTokens: 10 }
+    )
+    return matchLabel(responseText, labels)
+  }
+}
+
+/**
+ * Deterministic provider for tests and offline development. Makes no network calls.
+ *
+ * - embed: hashes each word into a bucket of a unit vector, so texts sharing words are similar
+ * - generate/stream: echoes the last user message back, reporting words as tokens
+ * - classify: picks the first label that appears in the text, otherwise the last label
+ */
+export class FakeProvider implements LLMProvider {
+  readonly name = 'fake' as const
+
+  constructor(
+    readonly generationModel = DEFAULT_MODELS.fake.generation,
+    readonly embeddingModel = DEFAULT_MODELS.fake.embedding
+  ) {}
+
+  private hashWord(word: string): number {
+    // FNV-1a
+    let hash = 0x811c9dc5
+    for (let i = 0; i < word.length; i++) {
+      hash ^= word.charCodeAt(i)
+      hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array(EMBEDDING_DIMENSIONS).fill(0)
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+
+    for (const word of words) {
+      vector[this.hashWord(word) % EMBEDDING_DIMENSIONS] += 1
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1
+    return vector.map(value => value / norm)
+  }
+
+  private countWords(text: string): number {
+    return text.split(/\s+/).filter(Boolean).length
+  }
+
+  async authenticate(): Promise<void> {}
+
+  async generate(messages: GenerationMessage[], options: GenerationOptions = {}): Promise<string> {
+    const lastUserMessage = [...messages].reverse().find(msg => msg.role === 'user')
+    const responseText = `Fake response to: ${lastUserMessage?.content.trim().split('\n').pop() || ''}`
+    options.onUsage?.({
+      promptTokens: messages.reduce((sum, msg) => sum + this.countWords(msg.content), 0),
+      completionTokens: this.countWords(responseText)
+    })
+    return responseText
+  }
+
+  async *stream(messages: GenerationMessage[], options: GenerationOptions = {}): AsyncGenerator<string> {
+    const responseText = await this.generate(messages, options)
+    for (const word of responseText.split(/(?<=\s)/)) {
+      yield word
+    }
+  }
+
+  async classify(text: string, labels: string[]): Promise<string | null> {
+    const lowerText = text.toLowerCase()
+    return labels.find(label => lowerText.includes(label.toLowerCase())) || labels[labels.length - 1] || null
+  }
+}
+
+function parseProviderName(value: string | null | undefined, fallback: ProviderName): ProviderName {
+  if (!value) return fallback
+  if (!PROVIDER_NAMES.includes(value as ProviderName)) {
+    throw new Error(`Unknown LLM provider: ${value}. Expected one of ${PROVIDER_NAMES.join(', ')}`)
+  }
+  return value as ProviderName
+}
+
+/**
+ * Creates the provider for generation (and classification) calls.
+ * Project settings passed in options take precedence over the environment.
+ */
+export function createProvider(options: ProviderOptions = {}): LLMProvider {
+  const envProvider = parseProviderName(Deno.env.get('LLM_PROVIDER'), 'vertex')
+  const name = parseProviderName(options.provider, envProvider)
+
+  // A model from the environment only applies to the provider the environment selected
+  const envGenerationModel = name === envProvider ? Deno.env.get('LLM_GENERATION_MODEL') : undefined
+  const envEmbeddingModel = name === envProvider ? Deno.env.get('LLM_EMBEDDING_MODEL') : undefined
+  const generationModel = options.generationModel || envGenerationModel || DEFAULT_MODELS[name].generation
+  const embeddingModel = options.embeddingModel || envEmbeddingModel || DEFAULT_MODELS[name].embedding
+
+  switch (name) {
+    case 'vertex': {
+      const baseUrl = Deno.env.get('VERTEX_BASE_URL') || undefined
+      return new VertexProvider(
+        baseUrl && !Deno.env.get('GOOGLE_CLOUD_SERVICE_ACCOUNT_KEY') ? null : getServiceAccountKey(),
+        generationModel,
+        embeddingModel,
+        Deno.env.get('VERTEX_LOCATION') || 'us-central1',
+        baseUrl
+      )
+    }
+    case 'gemini': {
+      const apiKey = Deno.env.get('GEMINI_API_KEY')
+      if (!apiKey) {
+        throw new Error('GEMINI_API_KEY not found in environment')
+      }
+      return new GeminiApiProvider(apiKey, generationModel, embeddingModel)
+    }
+    case 'openai':
+      return new OpenAICompatibleProvider(
+        Deno.env.get('OPENAI_BASE_URL') || 'https://api.openai.com/v1',
+        Deno.env.get('OPENAI_API_KEY'),
+        generationModel,
+        embeddingModel
+      )
+    case 'fake':
+      return new FakeProvider(generationModel, embeddingModel)
+  }
+}
+
+/**
+ * Creates the provider for embedding calls. Always deployment-wide so stored and query vectors match.
+ */
+export function createEmbeddingProvider(): LLMProvider {
+  // createProvider falls back to LLM_EMBEDDING_MODEL when the embedding provider is LLM_PROVIDER
+  return createProvider({
+    provider: parseProviderName(Deno.env.get('EMBEDDING_PROVIDER'), parseProviderName(Deno.env.get('LLM_PROVIDER'), 'vertex')),
+    embeddingModel: Deno.env.get('EMBEDDING_MODEL') || undefined
+  })
+}
@@ -0,0 +1,53 @@
+/**
+ * Plan quotas for the edge functions.
+ *
+ * Usage is counted per account (the project owner) and billing period by consume_usage, against the
+ * limits of the account's plan in plan_quotas. Embedded chunks and projects are enforced by database
+ * triggers; chat turns are enforced here, before any model call is made.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+
+export type UsageMetric = 'chat_turns' | 'embedded_chunks'
+
+interface ConsumeUsageResult {
+  allowed: boolean
+  period_used: number
+  period_quota: number | null
+}
+
+export class QuotaExceededError extends Error {
+  status = 402
+
+  constructor(public metric: UsageMetric, public quota: number | null) {
+    // Shown to visitors, so it does not mention the owner's plan
+    super('This chatbot has reached its message limit for this month. Please try again later.')
+  }
+}
+
+/**
+ * Counts one answered chat message against the project owner's quota
+ * @throws QuotaExceededError when the owner's chat turns for the period are used up
+ */
+export async function consumeChatTurn(
+  supabase: ReturnType<typeof createClient>,
+  accountId: string
+): Promise<void> {
+  const { data, error } = await supabase.rpc('consume_usage', {
+    account_id: accountId,
+    usage_metric: 'chat_turns',
+    amount: 1
+  })
+
+  // Keep the chatbot available if usage cannot be recorded
+  if (error) {
+    console.error('Error recording chat usage:', error)
+    return
+  }
+
+  const result = (data as ConsumeUsageResult[] | null)?.[0]
+  if (result && !result.allowed) {
+    console.warn('Chat quota exceeded:', { accountId, quota: result.period_quota })
+    throw new QuotaExceededError('chat_turns', result.period_quota)
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Rate limits for the public chat endpoint.
+ *
+ * Anyone with the anon key can call chat-query for any public project, and every call costs model
+ * requests, so messages are counted per client (IP address, or the visitor token when no address is
+ * available) and per project, per minute and per day. Counters live in Postgres (check_chat_rate_limit)
+ * so every edge instance sees the same counts; the limits of each plan are in plan_rate_limits. The plan is
+ * the owner's account plan, looked up in the database rather than taken from the project row.
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+
+export type RateLimitScope = 'client' | 'project'
+
+export type RateLimitWindow = 'minute' | 'day'
+
+interface RateLimitResult {
+  allowed: boolean
+  limit_scope: RateLimitScope | null
+  limit_window: RateLimitWindow | null
+  limit_value: number | null
+  retry_after_seconds: number
+}
+
+export class RateLimitError extends Error {
+  status = 429
+
+  constructor(
+    public scope: RateLimitScope,
+    public window: RateLimitWindow,
+    public retryAfterSeconds: number
+  ) {
+    super(getRateLimitMessage(scope, window, retryAfterSeconds))
+  }
+}
+
+function getRateLimitMessage(scope: RateLimitScope, window: RateLimitWindow, retryAfterSeconds: number): string {
+  if (window === 'day') {
+    return scope === 'client'
+      ? "You've reached today's message limit for this chatbot. Please come back tomorrow."
+      : 'This chatbot has reached its daily message limit. Please try again tomorrow.'
+  }
+
+  const wait = `${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`
+  return scope === 'client'
+    ? `You're sending messages too quickly. Please wait ${wait} and try again.`
+    : `This chatbot is receiving a lot of messages right now. Please try again in ${wait}.`
+}
+
+/**
+ * Identifies the client sending a chat message. The IP address is preferred because a visitor token is
+ * chosen by the client and can be changed at will. The value is hashed so no address is stored.
+ *
+ * Only the last x-forwarded-for entry is used: it is the one the platform's proxy appended, while
+ * anything before it came from the client and could be different on every request.
+ */
+export async function getClientKey(req: Request, visitorId?: unknown): Promise<string> {
+  const forwardedFor = req.headers.get('x-forwarded-for')
+  const ip = forwardedFor?.split(',').pop()?.trim() || req.headers.get('x-real-ip')
+  const client = ip
+    ? `ip:${ip}`
+    : typeof visitorId === 'string' && visitorId ? `visitor:${visitorId.slice(0, 100)}` : 'anonymous'
+
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(client))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+/**
+ * Counts a chat message against the limits of the project owner's plan
+ * @throws RateLimitError when the client or the project is over a limit
+ */
+export async function enforceRateLimit(
+  supabase: ReturnType<typeof createClient>,
+  projectId: string,
+  clientKey: string
+): Promise<void> {
+  const { data, error } = await supabase.rpc('check_chat_rate_limit', {
+    filter_project_id: projectId,
+    client_key: clientKey
+  })
+
+  // Keep the chatbot available if the counters cannot be reached
+  if (error) {
+    console.error('Error checking rate limit:', error)
+    return
+  }
+
+  const result = (data as RateLimitResult[] | null)?.[0]
+  if (result && !result.allowed && result.limit_scope && result.limit_window) {
+    console.warn('Chat rate limit exceeded:', {
+      projectId,
+      scope: result.limit_scope,
+      window: result.limit_window,
+      limit: result.limit_value
+    })
+    throw new RateLimitError(result.limit_scope, result.limit_window, result.retry_after_seconds)
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Masks personal information in visitor text before it is stored in the knowledge base or embedded.
+ *
+ * Well-formed identifiers (emails, phone and card numbers, ...) are found with patterns, which is free
+ * and predictable. Names and free-form addresses can only be found reliably by a model, so that pass is
+ * optional and fails open: if the model call fails, the pattern-redacted text is used.
+ */
+
+import type { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+import type { LLMProvider } from "./providers.ts"
+
+export type PiiType = 'email' | 'phone' | 'card' | 'ssn' | 'iban' | 'ip' | 'address' | 'name'
+
+export const PII_TYPES: PiiType[] = ['email', 'phone', 'card', 'ssn', 'iban', 'ip', 'address', 'name']
+
+export interface RedactionOptions {
+  // Types masked with patterns; 'name' has no pattern and is only found by the model
+  types: PiiType[]
+  useModel: boolean
+}
+
+export interface RedactionFinding {
+  type: PiiType
+  count: number
+  method: 'pattern' | 'model'
+}
+
+export interface RedactionResult {
+  text: string
+  findings: RedactionFinding[]
+}
+
+interface PiiPattern {
+  type: PiiType
+  pattern: RegExp
+  // Rejects look-alike matches, e.g. order numbers that fail the card checksum
+  isValid?: (match: string) => boolean
+}
+
+// Ordered so longer identifiers are masked before the shorter patterns could match parts of them
+const PII_PATTERNS: PiiPattern[] = [
+  {
+    type: 'email',
+    pattern: /[\p{L}\p{N}._%+-]+@[\p{L}\p{N}.-]+\.\p{L}{2,}/gu
+  },
+  {
+    type: 'iban',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g
+  },
+  {
+    type: 'card',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    isValid: passesLuhnCheck
+  },
+  {
+    type: 'ssn',
+    pattern: /\b\d{3}-\d{2}-\d{4}\b/g
+  },
+  {
+    type: 'ip',
+    // Not part of a longer dotted number, and not a version such as "Version 10.2.1.5"
+    pattern: /(?<!(?:version|ver|build|release|firmware)\s*)(?<![\d.])(?:(?:25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(?:25[0-5]|2[0-4]\d|1?\d?\d)(?![.\d])/gi
+  },
+  {
+    type: 'phone',
+    pattern: /(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){2,4}\b/g,
+    isValid: isLikelyPhoneNumber
+  },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}\s+(?:[\p{L}.'-]+\s+){1,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|calle|avenida|rua|rue|strasse|straße|via)\b\.?/giu
+  }
+]
+
+/**
+ * Masks personal information in the text with placeholders such as [EMAIL]
+ * @param provider Model used to find names and addresses when options.useModel is set
+ * @returns The masked text and the number of values masked per type, never the values themselves
+ */
+export async function redactPii(
+  text: string,
+  options: RedactionOptions,
+  provider?: LLMProvider
+): Promise<RedactionResult> {
+  const counts = new Map<string, RedactionFinding>()
+  const addFinding = (type: PiiType, method: RedactionFinding['method']) => {
+    const key = `${method}:${type}`
+    const finding = counts.get(key) ?? { type, count: 0, method }
+    finding.count++
+    counts.set(key, finding)
+  }
+
+  let redacted = text
+  for (const { type, pattern, isValid } of PII_PATTERNS) {
+    if (!options.types.includes(type)) {
+      continue
+    }
+    redacted = redacted.replace(pattern, match => {
+      if (isValid && !isValid(match)) {
+        return match
+      }
+      addFinding(type, 'pattern')
+      return toPlaceholder(type)
+    })
+  }
+
+  if (options.useModel && provider) {
+    for (const { type, value } of await detectPiiWithModel(redacted, options.types, provider)) {
+      const pattern = new RegExp(escapeRegExp(value), 'g')
+      redacted = redacted.replace(pattern, () => {
+        addFinding(type, 'model')
+        return toPlaceholder(type)
+      })
+    }
+  }
+
+  return { text: redacted, findings: [...counts.values()] }
+}
+
+/**
+ * Records how many values of each type were masked, never the values, for the owner's redaction report.
+ * Failures are logged rather than failing the request.
+ */
+export async function recordRedactions(
+  supabase: ReturnType<typeof createClient>,
+  findings: RedactionFinding[],
+  owner: { projectId: string, userId: string, conversationId: string | null }
+): Promise<void> {
+  if (findings.length === 0) {
+    return
+  }
+
+  const { error } = await supabase
+    .from('pii_redactions')
+    .insert(findings.map(finding => ({
+      project_id: owner.projectId,
+      user_id: owner.userId,
+      conversation_id: owner.conversationId,
+      pii_type: finding.type,
+      method: finding.method,
+      match_count: finding.count
+    })))
+
+  if (error) {
+    console.error('Error recording PII redactions:', error)
+  }
+}
+
+/**
+ * Asks the model for personal information the patterns cannot find
+ * @returns The values to mask, or none if the model fails
+ */
+async function detectPiiWithModel(
+  text: string,
+  types: PiiType[],
+  provider: LLMProvider
+): Promise<{ type: PiiType; value: string }[]> {
+  try {
+    const prompt = `Find personal information in the following message from a website visitor.
+
+MESSAGE:
+"""
+${text}
+"""
+
+Report every value of these types: ${types.join(', ')}. "name" means the name of a person, not of a product or company. Placeholders in square brackets such as [EMAIL] are already masked; ignore them.
+
+Respond with ONLY a JSON array of objects with "type" and "value" fields, where "value" is copied exactly from the message. Respond with [] if there is none.`
+
+    const responseText = await provider.generate(
+      [{ role: 'user', content: prompt }],
+      { temperature: 0, maxOutputTokens: 512, json: true, blockUnsafeContent: false }
+    )
+
+    const detected = JSON.parse(responseText)
+    if (!Array.isArray(detected)) {
+      return []
+    }
+
+    return detected
+      .filter(item => types.includes(item?.type) && typeof item.value === 'string' && item.value.trim().length > 1)
+      .map(item => ({ type: item.type as PiiType, value: item.value.trim() }))
+  } catch (error) {
+    console.error('Error detecting personal information with the model:', error)
+    return []
+  }
+}
+
+function toPlaceholder(type: PiiType): string {
+  return `[${type.toUpperCase()}]`
+}
+
+function passesLuhnCheck(match: string): boolean {
+  const digits = match.replace(/\D/g, '')
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) {
+        digit -= 9
+      }
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// Dates written with dashes or dots have the same shape as short phone numbers
+const DATE_PATTERN = /^(\d{4}[.-]\d{1,2}[.-]\d{1,2}|\d{1,2}[.-]\d{1,2}[.-]\d{2,4})$/
+
+/**
+ * Tells phone numbers from other numbers the phone pattern matches: dates, error codes, order numbers
+ */
+function isLikelyPhoneNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '')
+
+  // A country code or an area code in brackets is written only for phone numbers
+  if (match.startsWith('+')) {
+    return digits.length >= 8 && digits.length <= 15
+  }
+  if (match.includes('(')) {
+    return digits.length >= 7 && digits.length <= 11
+  }
+  if (DATE_PATTERN.test(match)) {
+    return false
+  }
+
+  // Without separators, only a national number with its leading 0; other digit runs are more often
+  // order or tracking numbers
+  const groups = match.split(/[ .-]/)
+  if (groups.length === 1) {
+    return match.startsWith('0') && digits.length >= 10 && digits.length <= 11
+  }
+
+  // Phone numbers end in a group of at least four digits (555-123-4567, 020 7946 0958), unlike runs of
+  // short codes such as "500 100 200"
+  return groups[groups.length - 1].length >= 4 && digits.length >= 7 && digits.length <= 11
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
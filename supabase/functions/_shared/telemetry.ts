@@ -0,0 +1,139 @@
+/**
+ * Per-request telemetry for chat-query, stored in chat_telemetry.
+ *
+ * Each request records how long its stages took, what retrieval found and what generation cost, so a bad
+ * or slow answer can be traced back to its cause. Stages are timed as they run and the row is written once,
+ * when the response is complete. Recording never fails the request: a failed insert is only logged.
+ *
+ * Stages:
+ *   token           Obtaining the model providers' access tokens (cached tokens make this near zero)
+ *   embedding       Embedding the visitor's query
+ *   search          Looking up the answer cache and searching the knowledge base
+ *   generation      Generating the answer, until its last token
+ *   classification  The smaller model calls around the answer: rewriting the query, detecting its language,
+ *                   translating it, and classifying and logging knowledge gaps
+ */
+
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+import type { TokenUsage } from "./providers.ts"
+
+export type TelemetryStage = 'token' | 'embedding' | 'search' | 'generation' | 'classification'
+
+// How the request ended, so cached answers and refusals can be told apart from generated answers.
+// rejected means the rate limit or plan quota turned the request away.
+export type TelemetryOutcome = 'answered' | 'cached' | 'intake' | 'handoff' | 'blocked' | 'stopped' | 'rejected' | 'error'
+
+export interface TelemetryContext {
+  projectId: string
+  userId: string
+  conversationId?: string | null
+  provider?: string | null
+  model?: string | null
+  searchMode?: string | null
+}
+
+export class TurnTelemetry {
+  private readonly startedAt = Date.now()
+  private readonly stageMs: Partial<Record<TelemetryStage, number>> = {}
+  private context: TelemetryContext | null = null
+  private supabase: ReturnType<typeof createClient> | null = null
+  private retrieval: { chunkCount: number, topSimilarity: number | null, meanSimilarity: number | null } | null = null
+  private usage: TokenUsage | null = null
+  private recorded = false
+
+  /**
+   * Sets where the row is written. Requests that fail before their project is known are not recorded.
+   */
+  attach(supabase: ReturnType<typeof createClient>, context: TelemetryContext) {
+    this.supabase = supabase
+    this.context = context
+  }
+
+  // Adds details learned as the request goes on, e.g. the conversation once it is created
+  update(context: Partial<TelemetryContext>) {
+    if (this.context) {
+      this.context = { ...this.context, ...context }
+    }
+  }
+
+  /**
+   * Runs a stage and adds its duration to the stage's total, including when it throws
+   */
+  async time<T>(stage: TelemetryStage, run: () => Promise<T>): Promise<T> {
+    const startedAt = Date.now()
+    try {
+      return await run()
+    } finally {
+      this.stageMs[stage] = (this.stageMs[stage] ?? 0) + Date.now() - startedAt
+    }
+  }
+
+  /**
+   * Records the chunks retrieved for the answer. Keyword-only hits have no similarity and are left out of it.
+   */
+  recordRetrieval(chunks: { similarity: number | null }[]) {
+    const similarities = chunks
+      .map(chunk => chunk.similarity)
+      .filter((similarity): similarity is number => typeof similarity === 'number')
+
+    this.retrieval = {
+      chunkCount: chunks.length,
+      topSimilarity: similarities.length > 0 ? Math.max(...similarities) : null,
+      meanSimilarity: similarities.length > 0
+        ? similarities.reduce((sum, similarity) => sum + similarity, 0) / similarities.length
+        : null
+    }
+  }
+
+  // Passed to the answer's generation call as options.onUsage
+  readonly recordUsage = (usage: TokenUsage) => {
+    this.usage = usage
+  }
+
+  /**
+   * Writes the request's row. Only the first call writes, so a late error cannot record the request twice.
+   */
+  async record(outcome: TelemetryOutcome, details: { messageId?: string | null, error?: unknown } = {}) {
+    if (this.recorded || !this.supabase || !this.context) {
+      return
+    }
+    this.recorded = true
+
+    const error = details.error instanceof Error
+      ? details.error.message
+      : details.error ? String(details.error) : null
+
+    try {
+      const { error: insertError } = await this.supabase
+        .from('chat_telemetry')
+        .insert({
+          project_id: this.context.projectId,
+          user_id: this.context.userId,
+          conversation_id: this.context.conversationId ?? null,
+          message_id: details.messageId ?? null,
+          outcome,
+          total_ms: Date.now() - this.startedAt,
+          token_ms: this.stageMs.token ?? null,
+          embedding_ms: this.stageMs.embedding ?? null,
+          search_ms: this.stageMs.search ?? null,
+          generation_ms: this.stageMs.generation ?? null,
+          classification_ms: this.stageMs.classification ?? null,
+          chunk_count: this.retrieval?.chunkCount ?? null,
+          top_similarity: this.retrieval?.topSimilarity ?? null,
+          mean_similarity: this.retrieval?.meanSimilarity ?? null,
+          prompt_tokens: this.usage?.promptTokens ?? null,
+          completion_tokens: this.usage?.completionTokens ?? null,
+          provider: this.context.provider ?? null,
+          model: this.context.model ?? null,
+          search_mode: this.context.searchMode ?? null,
+          error: error?.slice(0, 1000) ?? null
+        })
+
+      if (insertError) {
+        console.error('Error recording chat telemetry:', insertError)
+      }
+    } catch (insertError) {
+      console.error('Error recording chat telemetry:', insertError)
+    }
+  }
+}
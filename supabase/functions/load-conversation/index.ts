@@ -0,0 +1,89 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+
+/**
+ * Returns a visitor's conversation so the chat can show it again after a reload: the messages, including
+ * replies the owner sent while the visitor was away, and whether the bot or a person is answering.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Most recent messages returned, enough for any chat a visitor scrolls back through
+const MAX_TRANSCRIPT_MESSAGES = 200
+
+class TranscriptError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { conversationId } = await req.json()
+
+    if (!conversationId) {
+      throw new TranscriptError('conversationId is required', 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase credentials not found in environment')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // The conversation id is only known to the visitor who had the conversation
+    const { data: conversation, error: conversationError } = await supabase
+      .from('conversations')
+      .select('id, handoff_status')
+      .eq('id', conversationId)
+      .maybeSingle()
+
+    if (conversationError) {
+      throw conversationError
+    }
+    if (!conversation) {
+      throw new TranscriptError('Conversation not found', 404)
+    }
+
+    const { data: messages, error: messagesError } = await supabase
+      .from('messages')
+      .select('id, role, sender, content, citations, feedback, created_at')
+      .eq('conversation_id', conversation.id)
+      .order('created_at', { ascending: false })
+      .limit(MAX_TRANSCRIPT_MESSAGES)
+
+    if (messagesError) {
+      throw messagesError
+    }
+
+    return new Response(
+      JSON.stringify({
+        handoffStatus: conversation.handoff_status,
+        messages: (messages || []).reverse()
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Error loading conversation:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error instanceof TranscriptError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
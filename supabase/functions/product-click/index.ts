@@ -0,0 +1,133 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+
+/**
+ * Tracked redirect behind the buy buttons of product cards: counts the click, then sends the visitor
+ * on to the product's link. Browsers follow the link without an Authorization header, so JWT verification
+ * is turned off for this function in supabase/config.toml.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+class ProductClickError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Only web links are followed, so a stored link cannot run script in the visitor's browser
+ */
+function isWebUrl(link: string): boolean {
+  try {
+    const url = new URL(link)
+    return url.protocol === 'https:' || url.protocol === 'http:'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The conversation the click came from, if it still exists and belongs to the product's project.
+ * Links stay in visitors' browsers after a conversation is deleted, and the click is counted without it then.
+ */
+async function getClickConversationId(
+  supabase: ReturnType<typeof createClient>,
+  conversationId: string | null,
+  projectId: string
+): Promise<string | null> {
+  if (!conversationId || !UUID_PATTERN.test(conversationId)) {
+    return null
+  }
+
+  const { data, error } = await supabase
+    .from('conversations')
+    .select('id')
+    .eq('id', conversationId)
+    .eq('project_id', projectId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error looking up conversation of product click:', error)
+    return null
+  }
+
+  return data?.id ?? null
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const params = new URL(req.url).searchParams
+    const productId = params.get('product')
+    const conversationId = params.get('conversation')
+
+    if (!productId || !UUID_PATTERN.test(productId)) {
+      throw new ProductClickError('A valid product id is required', 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase credentials not found in environment')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    const { data: product, error: productError } = await supabase
+      .from('products')
+      .select('id, project_id, user_id, affiliate_link')
+      .eq('id', productId)
+      .maybeSingle()
+
+    if (productError) {
+      throw productError
+    }
+    if (!product || !product.affiliate_link || !isWebUrl(product.affiliate_link)) {
+      throw new ProductClickError('Product link not found', 404)
+    }
+
+    // The click is still followed if it cannot be counted
+    const { error: clickError } = await supabase
+      .from('product_events')
+      .insert({
+        project_id: product.project_id,
+        user_id: product.user_id,
+        product_id: product.id,
+        conversation_id: await getClickConversationId(supabase, conversationId, product.project_id),
+        event_type: 'click'
+      })
+
+    if (clickError) {
+      console.error('Error recording product click:', clickError)
+    }
+
+    return new Response(null, {
+      status: 302,
+      headers: {
+        ...corsHeaders,
+        'Location': product.affiliate_link,
+        'Cache-Control': 'no-store'
+      },
+    })
+  } catch (error) {
+    console.error('Error following product link:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error instanceof ProductClickError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,102 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+type HandoffStatus = 'bot' | 'requested' | 'human'
+
+type HandoffAction = 'request' | 'cancel'
+
+class HandoffError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Status the conversation moves to when the visitor asks for (or stops waiting for) a person.
+ * Once the owner has taken over, only the owner can hand the conversation back to the bot.
+ */
+function getNextStatus(current: HandoffStatus, action: HandoffAction): HandoffStatus {
+  if (action === 'request') {
+    return current === 'bot' ? 'requested' : current
+  }
+  return current === 'requested' ? 'bot' : current
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { conversationId, action = 'request' } = await req.json()
+
+    if (!conversationId) {
+      throw new HandoffError('conversationId is required', 400)
+    }
+    if (action !== 'request' && action !== 'cancel') {
+      throw new HandoffError('action must be "request" or "cancel"', 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase credentials not found in environment')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // The conversation id is only known to the visitor who had the conversation
+    const { data: conversation, error: conversationError } = await supabase
+      .from('conversations')
+      .select('id, handoff_status')
+      .eq('id', conversationId)
+      .maybeSingle()
+
+    if (conversationError) {
+      throw conversationError
+    }
+    if (!conversation) {
+      throw new HandoffError('Conversation not found', 404)
+    }
+
+    const handoffStatus = getNextStatus(conversation.handoff_status, action)
+
+    if (handoffStatus !== conversation.handoff_status) {
+      // The owner's dashboard is notified of the change through Realtime
+      const { error: updateError } = await supabase
+        .from('conversations')
+        .update({
+          handoff_status: handoffStatus,
+          ...(handoffStatus === 'requested' ? { handoff_requested_at: new Date().toISOString() } : {})
+        })
+        .eq('id', conversation.id)
+
+      if (updateError) {
+        throw updateError
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, handoffStatus }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Error updating handoff:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error instanceof HandoffError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,169 @@
+/**
+ * Runs a golden question set from a file against the fake provider, with no network and no database:
+ *
+ *   deno run --allow-read supabase/functions/run-evaluation/cli.ts golden.json [options]
+ *
+ * deno run does not type-check, so check changes to the shared pipeline with `npm run check:evaluation`.
+ *
+ * Options:
+ *   --search-mode vector|keyword|hybrid   Defaults to hybrid
+ *   --match-threshold <0.1-0.9>           Overrides the file's settings
+ *   --match-count <1-20>                  Overrides the file's settings, and so k
+ *   --json                                Prints the summary and results as JSON
+ *
+ * The file holds the knowledge base and the questions (see golden.example.json):
+ *   { "project": { "name", "description" }, "settings": { ...assistant settings },
+ *     "documents": [{ "source_id", "source_type", "title", "content" }],
+ *     "cases": [{ "question", "expected_source_ids", "expected_answer" }] }
+ *
+ * The fake provider embeds by hashing words, so retrieval scores reflect word overlap rather than meaning,
+ * and it answers by echoing the question. The run checks the pipeline and the scoring end to end; use the
+ * dashboard (run-evaluation) to measure a real model.
+ */
+
+import { FakeProvider } from '../_shared/providers.ts'
+import { applySettingBounds, DEFAULT_ASSISTANT_SETTINGS, SEARCH_MODES } from '../_shared/rag.ts'
+import type { AssistantSettings, SearchMode } from '../_shared/rag.ts'
+import { runEvaluation } from '../_shared/evaluation.ts'
+import type { CaseResult, GoldenCase } from '../_shared/evaluation.ts'
+import { createInMemoryKnowledgeBase } from './in-memory-search.ts'
+import type { GoldenDocument } from './in-memory-search.ts'
+
+interface GoldenFile {
+  project?: { name?: string, description?: string }
+  settings?: Partial<AssistantSettings>
+  documents: GoldenDocument[]
+  cases: GoldenCase[]
+}
+
+interface CliOptions {
+  file: string
+  searchMode: SearchMode
+  matchThreshold?: number
+  matchCount?: number
+  json: boolean
+}
+
+function parseArgs(args: string[]): CliOptions {
+  const options: Partial<CliOptions> = { searchMode: 'hybrid', json: false }
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i]
+    switch (arg) {
+      case '--search-mode':
+        options.searchMode = args[++i] as SearchMode
+        if (!SEARCH_MODES.includes(options.searchMode)) {
+          throw new Error(`--search-mode must be one of ${SEARCH_MODES.join(', ')}`)
+        }
+        break
+      case '--match-threshold':
+        options.matchThreshold = Number(args[++i])
+        break
+      case '--match-count':
+        options.matchCount = Number(args[++i])
+        break
+      case '--json':
+        options.json = true
+        break
+      default:
+        if (arg.startsWith('--')) {
+          throw new Error(`Unknown option: ${arg}`)
+        }
+        options.file = arg
+    }
+  }
+
+  if (!options.file) {
+    throw new Error('Usage: cli.ts <golden-set.json> [--search-mode hybrid] [--match-threshold 0.4] [--match-count 5] [--json]')
+  }
+  return options as CliOptions
+}
+
+function readGoldenFile(text: string): GoldenFile {
+  const golden = JSON.parse(text)
+  if (!Array.isArray(golden.documents) || !Array.isArray(golden.cases)) {
+    throw new Error('The golden set file needs "documents" and "cases" arrays')
+  }
+
+  return {
+    ...golden,
+    cases: golden.cases.map((goldenCase: Partial<GoldenCase>, index: number) => {
+      if (!goldenCase.question) {
+        throw new Error(`Case ${index + 1} has no question`)
+      }
+      return {
+        id: goldenCase.id ?? `case-${index + 1}`,
+        question: goldenCase.question,
+        expected_source_ids: goldenCase.expected_source_ids ?? [],
+        expected_answer: goldenCase.expected_answer ?? null
+      }
+    })
+  }
+}
+
+function formatScore(score: number | null): string {
+  return score === null ? '—' : score.toFixed(3)
+}
+
+function printResults(results: CaseResult[]) {
+  for (const result of results) {
+    console.log(`\n${result.case_id}: ${result.question}`)
+    if (result.error) {
+      console.log(`  error: ${result.error}`)
+      continue
+    }
+    console.log(`  retrieved:       ${result.retrieved_source_ids.join(', ') || '(nothing)'}`)
+    console.log(`  recall:          ${formatScore(result.recall)}`)
+    console.log(`  reciprocal rank: ${formatScore(result.reciprocal_rank)}`)
+    console.log(`  answer match:    ${formatScore(result.answer_match)}`)
+  }
+}
+
+async function main() {
+  const options = parseArgs(Deno.args)
+  const golden = readGoldenFile(await Deno.readTextFile(options.file))
+
+  const settings = applySettingBounds({
+    ...DEFAULT_ASSISTANT_SETTINGS,
+    ...golden.settings,
+    ...(options.matchThreshold !== undefined ? { match_threshold: options.matchThreshold } : {}),
+    ...(options.matchCount !== undefined ? { match_count: options.matchCount } : {})
+  })
+
+  const provider = new FakeProvider()
+  const knowledgeBase = await createInMemoryKnowledgeBase(golden.documents, provider)
+
+  const { summary, results } = await runEvaluation(golden.cases, {
+    supabase: knowledgeBase,
+    projectInfo: {
+      id: 'local',
+      name: golden.project?.name ?? 'Local project',
+      description: golden.project?.description ?? '',
+      plan: null
+    },
+    settings,
+    searchMode: options.searchMode,
+    provider,
+    embeddingProvider: provider
+  })
+
+  if (options.json) {
+    console.log(JSON.stringify({ summary, results }, null, 2))
+    return
+  }
+
+  printResults(results)
+  console.log(`\n${summary.case_count} questions, ${options.searchMode} search, threshold ${settings.match_threshold}`)
+  console.log(`  recall@${summary.k}:     ${formatScore(summary.recall_at_k)}`)
+  console.log(`  MRR:          ${formatScore(summary.mrr)}`)
+  console.log(`  answer match: ${formatScore(summary.answer_match)}`)
+}
+
+if (import.meta.main) {
+  try {
+    await main()
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error)
+    Deno.exit(1)
+  }
+}
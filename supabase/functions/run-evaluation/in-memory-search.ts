@@ -0,0 +1,136 @@
+import type { LLMProvider } from '../_shared/providers.ts'
+import type { SearchResult } from '../_shared/rag.ts'
+
+/**
+ * A knowledge base held in memory, answering the hybrid_search RPC the way the SQL function does, so the
+ * CLI can run searchSimilarContent without a database.
+ *
+ * Vector matches use cosine similarity. Keyword matches follow websearch_to_tsquery('simple', ...): every
+ * word of the query has to appear in the chunk, ranked by how often they do. This is close to, not the
+ * same as, Postgres' ts_rank_cd, so keyword scores from the CLI are only indicative.
+ */
+
+export interface GoldenDocument {
+  source_id: string
+  source_type?: string
+  title?: string
+  content: string
+}
+
+interface IndexedChunk {
+  id: string
+  document: GoldenDocument
+  embedding: number[]
+  words: string[]
+}
+
+interface HybridSearchParams {
+  query_text: string
+  query_embedding: number[] | null
+  search_mode: string
+  match_threshold: number
+  match_count: number
+}
+
+// Same constant as the rrf_k default of hybrid_search
+const RRF_K = 60
+
+function toWords(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+function keywordRank(queryWords: string[], chunk: IndexedChunk): number {
+  if (queryWords.length === 0 || !queryWords.every(word => chunk.words.includes(word))) {
+    return 0
+  }
+  const hits = chunk.words.filter(word => queryWords.includes(word)).length
+  return hits / chunk.words.length
+}
+
+/**
+ * Embeds every document as one chunk, the way generate-embedding stores them
+ */
+export async function createInMemoryKnowledgeBase(documents: GoldenDocument[], embeddingProvider: LLMProvider) {
+  const chunks: IndexedChunk[] = []
+  for (const [index, document] of documents.entries()) {
+    chunks.push({
+      id: `chunk-${index + 1}`,
+      document,
+      embedding: await embeddingProvider.embed(document.content, 'RETRIEVAL_DOCUMENT'),
+      words: toWords(document.content)
+    })
+  }
+
+  const hybridSearch = (params: HybridSearchParams): SearchResult[] => {
+    const { query_embedding: queryEmbedding, search_mode: searchMode, match_count: matchCount } = params
+    if (searchMode !== 'keyword' && !queryEmbedding) {
+      throw new Error(`query_embedding is required for ${searchMode} search`)
+    }
+
+    const queryWords = toWords(params.query_text)
+    const scored = chunks.map(chunk => ({
+      chunk,
+      similarity: queryEmbedding ? cosineSimilarity(queryEmbedding, chunk.embedding) : null,
+      keywordRank: keywordRank(queryWords, chunk)
+    }))
+
+    const vectorMatches = searchMode === 'keyword' ? [] : scored
+      .filter(item => item.similarity !== null && item.similarity > params.match_threshold)
+      .sort((a, b) => (b.similarity as number) - (a.similarity as number))
+      .slice(0, matchCount * 2)
+    const keywordMatches = searchMode === 'vector' ? [] : scored
+      .filter(item => item.keywordRank > 0)
+      .sort((a, b) => b.keywordRank - a.keywordRank)
+      .slice(0, matchCount * 2)
+
+    // Reciprocal rank fusion: each list contributes 1 / (k + rank)
+    const fused = new Map<string, { item: typeof scored[number], score: number }>()
+    for (const matches of [vectorMatches, keywordMatches]) {
+      matches.forEach((item, index) => {
+        const entry = fused.get(item.chunk.id) ?? { item, score: 0 }
+        entry.score += 1 / (RRF_K + index + 1)
+        fused.set(item.chunk.id, entry)
+      })
+    }
+
+    return [...fused.values()]
+      .sort((a, b) => b.score - a.score)
+      .slice(0, matchCount)
+      .map(({ item, score }) => ({
+        id: item.chunk.id,
+        content: item.chunk.document.content,
+        similarity: item.similarity,
+        keyword_rank: item.keywordRank,
+        score,
+        metadata: item.chunk.document.title ? { originalTitle: item.chunk.document.title } : null,
+        source_type: item.chunk.document.source_type ?? 'context',
+        source_id: item.chunk.document.source_id
+      }))
+  }
+
+  return {
+    // Stands in for the Supabase client in searchSimilarContent
+    async rpc(fn: string, params: Record<string, unknown>) {
+      if (fn !== 'hybrid_search') {
+        return { data: null, error: new Error(`${fn} is not available offline`) }
+      }
+      try {
+        return { data: hybridSearch(params as unknown as HybridSearchParams), error: null }
+      } catch (error) {
+        return { data: null, error }
+      }
+    }
+  }
+}
@@ -0,0 +1,216 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+import { createProvider, createEmbeddingProvider } from '../_shared/providers.ts'
+import { applySettingBounds, getAssistantSettings, SEARCH_MODES } from '../_shared/rag.ts'
+import type { AssistantSettings, SearchMode } from '../_shared/rag.ts'
+import { runEvaluation } from '../_shared/evaluation.ts'
+import type { GoldenCase } from '../_shared/evaluation.ts'
+
+/**
+ * Replays a project's golden question set through chat-query's retrieval and generation, scores it and
+ * stores the run (see _shared/evaluation.ts). Called by the project owner from the dashboard, with
+ * optional setting overrides to try e.g. another match threshold before saving it.
+ *
+ * For offline runs against a local file and the fake provider, see cli.ts.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+// Each case may make two model calls, and the whole run has to finish within one function invocation
+const MAX_EVAL_CASES = 50
+
+// Settings a run may override; the others always come from the project
+const OVERRIDABLE_SETTINGS = ['match_threshold', 'match_count', 'temperature', 'top_p', 'max_output_tokens'] as const
+
+type SettingOverrides = Partial<Pick<AssistantSettings, typeof OVERRIDABLE_SETTINGS[number]>>
+
+class EvaluationError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Settings a run used, stored with it so runs with different settings can be compared
+ */
+function getRunSettings(settings: AssistantSettings) {
+  return {
+    match_threshold: settings.match_threshold,
+    match_count: settings.match_count,
+    temperature: settings.temperature,
+    top_p: settings.top_p,
+    max_output_tokens: settings.max_output_tokens,
+    tone: settings.tone,
+    answer_length: settings.answer_length,
+    instructions: settings.instructions
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { setId, searchMode = 'hybrid', overrides = {} } = await req.json()
+
+    if (!setId) {
+      throw new EvaluationError('setId is required', 400)
+    }
+    if (!SEARCH_MODES.includes(searchMode)) {
+      throw new EvaluationError(`Invalid search mode: ${searchMode}. Expected one of ${SEARCH_MODES.join(', ')}`, 400)
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase credentials not found in environment')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // Only the owner of the set may run it
+    const accessToken = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+    const { data: { user } } = accessToken ? await supabase.auth.getUser(accessToken) : { data: { user: null } }
+    if (!user) {
+      throw new EvaluationError('Sign in to run evaluations', 401)
+    }
+
+    const { data: evalSet, error: setError } = await supabase
+      .from('eval_sets')
+      .select('id, project_id, user_id, projects(id, name, description, plan)')
+      .eq('id', setId)
+      .maybeSingle()
+
+    if (setError) {
+      throw setError
+    }
+    if (!evalSet || evalSet.user_id !== user.id || !evalSet.projects) {
+      throw new EvaluationError('Question set not found', 404)
+    }
+
+    const { data: cases, error: casesError } = await supabase
+      .from('eval_cases')
+      .select('id, question, expected_source_ids, expected_answer')
+      .eq('set_id', setId)
+      .order('created_at', { ascending: true })
+      .limit(MAX_EVAL_CASES + 1)
+
+    if (casesError) {
+      throw casesError
+    }
+    if (!cases || cases.length === 0) {
+      throw new EvaluationError('Add questions to the set before running it', 400)
+    }
+    if (cases.length > MAX_EVAL_CASES) {
+      throw new EvaluationError(`A set can be run with at most ${MAX_EVAL_CASES} questions`, 400)
+    }
+
+    const settingOverrides: SettingOverrides = {}
+    for (const key of OVERRIDABLE_SETTINGS) {
+      if (overrides[key] !== undefined && overrides[key] !== null) {
+        settingOverrides[key] = Number(overrides[key])
+      }
+    }
+    const settings = applySettingBounds({
+      ...await getAssistantSettings(supabase, evalSet.project_id),
+      ...settingOverrides
+    })
+
+    // Same providers as chat-query: the project's choice for generation, the deployment's for embeddings
+    const provider = createProvider({
+      provider: settings.llm_provider,
+      generationModel: settings.generation_model
+    })
+    const embeddingProvider = createEmbeddingProvider()
+
+    const { data: run, error: runError } = await supabase
+      .from('eval_runs')
+      .insert({
+        set_id: evalSet.id,
+        project_id: evalSet.project_id,
+        user_id: evalSet.user_id,
+        settings: getRunSettings(settings),
+        search_mode: searchMode,
+        provider: provider.name,
+        model: provider.generationModel,
+        k: settings.match_count,
+        case_count: cases.length
+      })
+      .select('id')
+      .single()
+
+    if (runError) {
+      throw runError
+    }
+
+    try {
+      const { summary, results } = await runEvaluation(cases as GoldenCase[], {
+        supabase,
+        projectInfo: evalSet.projects,
+        settings,
+        searchMode: searchMode as SearchMode,
+        provider,
+        embeddingProvider
+      })
+
+      const { error: resultsError } = await supabase
+        .from('eval_run_results')
+        .insert(results.map(result => ({
+          ...result,
+          run_id: run.id,
+          project_id: evalSet.project_id,
+          user_id: evalSet.user_id
+        })))
+
+      if (resultsError) {
+        throw resultsError
+      }
+
+      const { data: completedRun, error: updateError } = await supabase
+        .from('eval_runs')
+        .update({
+          status: 'completed',
+          recall_at_k: summary.recall_at_k,
+          mrr: summary.mrr,
+          answer_match: summary.answer_match,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', run.id)
+        .select('*')
+        .single()
+
+      if (updateError) {
+        throw updateError
+      }
+
+      return new Response(
+        JSON.stringify({ run: completedRun, results }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    } catch (error) {
+      // Keep the failed run in the history, so the owner sees it did not complete
+      await supabase
+        .from('eval_runs')
+        .update({ status: 'failed', error: error.message, completed_at: new Date().toISOString() })
+        .eq('id', run.id)
+      throw error
+    }
+  } catch (error) {
+    console.error('Error running evaluation:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error instanceof EvaluationError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,301 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts'
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.39.0"
+import { createProvider } from '../_shared/providers.ts'
+import type { LLMProvider } from '../_shared/providers.ts'
+import { getAssistantSettings } from '../_shared/rag.ts'
+import { recordRedactions, redactPii } from '../_shared/redaction.ts'
+import type { RedactionFinding } from '../_shared/redaction.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+}
+
+interface RatedMessage {
+  id: string
+  conversation_id: string
+  project_id: string
+  user_id: string
+  content: string
+  created_at: string
+  retrieved_chunks: {
+    content: string
+    similarity: number | null
+    source_type: string | null
+    title: string | null
+  }[]
+  feedback_inquiry_id: string | null
+}
+
+const FEEDBACK_TAGS = ['negative-feedback', 'needs-review']
+const MAX_COMMENT_LENGTH = 1000
+
+class FeedbackError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+  }
+}
+
+/**
+ * Finds the visitor question the rated answer replied to
+ */
+async function getAnsweredQuestion(
+  supabase: ReturnType<typeof createClient>,
+  message: RatedMessage
+): Promise<string> {
+  const { data } = await supabase
+    .from('messages')
+    .select('content')
+    .eq('conversation_id', message.conversation_id)
+    .eq('role', 'user')
+    .lt('created_at', message.created_at)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return data?.content || 'Unknown question'
+}
+
+/**
+ * Masks personal information in the visitor's question and comment with the project's redaction settings,
+ * the same way chat-query does for knowledge gaps, so neither is stored in the inquiry unmasked
+ */
+async function redactFeedback(
+  supabase: ReturnType<typeof createClient>,
+  message: RatedMessage,
+  question: string,
+  comment: string | null
+): Promise<{ question: string; comment: string | null }> {
+  const settings = await getAssistantSettings(supabase, message.project_id)
+  if (!settings.pii_redaction_enabled) {
+    return { question, comment }
+  }
+
+  // The model pass is optional and fails open, like the redaction itself
+  let provider: LLMProvider | undefined
+  if (settings.pii_model_detection) {
+    try {
+      provider = createProvider({ provider: settings.llm_provider, generationModel: settings.generation_model })
+    } catch (error) {
+      console.error('Error creating provider for PII detection, using patterns only:', error)
+    }
+  }
+
+  const options = { types: settings.pii_redaction_types, useModel: settings.pii_model_detection }
+  const findings: RedactionFinding[] = []
+
+  const redactedQuestion = await redactPii(question, options, provider)
+  findings.push(...redactedQuestion.findings)
+
+  let redactedComment = comment
+  if (comment) {
+    const result = await redactPii(comment, options, provider)
+    findings.push(...result.findings)
+    redactedComment = result.text
+  }
+
+  await recordRedactions(supabase, findings, {
+    projectId: message.project_id,
+    userId: message.user_id,
+    conversationId: message.conversation_id
+  })
+
+  return { question: redactedQuestion.text, comment: redactedComment }
+}
+
+const feedbackMarker = (messageId: string) => `--- Feedback on answer ${messageId} ---`
+
+/**
+ * Formats the question, the rejected answer and what was retrieved for it, for the owner to review
+ */
+function buildFeedbackSection(question: string, message: RatedMessage, comment: string | null): string {
+  const chunks = message.retrieved_chunks.length > 0
+    ? message.retrieved_chunks.map((chunk, index) => {
+        const source = [chunk.source_type?.toUpperCase(), chunk.title].filter(Boolean).join(' - ')
+        const match = chunk.similarity === null ? 'keyword match' : `${Math.round(chunk.similarity * 100)}% match`
+        return `[${index + 1}] ${source ? `${source} ` : ''}(${match})\n${chunk.content}`
+      }).join('\n\n')
+    : 'No knowledge base content was retrieved for this question.'
+
+  return [
+    feedbackMarker(message.id),
+    `Question:\n${question}`,
+    `Answer rated not helpful:\n${message.content}`,
+    `Visitor comment:\n${comment || 'No comment left.'}`,
+    `Retrieved chunks:\n${chunks}`
+  ].join('\n\n')
+}
+
+/**
+ * Replaces this answer's section of an inquiry, or appends it when another answer opened the inquiry
+ */
+function mergeFeedbackSection(existingContent: string | null, messageId: string, section: string): string {
+  const sections = (existingContent || '').split(/\n\n(?=--- Feedback on answer )/).filter(Boolean)
+  const index = sections.findIndex(existing => existing.startsWith(feedbackMarker(messageId)))
+
+  if (index >= 0) {
+    sections[index] = section
+  } else {
+    sections.push(section)
+  }
+
+  return sections.join('\n\n')
+}
+
+/**
+ * Opens an inquiry for a thumbs-down, or updates the one already opened for this answer or question
+ * @returns The inquiry id
+ */
+async function openFeedbackInquiry(
+  supabase: ReturnType<typeof createClient>,
+  message: RatedMessage,
+  comment: string | null
+): Promise<string> {
+  const { question, comment: redactedComment } = await redactFeedback(
+    supabase,
+    message,
+    await getAnsweredQuestion(supabase, message),
+    comment
+  )
+  const section = buildFeedbackSection(question, message, redactedComment)
+
+  let existing: { id: string; content: string | null } | null = null
+
+  if (message.feedback_inquiry_id) {
+    const { data } = await supabase
+      .from('inquiries')
+      .select('id, content')
+      .eq('id', message.feedback_inquiry_id)
+      .maybeSingle()
+
+    existing = data
+  }
+
+  // Another visitor may already have rejected an answer to the same question
+  if (!existing) {
+    const { data } = await supabase
+      .from('inquiries')
+      .select('id, content')
+      .eq('project_id', message.project_id)
+      .eq('description', question)
+      .eq('status', 'open')
+      .contains('tags', ['negative-feedback'])
+      .limit(1)
+      .maybeSingle()
+
+    existing = data
+  }
+
+  if (existing) {
+    const { error } = await supabase
+      .from('inquiries')
+      .update({ content: mergeFeedbackSection(existing.content, message.id, section) })
+      .eq('id', existing.id)
+
+    if (error) {
+      throw error
+    }
+
+    return existing.id
+  }
+
+  const { data, error } = await supabase
+    .from('inquiries')
+    .insert({
+      title: `Negative Feedback: ${question.length > 27 ? `${question.substring(0, 24)}...` : question}`,
+      description: question,
+      content: section,
+      tags: FEEDBACK_TAGS,
+      user_id: message.user_id,
+      project_id: message.project_id
+    })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw error
+  }
+
+  return data.id
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const { conversationId, messageId, feedback, comment } = await req.json()
+
+    if (!conversationId || !messageId) {
+      throw new FeedbackError('conversationId and messageId are required', 400)
+    }
+    if (feedback !== 'positive' && feedback !== 'negative') {
+      throw new FeedbackError('feedback must be "positive" or "negative"', 400)
+    }
+
+    const trimmedComment = typeof comment === 'string' && comment.trim()
+      ? comment.trim().slice(0, MAX_COMMENT_LENGTH)
+      : null
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      throw new Error('Supabase credentials not found in environment')
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey)
+
+    // The conversation id is only known to the visitor who had the conversation
+    const { data: message, error: messageError } = await supabase
+      .from('messages')
+      .select('id, conversation_id, project_id, user_id, content, created_at, retrieved_chunks, feedback_inquiry_id')
+      .eq('id', messageId)
+      .eq('conversation_id', conversationId)
+      .eq('role', 'assistant')
+      .maybeSingle()
+
+    if (messageError) {
+      throw messageError
+    }
+    if (!message) {
+      throw new FeedbackError('Message not found', 404)
+    }
+
+    const inquiryId = feedback === 'negative'
+      ? await openFeedbackInquiry(supabase, message, trimmedComment)
+      : message.feedback_inquiry_id
+
+    const { error: updateError } = await supabase
+      .from('messages')
+      .update({
+        feedback,
+        feedback_comment: trimmedComment,
+        feedback_at: new Date().toISOString(),
+        feedback_inquiry_id: inquiryId
+      })
+      .eq('id', message.id)
+
+    if (updateError) {
+      throw updateError
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, feedback }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  } catch (error) {
+    console.error('Error submitting feedback:', error)
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        status: error instanceof FeedbackError ? error.status : 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
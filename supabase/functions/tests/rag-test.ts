@@ -0,0 +1,48 @@
+/**
+ * deno test supabase/functions/tests
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { applySettingBounds, DEFAULT_ASSISTANT_SETTINGS, mergeSearchResults, type SearchResult } from '../_shared/rag.ts'
+
+const withModel = (llm_provider: 'vertex' | 'gemini' | 'openai' | null, generation_model: string) =>
+  applySettingBounds({ ...DEFAULT_ASSISTANT_SETTINGS, llm_provider, generation_model }).generation_model
+
+Deno.test('applySettingBounds keeps supported models of the chosen provider', () => {
+  assertEquals(withModel('vertex', 'gemini-2.0-flash-001'), 'gemini-2.0-flash-001')
+  assertEquals(withModel('openai', 'gpt-4o-mini'), 'gpt-4o-mini')
+})
+
+Deno.test('applySettingBounds drops unknown models and models without a provider', () => {
+  for (const [provider, model] of [
+    ['vertex', 'gemini-1.5-pro-002'],
+    ['vertex', '../../other-project/models/gemini-2.0-flash-001'],
+    ['gemini', 'gemini-2.0-flash-001:streamGenerateContent?alt=sse'],
+    ['openai', 'gemini-2.0-flash-001'],
+    [null, 'gemini-2.0-flash-001']
+  ] as const) {
+    assertEquals(withModel(provider, model), null, `kept ${provider} ${model}`)
+  }
+})
+
+function result(id: string, score: number, similarity: number | null, keywordRank = 0): SearchResult {
+  return { id, content: id, similarity, keyword_rank: keywordRank, score, metadata: null, source_type: null, source_id: null }
+}
+
+Deno.test('mergeSearchResults keeps each chunk once with its best match across queries', () => {
+  const original = [result('a', 0.4, 0.4), result('b', 0.7, null, 0.7)]
+  const translated = [result('a', 0.9, 0.9), result('c', 0.5, 0.5)]
+
+  const merged = mergeSearchResults([original, translated], 10)
+
+  assertEquals(merged.map(item => item.id), ['a', 'b', 'c'])
+  assertEquals(merged[0].score, 0.9)
+  assertEquals(merged[0].similarity, 0.9)
+  assertEquals(merged[1].similarity, null)
+})
+
+Deno.test('mergeSearchResults limits the merged results', () => {
+  const merged = mergeSearchResults([[result('a', 0.2, 0.2), result('b', 0.8, 0.8)], [result('c', 0.5, 0.5)]], 2)
+
+  assertEquals(merged.map(item => item.id), ['b', 'c'])
+})
@@ -0,0 +1,36 @@
+/**
+ * deno test supabase/functions/tests
+ */
+
+import { assertEquals } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { PII_TYPES, redactPii } from '../_shared/redaction.ts'
+
+const redact = async (text: string) => (await redactPii(text, { types: PII_TYPES, useModel: false })).text
+
+Deno.test('redactPii masks identifiers', async () => {
+  assertEquals(await redact('Mail me at jane.doe@example.com'), 'Mail me at [EMAIL]')
+  assertEquals(await redact('Call +1 555 123 4567 today'), 'Call [PHONE] today')
+  assertEquals(await redact('Call (555) 123-4567 today'), 'Call [PHONE] today')
+  assertEquals(await redact('My number is 555-123-4567'), 'My number is [PHONE]')
+  assertEquals(await redact('Ring 020 7946 0958'), 'Ring [PHONE]')
+  assertEquals(await redact('Ring 07946095812'), 'Ring [PHONE]')
+  assertEquals(await redact('Card 4111 1111 1111 1111'), 'Card [CARD]')
+  assertEquals(await redact('My IP is 192.168.1.20'), 'My IP is [IP]')
+})
+
+Deno.test('redactPii leaves dates, codes and versions alone', async () => {
+  for (const text of [
+    'I placed an order from 2024-01-15',
+    'Error code 500 100 200 when paying',
+    'It arrived on 12.03.2024',
+    'Version 10.2.1.5 crashes on start',
+    'Order 12345678 has not arrived'
+  ]) {
+    assertEquals(await redact(text), text)
+  }
+})
+
+Deno.test('redactPii counts values without keeping them', async () => {
+  const { findings } = await redactPii('a@b.co and c@d.co', { types: ['email'], useModel: false })
+  assertEquals(findings, [{ type: 'email', count: 2, method: 'pattern' }])
+})
@@ -0,0 +1,129 @@
+/*
+  # Add hybrid (vector + full-text) search over embeddings
+
+  1. Changes
+    - Add a generated `content_tsv` tsvector column to `embeddings` built from the chunk content and its source title
+    - Add a GIN index on `content_tsv` for fast full-text matching
+    - Uses the `simple` text search configuration so product names, SKUs and error codes are kept as-is (no stemming or stopword removal)
+
+  2. Functions
+    - Create `hybrid_search`, which supports three modes:
+      - `vector`: cosine similarity only (same ranking as `similarity_search`)
+      - `keyword`: full-text match only, no embedding required
+      - `hybrid`: both rankings combined with reciprocal rank fusion (RRF)
+    - `similarity_search` is left unchanged for existing callers
+*/
+
+-- 1. Full-text search column and index
+ALTER TABLE embeddings
+  ADD COLUMN IF NOT EXISTS content_tsv tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('simple', coalesce(metadata->>'originalTitle', '') || ' ' || coalesce(content, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS embeddings_content_tsv_idx ON embeddings USING gin (content_tsv);
+
+-- 2. Hybrid search function
+CREATE OR REPLACE FUNCTION hybrid_search(
+  query_text text,
+  query_embedding vector(768) DEFAULT NULL,
+  search_mode text DEFAULT 'hybrid',
+  match_threshold float DEFAULT 0.4,
+  match_count int DEFAULT 10,
+  filter_project_id uuid DEFAULT NULL,
+  filter_user_id uuid DEFAULT NULL,
+  rrf_k int DEFAULT 60
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  similarity float,
+  keyword_rank float,
+  score float,
+  metadata jsonb,
+  source_type text,
+  source_id uuid
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF search_mode NOT IN ('vector', 'keyword', 'hybrid') THEN
+    RAISE EXCEPTION 'Unknown search_mode: %', search_mode;
+  END IF;
+
+  IF search_mode <> 'keyword' AND query_embedding IS NULL THEN
+    RAISE EXCEPTION 'query_embedding is required for % search', search_mode;
+  END IF;
+
+  RETURN QUERY
+  WITH vector_matches AS (
+    SELECT
+      e.id AS match_id,
+      row_number() OVER (ORDER BY e.embedding <=> query_embedding) AS match_rank
+    FROM embeddings e
+    WHERE
+      search_mode <> 'keyword'
+      AND (filter_project_id IS NULL OR e.project_id = filter_project_id)
+      AND (filter_user_id IS NULL OR e.user_id = filter_user_id)
+      AND 1 - (e.embedding <=> query_embedding) > match_threshold
+    ORDER BY e.embedding <=> query_embedding
+    LIMIT match_count * 2
+  ),
+  keyword_matches AS (
+    SELECT
+      e.id AS match_id,
+      row_number() OVER (ORDER BY ts_rank_cd(e.content_tsv, q.tsq) DESC) AS match_rank
+    FROM embeddings e, websearch_to_tsquery('simple', query_text) AS q(tsq)
+    WHERE
+      search_mode <> 'vector'
+      AND (filter_project_id IS NULL OR e.project_id = filter_project_id)
+      AND (filter_user_id IS NULL OR e.user_id = filter_user_id)
+      AND e.content_tsv @@ q.tsq
+    ORDER BY ts_rank_cd(e.content_tsv, q.tsq) DESC
+    LIMIT match_count * 2
+  ),
+  -- Reciprocal rank fusion: each list contributes 1 / (k + rank)
+  fused AS (
+    SELECT
+      coalesce(v.match_id, k.match_id) AS match_id,
+      coalesce(1.0 / (rrf_k + v.match_rank), 0.0) + coalesce(1.0 / (rrf_k + k.match_rank), 0.0) AS fused_score
+    FROM vector_matches v
+    FULL OUTER JOIN keyword_matches k ON v.match_id = k.match_id
+  )
+  SELECT
+    e.id,
+    e.content,
+    CASE
+      WHEN query_embedding IS NULL THEN NULL
+      ELSE 1 - (e.embedding <=> query_embedding)
+    END::float AS similarity,
+    ts_rank_cd(e.content_tsv, websearch_to_tsquery('simple', query_text))::float AS keyword_rank,
+    f.fused_score::float AS score,
+    e.metadata,
+    e.source_type,
+    e.source_id
+  FROM fused f
+  JOIN embeddings e ON e.id = f.match_id
+  ORDER BY f.fused_score DESC
+  LIMIT match_count;
+END;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'embeddings' AND column_name = 'content_tsv'
+  ) THEN
+    RAISE NOTICE 'embeddings.content_tsv column: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'embeddings.content_tsv column: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'hybrid_search') THEN
+    RAISE NOTICE 'hybrid_search function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'hybrid_search function: ❌ NOT CREATED';
+  END IF;
+END $$;
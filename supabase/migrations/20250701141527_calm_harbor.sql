@@ -0,0 +1,75 @@
+/*
+  # Add per-project assistant settings
+
+  1. New Tables
+    - `project_settings`
+      - `project_id` (uuid, primary key, references projects)
+      - `user_id` (uuid, references auth.users)
+      - `assistant_name` (text) - name the assistant introduces itself with
+      - `instructions` (text) - owner's own instructions added to the system prompt
+      - `tone` (text) - friendly, professional, casual or formal
+      - `banned_topics` (text[]) - topics the assistant must decline to discuss
+      - `fallback_message` (text) - wording used when the knowledge base has no answer
+      - `answer_length` (text) - short, medium or detailed
+      - `created_at`, `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on `project_settings`
+    - Owners can view, create, update and delete settings for their own projects
+    - Settings are kept out of `projects` so public project pages cannot read the owner's prompt;
+      chat-query reads them with the service role
+*/
+
+CREATE TABLE IF NOT EXISTS project_settings (
+  project_id uuid PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  assistant_name text,
+  instructions text,
+  tone text NOT NULL DEFAULT 'friendly' CHECK (tone IN ('friendly', 'professional', 'casual', 'formal')),
+  banned_topics text[] NOT NULL DEFAULT '{}',
+  fallback_message text,
+  answer_length text NOT NULL DEFAULT 'medium' CHECK (answer_length IN ('short', 'medium', 'detailed')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS project_settings_user_id_idx ON project_settings(user_id);
+
+-- Enable RLS on project_settings table
+ALTER TABLE project_settings ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for project_settings
+CREATE POLICY "Users can create own project settings"
+  ON project_settings FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view own project settings"
+  ON project_settings FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own project settings"
+  ON project_settings FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own project settings"
+  ON project_settings FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_project_settings_updated_at
+  BEFORE UPDATE ON project_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'project_settings') THEN
+    RAISE NOTICE 'project_settings table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'project_settings table: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,35 @@
+/*
+  # Add generation and retrieval parameters to project settings
+
+  1. Changes
+    - Add to `project_settings`:
+      - `temperature` (real, 0 - 1, default 0.2)
+      - `top_p` (real, 0.1 - 1, default 0.8)
+      - `max_output_tokens` (integer, 128 - 2048, default 1024)
+      - `match_threshold` (real, 0.1 - 0.9, default 0.4) - minimum similarity for retrieved chunks
+      - `match_count` (integer, 1 - 20, default 5) - number of chunks passed to the model
+      - `gap_cutoff` (real, 0.1 - 0.9, default 0.5) - best similarity below which a question is logged as a knowledge gap
+    - Defaults match the values chat-query used before they were configurable
+    - chat-query clamps the same bounds again before applying them
+*/
+
+ALTER TABLE project_settings
+  ADD COLUMN IF NOT EXISTS temperature real NOT NULL DEFAULT 0.2 CHECK (temperature BETWEEN 0 AND 1),
+  ADD COLUMN IF NOT EXISTS top_p real NOT NULL DEFAULT 0.8 CHECK (top_p BETWEEN 0.1 AND 1),
+  ADD COLUMN IF NOT EXISTS max_output_tokens integer NOT NULL DEFAULT 1024 CHECK (max_output_tokens BETWEEN 128 AND 2048),
+  ADD COLUMN IF NOT EXISTS match_threshold real NOT NULL DEFAULT 0.4 CHECK (match_threshold BETWEEN 0.1 AND 0.9),
+  ADD COLUMN IF NOT EXISTS match_count integer NOT NULL DEFAULT 5 CHECK (match_count BETWEEN 1 AND 20),
+  ADD COLUMN IF NOT EXISTS gap_cutoff real NOT NULL DEFAULT 0.5 CHECK (gap_cutoff BETWEEN 0.1 AND 0.9);
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_settings' AND column_name = 'gap_cutoff'
+  ) THEN
+    RAISE NOTICE 'project_settings generation parameters: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'project_settings generation parameters: ❌ NOT ADDED';
+  END IF;
+END $$;
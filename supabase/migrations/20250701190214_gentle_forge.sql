@@ -0,0 +1,28 @@
+/*
+  # Add LLM provider selection to project settings
+
+  1. Changes
+    - Add to `project_settings`:
+      - `llm_provider` (text, nullable) - vertex, gemini or openai; null uses the deployment default (LLM_PROVIDER)
+      - `generation_model` (text, nullable) - model name for that provider; null uses the provider's default
+    - Only generation is configurable per project. Embeddings always use the deployment-wide provider
+      so that every stored vector comes from the same model.
+    - The `fake` provider is for tests and can only be selected through the environment
+*/
+
+ALTER TABLE project_settings
+  ADD COLUMN IF NOT EXISTS llm_provider text CHECK (llm_provider IN ('vertex', 'gemini', 'openai')),
+  ADD COLUMN IF NOT EXISTS generation_model text;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_settings' AND column_name = 'llm_provider'
+  ) THEN
+    RAISE NOTICE 'project_settings provider columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'project_settings provider columns: ❌ NOT ADDED';
+  END IF;
+END $$;
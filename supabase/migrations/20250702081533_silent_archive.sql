@@ -0,0 +1,114 @@
+/*
+  # Add persistent conversations and messages
+
+  1. New Tables
+    - `conversations`
+      - `id` (uuid, primary key) - sent by the chat client to continue a conversation
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner, for RLS
+      - `created_at`, `updated_at`, `last_message_at` (timestamptz)
+    - `messages`
+      - `id` (uuid, primary key)
+      - `conversation_id` (uuid, references conversations)
+      - `project_id`, `user_id` (uuid) - denormalized from the conversation for RLS and filtering
+      - `role` (text) - user or assistant
+      - `content` (text)
+      - `rewritten_query` (text) - standalone query used for retrieval (user turns)
+      - `context_ids` (uuid[]) - embeddings retrieved for the turn (assistant turns)
+      - `citations` (jsonb) - sources the answer cited
+      - `latency_ms` (integer) - time from request to the end of the answer
+      - `knowledge_gap` (boolean), `knowledge_gap_type` (text) - whether the turn was logged as a gap
+      - `created_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on both tables
+    - Project owners can view and delete the conversations and messages of their own projects
+    - Only the service role (chat-query) creates conversations and messages
+*/
+
+CREATE TABLE IF NOT EXISTS conversations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  last_message_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS messages (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  conversation_id uuid NOT NULL REFERENCES conversations(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role text NOT NULL CHECK (role IN ('user', 'assistant')),
+  content text NOT NULL,
+  rewritten_query text,
+  context_ids uuid[] NOT NULL DEFAULT '{}',
+  citations jsonb NOT NULL DEFAULT '[]',
+  latency_ms integer,
+  knowledge_gap boolean NOT NULL DEFAULT false,
+  knowledge_gap_type text CHECK (knowledge_gap_type IN ('issue', 'inquiry')),
+  created_at timestamptz DEFAULT now()
+);
+
+-- Create indexes for filtering
+CREATE INDEX IF NOT EXISTS conversations_project_id_idx ON conversations(project_id, last_message_at DESC);
+CREATE INDEX IF NOT EXISTS conversations_user_id_idx ON conversations(user_id);
+CREATE INDEX IF NOT EXISTS messages_conversation_id_idx ON messages(conversation_id, created_at);
+CREATE INDEX IF NOT EXISTS messages_project_id_idx ON messages(project_id);
+
+-- Enable RLS
+ALTER TABLE conversations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE messages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for conversations
+CREATE POLICY "Users can view own conversations"
+  ON conversations FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own conversations"
+  ON conversations FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can create conversations for users"
+  ON conversations FOR INSERT TO service_role
+  WITH CHECK (true);
+
+CREATE POLICY "Service can update conversations for users"
+  ON conversations FOR UPDATE TO service_role
+  USING (true);
+
+-- Create RLS policies for messages
+CREATE POLICY "Users can view own messages"
+  ON messages FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own messages"
+  ON messages FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can create messages for users"
+  ON messages FOR INSERT TO service_role
+  WITH CHECK (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_conversations_updated_at
+  BEFORE UPDATE ON conversations
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'conversations') THEN
+    RAISE NOTICE 'conversations table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'conversations table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'messages') THEN
+    RAISE NOTICE 'messages table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'messages table: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,35 @@
+/*
+  # Add transcript details to messages for the conversation inbox
+
+  1. Changes
+    - Add to `messages`:
+      - `retrieved_chunks` (jsonb) - snapshot of the chunks retrieved for an assistant turn
+        (id, content, similarity, keyword_rank, source_type, source_id, title). Stored as a copy because
+        embeddings are replaced whenever their source item is edited.
+      - `feedback` (text, nullable) - positive or negative, as rated by the visitor
+      - `feedback_comment` (text, nullable) - optional comment left with the rating
+    - Index assistant turns with feedback so the inbox can filter on it
+
+  2. Security
+    - Existing policies apply; only the service role writes messages
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS retrieved_chunks jsonb NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS feedback text CHECK (feedback IN ('positive', 'negative')),
+  ADD COLUMN IF NOT EXISTS feedback_comment text;
+
+CREATE INDEX IF NOT EXISTS messages_feedback_idx ON messages(project_id, feedback) WHERE feedback IS NOT NULL;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'retrieved_chunks'
+  ) THEN
+    RAISE NOTICE 'messages transcript columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'messages transcript columns: ❌ NOT ADDED';
+  END IF;
+END $$;
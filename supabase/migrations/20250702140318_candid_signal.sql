@@ -0,0 +1,34 @@
+/*
+  # Link answer feedback to the inquiries it opens
+
+  1. Changes
+    - Add to `messages`:
+      - `feedback_at` (timestamptz, nullable) - when the visitor last rated the answer
+      - `feedback_inquiry_id` (uuid, nullable, references inquiries) - inquiry opened by a thumbs-down,
+        so a changed comment updates the same inquiry instead of opening another one
+    - Inquiries opened from feedback are tagged `negative-feedback`
+
+  2. Security
+    - Allow the service role (submit-feedback) to update messages
+*/
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS feedback_at timestamptz,
+  ADD COLUMN IF NOT EXISTS feedback_inquiry_id uuid REFERENCES inquiries(id) ON DELETE SET NULL;
+
+CREATE POLICY "Service can update messages for users"
+  ON messages FOR UPDATE TO service_role
+  USING (true);
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'feedback_inquiry_id'
+  ) THEN
+    RAISE NOTICE 'messages feedback columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'messages feedback columns: ❌ NOT ADDED';
+  END IF;
+END $$;
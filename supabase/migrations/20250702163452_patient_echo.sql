@@ -0,0 +1,145 @@
+/*
+  # Deduplicate knowledge gaps by semantic similarity
+
+  1. Changes
+    - Add to `issues` and `inquiries`:
+      - `report_count` (integer) - how many visitor questions this gap stands for
+      - `phrasings` (text[]) - other ways visitors asked the same question
+      - `gap_embedding` (vector(768), nullable) - embedding of the question that opened the gap
+      - `last_reported_at` (timestamptz) - when the gap was last asked about
+    - `match_knowledge_gap` finds the closest open gap of a project across issues and inquiries
+    - `add_knowledge_gap_report` counts another report of a gap and records its phrasing
+
+  2. Notes
+    - Only gaps logged by chat-query have an embedding, so gaps entered by hand are never merged into
+    - Resolved and closed issues are not matched; a repeat question opens a new gap
+*/
+
+ALTER TABLE issues
+  ADD COLUMN IF NOT EXISTS report_count integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS phrasings text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS gap_embedding vector(768),
+  ADD COLUMN IF NOT EXISTS last_reported_at timestamptz DEFAULT now();
+
+ALTER TABLE inquiries
+  ADD COLUMN IF NOT EXISTS report_count integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS phrasings text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS gap_embedding vector(768),
+  ADD COLUMN IF NOT EXISTS last_reported_at timestamptz DEFAULT now();
+
+-- Find the closest open knowledge gap to a question
+CREATE OR REPLACE FUNCTION match_knowledge_gap(
+  query_embedding vector(768),
+  filter_project_id uuid,
+  match_threshold float DEFAULT 0.85
+)
+RETURNS TABLE (
+  id uuid,
+  gap_type text,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT gaps.id, gaps.gap_type, gaps.similarity
+  FROM (
+    SELECT
+      i.id,
+      'issue'::text AS gap_type,
+      (1 - (i.gap_embedding <=> query_embedding))::float AS similarity
+    FROM issues i
+    WHERE
+      i.project_id = filter_project_id
+      AND i.gap_embedding IS NOT NULL
+      AND i.status IN ('open', 'in-progress')
+    UNION ALL
+    SELECT
+      q.id,
+      'inquiry'::text AS gap_type,
+      (1 - (q.gap_embedding <=> query_embedding))::float AS similarity
+    FROM inquiries q
+    WHERE
+      q.project_id = filter_project_id
+      AND q.gap_embedding IS NOT NULL
+  ) AS gaps
+  WHERE gaps.similarity > match_threshold
+  ORDER BY gaps.similarity DESC
+  LIMIT 1;
+END;
+$$;
+
+-- Count another report of a gap, keeping new phrasings of the question
+CREATE OR REPLACE FUNCTION add_knowledge_gap_report(
+  gap_type text,
+  gap_id uuid,
+  phrasing text,
+  max_phrasings int DEFAULT 20
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  IF gap_type = 'issue' THEN
+    UPDATE issues SET
+      report_count = issues.report_count + 1,
+      last_reported_at = now(),
+      phrasings = CASE
+        WHEN lower(phrasing) = lower(coalesce(issues.description, ''))
+          OR lower(phrasing) IN (SELECT lower(p) FROM unnest(issues.phrasings) AS p)
+          OR cardinality(issues.phrasings) >= max_phrasings
+        THEN issues.phrasings
+        ELSE array_append(issues.phrasings, phrasing)
+      END
+    WHERE issues.id = gap_id
+    RETURNING issues.report_count INTO new_count;
+  ELSIF gap_type = 'inquiry' THEN
+    UPDATE inquiries SET
+      report_count = inquiries.report_count + 1,
+      last_reported_at = now(),
+      phrasings = CASE
+        WHEN lower(phrasing) = lower(coalesce(inquiries.description, ''))
+          OR lower(phrasing) IN (SELECT lower(p) FROM unnest(inquiries.phrasings) AS p)
+          OR cardinality(inquiries.phrasings) >= max_phrasings
+        THEN inquiries.phrasings
+        ELSE array_append(inquiries.phrasings, phrasing)
+      END
+    WHERE inquiries.id = gap_id
+    RETURNING inquiries.report_count INTO new_count;
+  ELSE
+    RAISE EXCEPTION 'Unknown gap_type: %', gap_type;
+  END IF;
+
+  RETURN new_count;
+END;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'issues' AND column_name = 'report_count'
+  ) AND EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inquiries' AND column_name = 'report_count'
+  ) THEN
+    RAISE NOTICE 'knowledge gap report columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'knowledge gap report columns: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'match_knowledge_gap') THEN
+    RAISE NOTICE 'match_knowledge_gap function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'match_knowledge_gap function: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'add_knowledge_gap_report') THEN
+    RAISE NOTICE 'add_knowledge_gap_report function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'add_knowledge_gap_report function: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,76 @@
+/*
+  # Resolve inquiries with an answer
+
+  1. Changes
+    - Add to `inquiries`:
+      - `status` (text) - open or resolved
+      - `answer` (text, nullable) - the owner's answer
+      - `resolved_at` (timestamptz, nullable)
+      - `resolved_context_id` (uuid, nullable, references contexts) - context item holding the
+        question and answer, which is embedded so the chatbot can answer the question next time
+    - Resolved inquiries are no longer matched as open knowledge gaps by `match_knowledge_gap`
+*/
+
+ALTER TABLE inquiries
+  ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  ADD COLUMN IF NOT EXISTS answer text,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolved_context_id uuid REFERENCES contexts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS inquiries_status_idx ON inquiries(project_id, status);
+
+-- Only match open inquiries as knowledge gaps
+CREATE OR REPLACE FUNCTION match_knowledge_gap(
+  query_embedding vector(768),
+  filter_project_id uuid,
+  match_threshold float DEFAULT 0.85
+)
+RETURNS TABLE (
+  id uuid,
+  gap_type text,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT gaps.id, gaps.gap_type, gaps.similarity
+  FROM (
+    SELECT
+      i.id,
+      'issue'::text AS gap_type,
+      (1 - (i.gap_embedding <=> query_embedding))::float AS similarity
+    FROM issues i
+    WHERE
+      i.project_id = filter_project_id
+      AND i.gap_embedding IS NOT NULL
+      AND i.status IN ('open', 'in-progress')
+    UNION ALL
+    SELECT
+      q.id,
+      'inquiry'::text AS gap_type,
+      (1 - (q.gap_embedding <=> query_embedding))::float AS similarity
+    FROM inquiries q
+    WHERE
+      q.project_id = filter_project_id
+      AND q.gap_embedding IS NOT NULL
+      AND q.status = 'open'
+  ) AS gaps
+  WHERE gaps.similarity > match_threshold
+  ORDER BY gaps.similarity DESC
+  LIMIT 1;
+END;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'inquiries' AND column_name = 'resolved_context_id'
+  ) THEN
+    RAISE NOTICE 'inquiries resolution columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'inquiries resolution columns: ❌ NOT ADDED';
+  END IF;
+END $$;
@@ -0,0 +1,106 @@
+/*
+  # Human handoff for public chatbots
+
+  1. Changes
+    - Add to `conversations`:
+      - `handoff_status` (text) - who answers the visitor: bot, requested (waiting for the owner) or human
+      - `handoff_requested_at` (timestamptz, nullable) - when the visitor last asked for a human
+    - Add to `messages`:
+      - `sender` (text) - visitor, ai or human; human replies are stored as assistant turns so the
+        bot sees them as history once the conversation is handed back
+    - Add `conversations` and `messages` to the `supabase_realtime` publication so the owner's
+      dashboard is notified of handoff requests and new visitor messages
+
+  2. Security
+    - Project owners can update their own conversations (take over and hand back)
+    - Project owners can add human replies to their own conversations
+*/
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS handoff_status text NOT NULL DEFAULT 'bot' CHECK (handoff_status IN ('bot', 'requested', 'human')),
+  ADD COLUMN IF NOT EXISTS handoff_requested_at timestamptz;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS sender text;
+
+-- Existing messages were all written by visitors or the bot
+UPDATE messages
+SET sender = CASE WHEN role = 'user' THEN 'visitor' ELSE 'ai' END
+WHERE sender IS NULL;
+
+ALTER TABLE messages
+  ALTER COLUMN sender SET NOT NULL;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'messages_sender_check') THEN
+    ALTER TABLE messages ADD CONSTRAINT messages_sender_check CHECK (
+      (role = 'user' AND sender = 'visitor') OR (role = 'assistant' AND sender IN ('ai', 'human'))
+    );
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS conversations_handoff_status_idx ON conversations(project_id, handoff_status);
+
+-- Create RLS policies for owner takeover
+CREATE POLICY "Users can update own conversations"
+  ON conversations FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can reply in own conversations"
+  ON messages FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND role = 'assistant'
+    AND sender = 'human'
+    AND EXISTS (
+      SELECT 1 FROM conversations c
+      WHERE c.id = conversation_id
+        AND c.user_id = auth.uid()
+        AND c.project_id = messages.project_id
+    )
+  );
+
+-- Publish changes for the owner's dashboard (RLS still applies to what each owner receives)
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'conversations'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE conversations;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'messages'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE messages;
+  END IF;
+END $$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversations' AND column_name = 'handoff_status'
+  ) AND EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'messages' AND column_name = 'sender'
+  ) THEN
+    RAISE NOTICE 'handoff columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'handoff columns: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'messages'
+  ) THEN
+    RAISE NOTICE 'messages realtime: ✅ ENABLED';
+  ELSE
+    RAISE NOTICE 'messages realtime: ❌ NOT ENABLED';
+  END IF;
+END $$;
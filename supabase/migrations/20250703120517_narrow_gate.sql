@@ -0,0 +1,185 @@
+/*
+  # Rate limit the public chat endpoint
+
+  1. New Tables
+    - `plan_rate_limits`
+      - `plan` (text, primary key) - personal, creator or business
+      - `client_per_minute`, `client_per_day` (integer) - messages one visitor may send to a project
+      - `project_per_minute`, `project_per_day` (integer) - messages a project accepts from all visitors
+    - `rate_limit_counters`
+      - `bucket` (text) - what is counted, e.g. `client:<project>:<hashed client>:minute`
+      - `window_start` (timestamptz) - start of the fixed window the count belongs to
+      - `request_count` (integer)
+      - `expires_at` (timestamptz) - end of the window, for cleanup
+
+  2. Functions
+    - `check_chat_rate_limit` counts a chat message against the client and project windows of the
+      project's plan and reports the first limit it exceeds. Client windows are checked first, so a
+      throttled visitor does not use up the project's allowance.
+
+  3. Security
+    - Enable RLS on both tables
+    - Authenticated users can read the plan limits
+    - Only the service role (chat-query) reads and writes counters
+*/
+
+CREATE TABLE IF NOT EXISTS plan_rate_limits (
+  plan text PRIMARY KEY CHECK (plan IN ('personal', 'creator', 'business')),
+  client_per_minute integer NOT NULL CHECK (client_per_minute > 0),
+  client_per_day integer NOT NULL CHECK (client_per_day > 0),
+  project_per_minute integer NOT NULL CHECK (project_per_minute > 0),
+  project_per_day integer NOT NULL CHECK (project_per_day > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO plan_rate_limits (plan, client_per_minute, client_per_day, project_per_minute, project_per_day)
+VALUES
+  ('personal', 10, 100, 30, 1000),
+  ('creator', 20, 300, 120, 10000),
+  ('business', 30, 1000, 600, 100000)
+ON CONFLICT (plan) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  bucket text NOT NULL,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  expires_at timestamptz NOT NULL,
+  PRIMARY KEY (bucket, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS rate_limit_counters_expires_at_idx ON rate_limit_counters(expires_at);
+
+-- Enable RLS
+ALTER TABLE plan_rate_limits ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for plan_rate_limits
+CREATE POLICY "Users can view plan rate limits"
+  ON plan_rate_limits FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service can view plan rate limits"
+  ON plan_rate_limits FOR SELECT TO service_role
+  USING (true);
+
+-- Create RLS policies for rate_limit_counters
+CREATE POLICY "Service can manage rate limit counters"
+  ON rate_limit_counters FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_plan_rate_limits_updated_at
+  BEFORE UPDATE ON plan_rate_limits
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Count one message in a fixed window and return the new count
+CREATE OR REPLACE FUNCTION increment_rate_limit_counter(
+  counter_bucket text,
+  counter_window_start timestamptz,
+  counter_expires_at timestamptz
+)
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  new_count integer;
+BEGIN
+  INSERT INTO rate_limit_counters (bucket, window_start, request_count, expires_at)
+  VALUES (counter_bucket, counter_window_start, 1, counter_expires_at)
+  ON CONFLICT (bucket, window_start)
+  DO UPDATE SET request_count = rate_limit_counters.request_count + 1
+  RETURNING rate_limit_counters.request_count INTO new_count;
+
+  RETURN new_count;
+END;
+$$;
+
+-- Count a chat message against the client and project limits of a plan
+CREATE OR REPLACE FUNCTION check_chat_rate_limit(
+  filter_project_id uuid,
+  client_key text,
+  project_plan text
+)
+RETURNS TABLE (
+  allowed boolean,
+  limit_scope text,
+  limit_window text,
+  limit_value integer,
+  retry_after_seconds integer
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  limits plan_rate_limits%ROWTYPE;
+  minute_start timestamptz := date_trunc('minute', now());
+  minute_end timestamptz := date_trunc('minute', now()) + interval '1 minute';
+  day_start timestamptz := date_trunc('day', now());
+  day_end timestamptz := date_trunc('day', now()) + interval '1 day';
+  client_bucket text := 'client:' || filter_project_id || ':' || client_key;
+  project_bucket text := 'project:' || filter_project_id;
+BEGIN
+  SELECT * INTO limits FROM plan_rate_limits WHERE plan = project_plan;
+
+  -- Plans without a row are not limited
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, NULL::text, NULL::text, NULL::integer, 0;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(client_bucket || ':minute', minute_start, minute_end) > limits.client_per_minute THEN
+    RETURN QUERY SELECT false, 'client'::text, 'minute'::text, limits.client_per_minute,
+      ceil(extract(epoch FROM minute_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(client_bucket || ':day', day_start, day_end) > limits.client_per_day THEN
+    RETURN QUERY SELECT false, 'client'::text, 'day'::text, limits.client_per_day,
+      ceil(extract(epoch FROM day_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(project_bucket || ':minute', minute_start, minute_end) > limits.project_per_minute THEN
+    RETURN QUERY SELECT false, 'project'::text, 'minute'::text, limits.project_per_minute,
+      ceil(extract(epoch FROM minute_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(project_bucket || ':day', day_start, day_end) > limits.project_per_day THEN
+    RETURN QUERY SELECT false, 'project'::text, 'day'::text, limits.project_per_day,
+      ceil(extract(epoch FROM day_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  -- Occasionally drop windows that ended, instead of needing a scheduled job
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_counters WHERE expires_at < now();
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::text, NULL::text, NULL::integer, 0;
+END;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'plan_rate_limits') THEN
+    RAISE NOTICE 'plan_rate_limits table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'plan_rate_limits table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'rate_limit_counters') THEN
+    RAISE NOTICE 'rate_limit_counters table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'rate_limit_counters table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'check_chat_rate_limit') THEN
+    RAISE NOTICE 'check_chat_rate_limit function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'check_chat_rate_limit function: ❌ NOT CREATED';
+  END IF;
+END $$;
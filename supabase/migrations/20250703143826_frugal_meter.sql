@@ -0,0 +1,291 @@
+/*
+  # Meter and enforce plan quotas
+
+  1. New Tables
+    - `plan_quotas`
+      - `plan` (text, primary key) - personal, creator or business
+      - `chat_turns_per_period` (bigint) - answered visitor messages ("Short Chats") per billing period
+      - `embedded_chunks_per_period` (bigint) - knowledge chunks embedded per billing period
+      - `max_projects` (integer) - projects an account may have at once
+    - `usage_counters`
+      - `user_id` (uuid, references auth.users) - the account
+      - `period_start` (date) - first day of the billing period (calendar month, UTC)
+      - `metric` (text) - chat_turns or embedded_chunks
+      - `used` (bigint)
+
+  2. Functions
+    - `get_account_plan` - an account is on the highest plan of its projects (personal without projects)
+    - `consume_usage` - counts usage against the account's quota; over-quota usage is refused and not counted
+    - `get_account_usage` - current period usage and limits of the signed-in account, for the dashboard
+    - Triggers refuse embeddings over the chunk quota and projects over the project quota. Their errors
+      carry the hint `quota_exceeded` so the app can show the message as is.
+
+  3. Security
+    - Enable RLS on both tables
+    - Authenticated users can read the plan quotas and their own usage
+    - Only the service role (chat-query) and the quota triggers can consume usage
+*/
+
+CREATE TABLE IF NOT EXISTS plan_quotas (
+  plan text PRIMARY KEY CHECK (plan IN ('personal', 'creator', 'business')),
+  chat_turns_per_period bigint NOT NULL CHECK (chat_turns_per_period > 0),
+  embedded_chunks_per_period bigint NOT NULL CHECK (embedded_chunks_per_period > 0),
+  max_projects integer NOT NULL CHECK (max_projects > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO plan_quotas (plan, chat_turns_per_period, embedded_chunks_per_period, max_projects)
+VALUES
+  ('personal', 10000, 5000, 3),
+  ('creator', 100000, 50000, 10),
+  ('business', 1000000, 500000, 50)
+ON CONFLICT (plan) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS usage_counters (
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  metric text NOT NULL CHECK (metric IN ('chat_turns', 'embedded_chunks')),
+  used bigint NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (user_id, period_start, metric)
+);
+
+-- Enable RLS
+ALTER TABLE plan_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE usage_counters ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for plan_quotas
+CREATE POLICY "Users can view plan quotas"
+  ON plan_quotas FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Service can view plan quotas"
+  ON plan_quotas FOR SELECT TO service_role
+  USING (true);
+
+-- Create RLS policies for usage_counters
+CREATE POLICY "Users can view own usage"
+  ON usage_counters FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can manage usage for users"
+  ON usage_counters FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_plan_quotas_updated_at
+  BEFORE UPDATE ON plan_quotas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The highest plan among an account's projects
+CREATE OR REPLACE FUNCTION get_account_plan(account_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT p.plan
+      FROM projects p
+      WHERE p.user_id = account_id
+      ORDER BY array_position(ARRAY['personal', 'creator', 'business'], p.plan) DESC
+      LIMIT 1
+    ),
+    'personal'
+  );
+$$;
+
+-- Count usage against the account's quota for the current billing period
+CREATE OR REPLACE FUNCTION consume_usage(
+  account_id uuid,
+  usage_metric text,
+  amount integer DEFAULT 1
+)
+RETURNS TABLE (
+  allowed boolean,
+  period_used bigint,
+  period_quota bigint
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_period date := date_trunc('month', now() AT TIME ZONE 'utc')::date;
+  quotas plan_quotas%ROWTYPE;
+  metric_quota bigint;
+  new_used bigint;
+BEGIN
+  SELECT * INTO quotas FROM plan_quotas WHERE plan = get_account_plan(account_id);
+
+  metric_quota := CASE usage_metric
+    WHEN 'chat_turns' THEN quotas.chat_turns_per_period
+    WHEN 'embedded_chunks' THEN quotas.embedded_chunks_per_period
+  END;
+
+  INSERT INTO usage_counters (user_id, period_start, metric, used)
+  VALUES (account_id, current_period, usage_metric, amount)
+  ON CONFLICT (user_id, period_start, metric)
+  DO UPDATE SET used = usage_counters.used + amount, updated_at = now()
+  RETURNING usage_counters.used INTO new_used;
+
+  -- Refused usage is not counted
+  IF metric_quota IS NOT NULL AND new_used > metric_quota THEN
+    UPDATE usage_counters
+    SET used = usage_counters.used - amount
+    WHERE usage_counters.user_id = account_id
+      AND usage_counters.period_start = current_period
+      AND usage_counters.metric = usage_metric;
+
+    RETURN QUERY SELECT false, new_used - amount, metric_quota;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT true, new_used, metric_quota;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_usage(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_usage(uuid, text, integer) TO service_role;
+
+-- Usage and limits of the signed-in account for the current billing period
+CREATE OR REPLACE FUNCTION get_account_usage()
+RETURNS TABLE (
+  plan text,
+  period_start date,
+  period_end date,
+  chat_turns bigint,
+  chat_turns_quota bigint,
+  embedded_chunks bigint,
+  embedded_chunks_quota bigint,
+  projects bigint,
+  projects_quota integer
+)
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  account_id uuid := auth.uid();
+  current_period date := date_trunc('month', now() AT TIME ZONE 'utc')::date;
+  quotas plan_quotas%ROWTYPE;
+BEGIN
+  SELECT * INTO quotas FROM plan_quotas q WHERE q.plan = get_account_plan(account_id);
+
+  RETURN QUERY
+  SELECT
+    quotas.plan,
+    current_period,
+    (current_period + interval '1 month')::date,
+    COALESCE((
+      SELECT u.used FROM usage_counters u
+      WHERE u.user_id = account_id AND u.period_start = current_period AND u.metric = 'chat_turns'
+    ), 0),
+    quotas.chat_turns_per_period,
+    COALESCE((
+      SELECT u.used FROM usage_counters u
+      WHERE u.user_id = account_id AND u.period_start = current_period AND u.metric = 'embedded_chunks'
+    ), 0),
+    quotas.embedded_chunks_per_period,
+    (SELECT count(*) FROM projects p WHERE p.user_id = account_id),
+    quotas.max_projects;
+END;
+$$;
+
+-- Refuse embeddings over the account's chunk quota
+CREATE OR REPLACE FUNCTION enforce_embedded_chunk_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  result record;
+BEGIN
+  IF NEW.user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO result FROM consume_usage(NEW.user_id, 'embedded_chunks', 1);
+
+  IF NOT result.allowed THEN
+    RAISE EXCEPTION 'Your plan allows % knowledge chunks per month and they have all been used. Upgrade your plan or wait for the next billing period.', result.period_quota
+      USING HINT = 'quota_exceeded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_embedded_chunk_quota ON embeddings;
+CREATE TRIGGER enforce_embedded_chunk_quota
+  BEFORE INSERT ON embeddings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_embedded_chunk_quota();
+
+-- Refuse projects over the account's project quota. A new project on a higher plan raises the quota.
+CREATE OR REPLACE FUNCTION enforce_project_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  plan_order text[] := ARRAY['personal', 'creator', 'business'];
+  account_plan text := get_account_plan(NEW.user_id);
+  effective_plan text;
+  project_quota integer;
+  project_count bigint;
+BEGIN
+  effective_plan := CASE
+    WHEN array_position(plan_order, NEW.plan) > array_position(plan_order, account_plan) THEN NEW.plan
+    ELSE account_plan
+  END;
+
+  SELECT max_projects INTO project_quota FROM plan_quotas WHERE plan = effective_plan;
+  SELECT count(*) INTO project_count FROM projects WHERE user_id = NEW.user_id;
+
+  IF project_quota IS NOT NULL AND project_count >= project_quota THEN
+    RAISE EXCEPTION 'Your plan allows up to % projects. Delete a project or upgrade your plan to create another.', project_quota
+      USING HINT = 'quota_exceeded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_project_quota ON projects;
+CREATE TRIGGER enforce_project_quota
+  BEFORE INSERT ON projects
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_project_quota();
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'plan_quotas') THEN
+    RAISE NOTICE 'plan_quotas table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'plan_quotas table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'usage_counters') THEN
+    RAISE NOTICE 'usage_counters table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'usage_counters table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'consume_usage') THEN
+    RAISE NOTICE 'consume_usage function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'consume_usage function: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.triggers WHERE trigger_name = 'enforce_embedded_chunk_quota') THEN
+    RAISE NOTICE 'embedded chunk quota trigger: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'embedded chunk quota trigger: ❌ NOT CREATED';
+  END IF;
+END $$;
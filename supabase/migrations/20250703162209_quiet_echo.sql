@@ -0,0 +1,233 @@
+/*
+  # Semantic answer cache
+
+  1. Changes
+    - Add `knowledge_version` (integer) to `projects` - bumped whenever the project's knowledge base or
+      assistant settings change, so answers produced before the change are no longer reused
+    - Add `from_cache` (boolean) to `messages` - whether the answer was served from the cache
+
+  2. New Tables
+    - `answer_cache`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner
+      - `query` (text) - standalone query the answer was generated for
+      - `query_embedding` (vector(768)) - the cache key
+      - `search_mode` (text) - retrieval mode the answer was generated with
+      - `knowledge_version` (integer) - project knowledge version when the answer was generated
+      - `response` (text), `citations` (jsonb), `retrieved_chunks` (jsonb) - the answer as stored in `messages`
+      - `hit_count` (integer), `last_hit_at` (timestamptz)
+
+  3. Functions
+    - `match_cached_answer` - the closest cached answer above the threshold for the current knowledge
+      version; counts the hit
+    - `invalidate_answer_cache` - called by the dashboard when items are created, updated or deleted
+    - `get_answer_cache_stats` - cache size and hit rate of the bot's answers for the dashboard
+    - Saving assistant settings also invalidates the cache
+
+  4. Security
+    - Enable RLS on `answer_cache`
+    - Users can view and delete cached answers of their own projects
+    - Only the service role (chat-query) can add cached answers
+*/
+
+ALTER TABLE projects
+  ADD COLUMN IF NOT EXISTS knowledge_version integer NOT NULL DEFAULT 0;
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS from_cache boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS answer_cache (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  query text NOT NULL,
+  query_embedding vector(768) NOT NULL,
+  search_mode text NOT NULL CHECK (search_mode IN ('vector', 'hybrid')),
+  knowledge_version integer NOT NULL,
+  response text NOT NULL,
+  citations jsonb NOT NULL DEFAULT '[]'::jsonb,
+  retrieved_chunks jsonb NOT NULL DEFAULT '[]'::jsonb,
+  hit_count integer NOT NULL DEFAULT 0,
+  last_hit_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS answer_cache_project_idx ON answer_cache(project_id, knowledge_version, search_mode);
+
+-- Enable RLS
+ALTER TABLE answer_cache ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for answer_cache
+CREATE POLICY "Users can view own cached answers"
+  ON answer_cache FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own cached answers"
+  ON answer_cache FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can manage cached answers for users"
+  ON answer_cache FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Find the closest cached answer generated with the project's current knowledge, and count the hit
+CREATE OR REPLACE FUNCTION match_cached_answer(
+  lookup_embedding vector(768),
+  filter_project_id uuid,
+  filter_search_mode text,
+  match_threshold float DEFAULT 0.95
+)
+RETURNS TABLE (
+  id uuid,
+  response text,
+  citations jsonb,
+  retrieved_chunks jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_version integer;
+BEGIN
+  SELECT p.knowledge_version INTO current_version FROM projects p WHERE p.id = filter_project_id;
+
+  RETURN QUERY
+  WITH best AS (
+    SELECT
+      c.id,
+      (1 - (c.query_embedding <=> lookup_embedding))::float AS similarity
+    FROM answer_cache c
+    WHERE
+      c.project_id = filter_project_id
+      AND c.search_mode = filter_search_mode
+      AND c.knowledge_version = current_version
+    ORDER BY c.query_embedding <=> lookup_embedding
+    LIMIT 1
+  ),
+  hit AS (
+    UPDATE answer_cache c
+    SET hit_count = c.hit_count + 1, last_hit_at = now()
+    FROM best
+    WHERE c.id = best.id AND best.similarity > match_threshold
+    RETURNING c.id, c.response, c.citations, c.retrieved_chunks, best.similarity
+  )
+  SELECT hit.id, hit.response, hit.citations, hit.retrieved_chunks, hit.similarity FROM hit;
+END;
+$$;
+
+-- Retire every cached answer of a project
+CREATE OR REPLACE FUNCTION reset_answer_cache(target_project_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE projects
+  SET knowledge_version = knowledge_version + 1
+  WHERE id = target_project_id;
+
+  DELETE FROM answer_cache WHERE project_id = target_project_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION reset_answer_cache(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Called by the dashboard after the project's knowledge base changes
+CREATE OR REPLACE FUNCTION invalidate_answer_cache(filter_project_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM projects p WHERE p.id = filter_project_id AND p.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  PERFORM reset_answer_cache(filter_project_id);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION invalidate_answer_cache(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION invalidate_answer_cache(uuid) TO authenticated;
+
+-- Cached answers were written with the old persona and generation settings
+CREATE OR REPLACE FUNCTION reset_answer_cache_on_settings_change()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM reset_answer_cache(NEW.project_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reset_answer_cache_on_settings_change ON project_settings;
+CREATE TRIGGER reset_answer_cache_on_settings_change
+  AFTER INSERT OR UPDATE ON project_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_answer_cache_on_settings_change();
+
+-- Cache size and the share of the bot's answers served from it
+CREATE OR REPLACE FUNCTION get_answer_cache_stats(
+  filter_project_id uuid,
+  since timestamptz DEFAULT now() - interval '30 days'
+)
+RETURNS TABLE (
+  cached_answers bigint,
+  bot_answers bigint,
+  cache_hits bigint,
+  hit_rate float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH answers AS (
+    SELECT
+      count(*) AS total,
+      count(*) FILTER (WHERE m.from_cache) AS hits
+    FROM messages m
+    WHERE
+      m.project_id = filter_project_id
+      AND m.sender = 'ai'
+      AND m.created_at >= since
+  )
+  SELECT
+    (SELECT count(*) FROM answer_cache c WHERE c.project_id = filter_project_id),
+    answers.total,
+    answers.hits,
+    CASE WHEN answers.total > 0 THEN answers.hits::float / answers.total ELSE 0 END
+  FROM answers;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'answer_cache') THEN
+    RAISE NOTICE 'answer_cache table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'answer_cache table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'projects' AND column_name = 'knowledge_version'
+  ) THEN
+    RAISE NOTICE 'projects knowledge_version column: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'projects knowledge_version column: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'match_cached_answer') THEN
+    RAISE NOTICE 'match_cached_answer function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'match_cached_answer function: ❌ NOT CREATED';
+  END IF;
+END $$;
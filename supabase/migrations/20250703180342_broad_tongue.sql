@@ -0,0 +1,186 @@
+/*
+  # Multilingual chat
+
+  1. Changes
+    - Add `language` (text, nullable) to `contexts`, `issues`, `inquiries` and `products` - language the
+      item is written in; null means the project's default language. Embedded chunks carry it in
+      `embeddings.metadata.language`.
+    - Add to `project_settings`:
+      - `default_language` (text) - language of untagged items, and of replies to visitors writing in an
+        unsupported language
+      - `supported_languages` (text[]) - languages the bot replies in; empty means every detected language
+    - Add `language` (text, nullable) to `messages` - detected language of visitor messages
+    - Add `language` (text, nullable) to `answer_cache` - cached answers are only reused for visitors
+      writing in the same language
+    - `match_cached_answer` takes the reply language
+    - New `get_knowledge_languages` - chunk count per language of a project's knowledge base, used to
+      translate queries for retrieval
+    - Changing an item's language updates the language of its embedded chunks
+*/
+
+ALTER TABLE contexts
+  ADD COLUMN IF NOT EXISTS language text CHECK (language IS NULL OR language IN ('en', 'es', 'pt', 'tl', 'fr', 'de', 'it', 'id'));
+
+ALTER TABLE issues
+  ADD COLUMN IF NOT EXISTS language text CHECK (language IS NULL OR language IN ('en', 'es', 'pt', 'tl', 'fr', 'de', 'it', 'id'));
+
+ALTER TABLE inquiries
+  ADD COLUMN IF NOT EXISTS language text CHECK (language IS NULL OR language IN ('en', 'es', 'pt', 'tl', 'fr', 'de', 'it', 'id'));
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS language text CHECK (language IS NULL OR language IN ('en', 'es', 'pt', 'tl', 'fr', 'de', 'it', 'id'));
+
+ALTER TABLE project_settings
+  ADD COLUMN IF NOT EXISTS default_language text NOT NULL DEFAULT 'en'
+    CHECK (default_language IN ('en', 'es', 'pt', 'tl', 'fr', 'de', 'it', 'id')),
+  ADD COLUMN IF NOT EXISTS supported_languages text[] NOT NULL DEFAULT '{}'
+    CHECK (supported_languages <@ ARRAY['en', 'es', 'pt', 'tl', 'fr', 'de', 'it', 'id']);
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS language text;
+
+ALTER TABLE answer_cache
+  ADD COLUMN IF NOT EXISTS language text;
+
+-- Chunks per language of a project's knowledge base, most common first
+CREATE OR REPLACE FUNCTION get_knowledge_languages(
+  filter_project_id uuid,
+  fallback_language text DEFAULT 'en'
+)
+RETURNS TABLE (
+  language text,
+  chunks bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    coalesce(e.metadata->>'language', fallback_language) AS language,
+    count(*) AS chunks
+  FROM embeddings e
+  WHERE e.project_id = filter_project_id
+  GROUP BY 1
+  ORDER BY 2 DESC;
+$$;
+
+-- Keep the language of embedded chunks in step with their item
+CREATE OR REPLACE FUNCTION sync_embedding_language()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE embeddings
+  SET metadata = CASE
+    WHEN NEW.language IS NULL THEN coalesce(metadata, '{}'::jsonb) - 'language'
+    ELSE jsonb_set(coalesce(metadata, '{}'::jsonb), '{language}', to_jsonb(NEW.language))
+  END
+  WHERE source_id = NEW.id;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_embedding_language ON contexts;
+CREATE TRIGGER sync_embedding_language
+  AFTER UPDATE OF language ON contexts
+  FOR EACH ROW
+  WHEN (OLD.language IS DISTINCT FROM NEW.language)
+  EXECUTE FUNCTION sync_embedding_language();
+
+DROP TRIGGER IF EXISTS sync_embedding_language ON issues;
+CREATE TRIGGER sync_embedding_language
+  AFTER UPDATE OF language ON issues
+  FOR EACH ROW
+  WHEN (OLD.language IS DISTINCT FROM NEW.language)
+  EXECUTE FUNCTION sync_embedding_language();
+
+DROP TRIGGER IF EXISTS sync_embedding_language ON inquiries;
+CREATE TRIGGER sync_embedding_language
+  AFTER UPDATE OF language ON inquiries
+  FOR EACH ROW
+  WHEN (OLD.language IS DISTINCT FROM NEW.language)
+  EXECUTE FUNCTION sync_embedding_language();
+
+DROP TRIGGER IF EXISTS sync_embedding_language ON products;
+CREATE TRIGGER sync_embedding_language
+  AFTER UPDATE OF language ON products
+  FOR EACH ROW
+  WHEN (OLD.language IS DISTINCT FROM NEW.language)
+  EXECUTE FUNCTION sync_embedding_language();
+
+-- Only reuse answers written in the language the visitor is answered in
+DROP FUNCTION IF EXISTS match_cached_answer(vector, uuid, text, float);
+
+CREATE OR REPLACE FUNCTION match_cached_answer(
+  lookup_embedding vector(768),
+  filter_project_id uuid,
+  filter_search_mode text,
+  filter_language text DEFAULT NULL,
+  match_threshold float DEFAULT 0.95
+)
+RETURNS TABLE (
+  id uuid,
+  response text,
+  citations jsonb,
+  retrieved_chunks jsonb,
+  similarity float
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  current_version integer;
+BEGIN
+  SELECT p.knowledge_version INTO current_version FROM projects p WHERE p.id = filter_project_id;
+
+  RETURN QUERY
+  WITH best AS (
+    SELECT
+      c.id,
+      (1 - (c.query_embedding <=> lookup_embedding))::float AS similarity
+    FROM answer_cache c
+    WHERE
+      c.project_id = filter_project_id
+      AND c.search_mode = filter_search_mode
+      AND c.knowledge_version = current_version
+      AND c.language IS NOT DISTINCT FROM filter_language
+    ORDER BY c.query_embedding <=> lookup_embedding
+    LIMIT 1
+  ),
+  hit AS (
+    UPDATE answer_cache c
+    SET hit_count = c.hit_count + 1, last_hit_at = now()
+    FROM best
+    WHERE c.id = best.id AND best.similarity > match_threshold
+    RETURNING c.id, c.response, c.citations, c.retrieved_chunks, best.similarity
+  )
+  SELECT hit.id, hit.response, hit.citations, hit.retrieved_chunks, hit.similarity FROM hit;
+END;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_settings' AND column_name = 'supported_languages'
+  ) THEN
+    RAISE NOTICE 'project_settings language columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'project_settings language columns: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'contexts' AND column_name = 'language'
+  ) THEN
+    RAISE NOTICE 'item language columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'item language columns: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'get_knowledge_languages') THEN
+    RAISE NOTICE 'get_knowledge_languages function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'get_knowledge_languages function: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,84 @@
+/*
+  # Prompt-injection guardrails
+
+  1. Changes
+    - Add to `project_settings`:
+      - `guardrail_action` (text) - what chat-query does with a visitor message that looks like a prompt
+        injection: log it only, remove the suspicious text, or refuse the message
+      - `guardrail_blocked_phrases` (text[]) - extra phrases the owner wants treated as injections
+      - `guardrail_screen_context` (boolean) - also screen retrieved knowledge base chunks; flagged chunks
+        are left out of the prompt unless the action is `log`
+
+  2. New Tables
+    - `guardrail_events`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner
+      - `conversation_id` (uuid, nullable, references conversations)
+      - `source` (text) - query or context
+      - `source_id` (uuid, nullable) - the knowledge base item of the flagged chunk, for context events
+      - `rule` (text) - the pattern that matched
+      - `excerpt` (text) - the matched text with some surrounding text
+      - `action_taken` (text) - logged, sanitized, blocked or dropped
+
+  3. Security
+    - Enable RLS on `guardrail_events`
+    - Users can view and delete events of their own projects
+    - Only the service role (chat-query) can record events
+*/
+
+ALTER TABLE project_settings
+  ADD COLUMN IF NOT EXISTS guardrail_action text NOT NULL DEFAULT 'block'
+    CHECK (guardrail_action IN ('log', 'sanitize', 'block')),
+  ADD COLUMN IF NOT EXISTS guardrail_blocked_phrases text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS guardrail_screen_context boolean NOT NULL DEFAULT true;
+
+CREATE TABLE IF NOT EXISTS guardrail_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  source text NOT NULL CHECK (source IN ('query', 'context')),
+  source_id uuid,
+  rule text NOT NULL,
+  excerpt text NOT NULL,
+  action_taken text NOT NULL CHECK (action_taken IN ('logged', 'sanitized', 'blocked', 'dropped')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS guardrail_events_project_idx ON guardrail_events(project_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE guardrail_events ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for guardrail_events
+CREATE POLICY "Users can view own guardrail events"
+  ON guardrail_events FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own guardrail events"
+  ON guardrail_events FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can insert guardrail events for users"
+  ON guardrail_events FOR INSERT TO service_role
+  WITH CHECK (true);
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'guardrail_events') THEN
+    RAISE NOTICE 'guardrail_events table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'guardrail_events table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_settings' AND column_name = 'guardrail_action'
+  ) THEN
+    RAISE NOTICE 'project_settings guardrail columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'project_settings guardrail columns: ❌ NOT ADDED';
+  END IF;
+END $$;
@@ -0,0 +1,117 @@
+/*
+  # PII redaction of knowledge gaps
+
+  1. Changes
+    - Add to `project_settings`:
+      - `pii_redaction_enabled` (boolean) - mask personal information in visitor questions before they are
+        logged as issues or inquiries and embedded
+      - `pii_redaction_types` (text[]) - kinds of personal information to mask
+      - `pii_model_detection` (boolean) - also ask the model for names and addresses the patterns miss
+
+  2. New Tables
+    - `pii_redactions`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner
+      - `conversation_id` (uuid, nullable, references conversations)
+      - `pii_type` (text) - kind of personal information masked
+      - `method` (text) - pattern or model
+      - `match_count` (integer) - values masked in one question; the values themselves are never stored
+
+  3. Functions
+    - `get_pii_redaction_report` - values masked per type and method since a date, for the dashboard
+
+  4. Security
+    - Enable RLS on `pii_redactions`
+    - Users can view and delete redaction records of their own projects
+    - Only the service role (chat-query) can record redactions
+*/
+
+ALTER TABLE project_settings
+  ADD COLUMN IF NOT EXISTS pii_redaction_enabled boolean NOT NULL DEFAULT true,
+  ADD COLUMN IF NOT EXISTS pii_redaction_types text[] NOT NULL
+    DEFAULT ARRAY['email', 'phone', 'card', 'ssn', 'iban', 'ip', 'address', 'name']
+    CHECK (pii_redaction_types <@ ARRAY['email', 'phone', 'card', 'ssn', 'iban', 'ip', 'address', 'name']),
+  ADD COLUMN IF NOT EXISTS pii_model_detection boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS pii_redactions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  pii_type text NOT NULL CHECK (pii_type IN ('email', 'phone', 'card', 'ssn', 'iban', 'ip', 'address', 'name')),
+  method text NOT NULL CHECK (method IN ('pattern', 'model')),
+  match_count integer NOT NULL DEFAULT 1 CHECK (match_count > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS pii_redactions_project_idx ON pii_redactions(project_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE pii_redactions ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for pii_redactions
+CREATE POLICY "Users can view own pii redactions"
+  ON pii_redactions FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own pii redactions"
+  ON pii_redactions FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can insert pii redactions for users"
+  ON pii_redactions FOR INSERT TO service_role
+  WITH CHECK (true);
+
+-- Values masked per type and method, most frequent first
+CREATE OR REPLACE FUNCTION get_pii_redaction_report(
+  filter_project_id uuid,
+  since timestamptz DEFAULT now() - interval '30 days'
+)
+RETURNS TABLE (
+  pii_type text,
+  method text,
+  values_masked bigint,
+  questions bigint,
+  last_redacted_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r.pii_type,
+    r.method,
+    sum(r.match_count) AS values_masked,
+    count(*) AS questions,
+    max(r.created_at) AS last_redacted_at
+  FROM pii_redactions r
+  WHERE r.project_id = filter_project_id
+    AND r.created_at >= since
+  GROUP BY r.pii_type, r.method
+  ORDER BY 3 DESC;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'pii_redactions') THEN
+    RAISE NOTICE 'pii_redactions table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'pii_redactions table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'project_settings' AND column_name = 'pii_redaction_enabled'
+  ) THEN
+    RAISE NOTICE 'project_settings pii columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'project_settings pii columns: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'get_pii_redaction_report') THEN
+    RAISE NOTICE 'get_pii_redaction_report function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'get_pii_redaction_report function: ❌ NOT CREATED';
+  END IF;
+END $$;
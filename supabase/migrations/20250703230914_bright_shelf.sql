@@ -0,0 +1,99 @@
+/*
+  # Product recommendation cards
+
+  1. New Tables
+    - `product_events`
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner
+      - `product_id` (uuid, references products)
+      - `conversation_id` (uuid, nullable, references conversations)
+      - `event_type` (text) - impression when chat-query shows the product as a card, click when the
+        visitor follows its buy button through product-click
+
+  2. Functions
+    - `get_product_click_stats` - impressions, clicks and click-through rate per product since a date
+
+  3. Security
+    - Enable RLS on `product_events`
+    - Users can view and delete events of their own projects
+    - Only the service role (chat-query and product-click) can record events
+*/
+
+CREATE TABLE IF NOT EXISTS product_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN ('impression', 'click')),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS product_events_project_idx ON product_events(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS product_events_product_idx ON product_events(product_id, event_type);
+
+-- Enable RLS
+ALTER TABLE product_events ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for product_events
+CREATE POLICY "Users can view own product events"
+  ON product_events FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own product events"
+  ON product_events FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can insert product events for users"
+  ON product_events FOR INSERT TO service_role
+  WITH CHECK (true);
+
+-- Impressions, clicks and click-through rate per product, most clicked first
+CREATE OR REPLACE FUNCTION get_product_click_stats(
+  filter_project_id uuid,
+  since timestamptz DEFAULT now() - interval '30 days'
+)
+RETURNS TABLE (
+  product_id uuid,
+  title text,
+  impressions bigint,
+  clicks bigint,
+  click_through_rate float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id AS product_id,
+    p.title,
+    count(*) FILTER (WHERE e.event_type = 'impression') AS impressions,
+    count(*) FILTER (WHERE e.event_type = 'click') AS clicks,
+    CASE
+      WHEN count(*) FILTER (WHERE e.event_type = 'impression') = 0 THEN 0
+      ELSE (count(*) FILTER (WHERE e.event_type = 'click'))::float
+        / count(*) FILTER (WHERE e.event_type = 'impression')
+    END AS click_through_rate
+  FROM product_events e
+  JOIN products p ON p.id = e.product_id
+  WHERE e.project_id = filter_project_id
+    AND e.created_at >= since
+  GROUP BY p.id, p.title
+  ORDER BY 4 DESC, 3 DESC;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'product_events') THEN
+    RAISE NOTICE 'product_events table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'product_events table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'get_product_click_stats') THEN
+    RAISE NOTICE 'get_product_click_stats function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'get_product_click_stats function: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,73 @@
+/*
+  # Guided issue intake
+
+  1. Changes
+    - Add `issue_intake_fields` (text[]) to `project_settings` - details the bot asks for before filing an
+      issue reported in chat; empty files the issue right away, as before
+    - Add to `issues`:
+      - `steps_to_reproduce` (text), `device` (text), `contact_email` (text) - details collected by the bot
+      - `conversation_id` (uuid, nullable, references conversations) - conversation the issue was reported in
+      - `reference_code` (text, unique) - short id the visitor is given, e.g. ISS-7KQ2XD
+    - Add `issue_intake` (jsonb, nullable) to `conversations` - intake in progress: the report, the answers
+      collected so far and the field the bot last asked for
+
+  2. Functions
+    - `generate_issue_reference` - random reference code for new issues
+*/
+
+-- Random ISS-XXXXXX code, without letters that are easily confused with digits
+CREATE OR REPLACE FUNCTION generate_issue_reference()
+RETURNS text
+LANGUAGE plpgsql
+VOLATILE
+AS $$
+DECLARE
+  alphabet constant text := '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+  code text := 'ISS-';
+BEGIN
+  FOR i IN 1..6 LOOP
+    code := code || substr(alphabet, 1 + floor(random() * length(alphabet))::int, 1);
+  END LOOP;
+  RETURN code;
+END;
+$$;
+
+ALTER TABLE project_settings
+  ADD COLUMN IF NOT EXISTS issue_intake_fields text[] NOT NULL
+    DEFAULT ARRAY['steps_to_reproduce', 'device', 'contact_email', 'severity']
+    CHECK (issue_intake_fields <@ ARRAY['steps_to_reproduce', 'device', 'contact_email', 'severity']);
+
+-- The volatile default gives every existing issue its own code
+ALTER TABLE issues
+  ADD COLUMN IF NOT EXISTS steps_to_reproduce text,
+  ADD COLUMN IF NOT EXISTS device text,
+  ADD COLUMN IF NOT EXISTS contact_email text,
+  ADD COLUMN IF NOT EXISTS conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reference_code text NOT NULL DEFAULT generate_issue_reference();
+
+CREATE UNIQUE INDEX IF NOT EXISTS issues_reference_code_idx ON issues(reference_code);
+
+ALTER TABLE conversations
+  ADD COLUMN IF NOT EXISTS issue_intake jsonb;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'issues' AND column_name = 'reference_code'
+  ) THEN
+    RAISE NOTICE 'issues intake columns: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'issues intake columns: ❌ NOT ADDED';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'conversations' AND column_name = 'issue_intake'
+  ) THEN
+    RAISE NOTICE 'conversations issue_intake column: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'conversations issue_intake column: ❌ NOT ADDED';
+  END IF;
+END $$;
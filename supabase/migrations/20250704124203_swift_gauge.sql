@@ -0,0 +1,123 @@
+/*
+  # Chat telemetry
+
+  1. New Tables
+    - `chat_telemetry` - one row per chat-query request, to find out why an answer was bad or slow
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner
+      - `conversation_id` (uuid, nullable, references conversations)
+      - `message_id` (uuid, nullable, references messages) - the stored answer
+      - `outcome` (text) - answered, cached, intake, handoff, blocked, stopped (by the visitor),
+        rejected (by the rate limit or quota) or error
+      - `total_ms` (integer) - from the request until the last byte of the answer
+      - `token_ms`, `embedding_ms`, `search_ms`, `generation_ms`, `classification_ms` (integer, nullable) -
+        time spent in each stage; null when the request did not reach it
+      - `chunk_count` (integer, nullable) - chunks retrieved for the answer
+      - `top_similarity`, `mean_similarity` (float, nullable) - similarity of the retrieved chunks;
+        keyword-only hits have none
+      - `prompt_tokens`, `completion_tokens` (integer, nullable) - as reported by the provider
+      - `provider`, `model` (text, nullable) - generation provider and model id
+      - `search_mode` (text, nullable)
+      - `error` (text, nullable)
+
+  2. Functions
+    - `get_response_time_stats` - p50 and p95 response time since a date, for one project or all of the
+      caller's projects
+
+  3. Security
+    - Enable RLS on `chat_telemetry`
+    - Users can view and delete telemetry of their own projects
+    - Only the service role (chat-query) can record telemetry
+*/
+
+CREATE TABLE IF NOT EXISTS chat_telemetry (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  conversation_id uuid REFERENCES conversations(id) ON DELETE SET NULL,
+  message_id uuid REFERENCES messages(id) ON DELETE SET NULL,
+  outcome text NOT NULL
+    CHECK (outcome IN ('answered', 'cached', 'intake', 'handoff', 'blocked', 'stopped', 'rejected', 'error')),
+  total_ms integer NOT NULL CHECK (total_ms >= 0),
+  token_ms integer CHECK (token_ms >= 0),
+  embedding_ms integer CHECK (embedding_ms >= 0),
+  search_ms integer CHECK (search_ms >= 0),
+  generation_ms integer CHECK (generation_ms >= 0),
+  classification_ms integer CHECK (classification_ms >= 0),
+  chunk_count integer CHECK (chunk_count >= 0),
+  top_similarity float,
+  mean_similarity float,
+  prompt_tokens integer CHECK (prompt_tokens >= 0),
+  completion_tokens integer CHECK (completion_tokens >= 0),
+  provider text,
+  model text,
+  search_mode text,
+  error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS chat_telemetry_project_idx ON chat_telemetry(project_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS chat_telemetry_user_idx ON chat_telemetry(user_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE chat_telemetry ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for chat_telemetry
+CREATE POLICY "Users can view own chat telemetry"
+  ON chat_telemetry FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own chat telemetry"
+  ON chat_telemetry FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can insert chat telemetry for users"
+  ON chat_telemetry FOR INSERT TO service_role
+  WITH CHECK (true);
+
+-- Response time percentiles of the turns the bot replied to. Handoffs, rejected and failed requests
+-- and answers the visitor stopped would skew them, so they are only counted in requests and errors.
+CREATE OR REPLACE FUNCTION get_response_time_stats(
+  filter_project_id uuid DEFAULT NULL,
+  since timestamptz DEFAULT now() - interval '30 days'
+)
+RETURNS TABLE (
+  requests bigint,
+  replies bigint,
+  errors bigint,
+  p50_ms float,
+  p95_ms float
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    count(*) AS requests,
+    count(*) FILTER (WHERE t.outcome IN ('answered', 'cached', 'intake', 'blocked')) AS replies,
+    count(*) FILTER (WHERE t.outcome = 'error') AS errors,
+    percentile_cont(0.5) WITHIN GROUP (ORDER BY t.total_ms)
+      FILTER (WHERE t.outcome IN ('answered', 'cached', 'intake', 'blocked')) AS p50_ms,
+    percentile_cont(0.95) WITHIN GROUP (ORDER BY t.total_ms)
+      FILTER (WHERE t.outcome IN ('answered', 'cached', 'intake', 'blocked')) AS p95_ms
+  FROM chat_telemetry t
+  WHERE t.user_id = auth.uid()
+    AND (filter_project_id IS NULL OR t.project_id = filter_project_id)
+    AND t.created_at >= since;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'chat_telemetry') THEN
+    RAISE NOTICE 'chat_telemetry table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'chat_telemetry table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.routines WHERE routine_name = 'get_response_time_stats') THEN
+    RAISE NOTICE 'get_response_time_stats function: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'get_response_time_stats function: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,209 @@
+/*
+  # Golden question sets and evaluation runs
+
+  1. New Tables
+    - `eval_sets` - named golden question sets of a project
+      - `id` (uuid, primary key)
+      - `project_id` (uuid, references projects)
+      - `user_id` (uuid, references auth.users) - the project owner
+      - `name` (text)
+      - `description` (text, nullable)
+    - `eval_cases` - golden questions
+      - `id` (uuid, primary key)
+      - `set_id` (uuid, references eval_sets)
+      - `project_id`, `user_id`
+      - `question` (text)
+      - `expected_source_ids` (uuid[]) - contexts, products, ... the answer should be retrieved from
+      - `expected_answer` (text, nullable) - null scores retrieval only
+    - `eval_runs` - one replay of a set through retrieval and generation (run-evaluation)
+      - `id` (uuid, primary key)
+      - `set_id` (uuid, references eval_sets)
+      - `project_id`, `user_id`
+      - `status` (text) - running, completed or failed
+      - `settings` (jsonb) - retrieval and generation settings the run used, for comparing runs
+      - `search_mode`, `provider`, `model` (text)
+      - `k` (integer) - retrieval depth recall is measured at
+      - `case_count` (integer)
+      - `recall_at_k`, `mrr`, `answer_match` (float, nullable) - null when no case has what the metric needs
+      - `error` (text, nullable)
+      - `started_at`, `completed_at` (timestamptz)
+    - `eval_run_results` - per-question scores of a run
+      - `id` (uuid, primary key)
+      - `run_id` (uuid, references eval_runs)
+      - `case_id` (uuid, nullable, references eval_cases) - kept as null when the case is deleted later
+      - `project_id`, `user_id`
+      - `question` (text) - as asked in the run
+      - `retrieved_source_ids` (uuid[])
+      - `recall`, `reciprocal_rank`, `answer_match` (float, nullable)
+      - `response` (text, nullable)
+      - `latency_ms` (integer)
+      - `error` (text, nullable)
+
+  2. Security
+    - Enable RLS on all four tables
+    - Users can manage golden sets and questions of their own projects
+    - Users can view and delete their own runs and results
+    - Only the service role (run-evaluation) can record runs and results
+*/
+
+CREATE TABLE IF NOT EXISTS eval_sets (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS eval_cases (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  set_id uuid NOT NULL REFERENCES eval_sets(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question text NOT NULL CHECK (char_length(question) > 0),
+  expected_source_ids uuid[] NOT NULL DEFAULT '{}',
+  expected_answer text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS eval_runs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  set_id uuid NOT NULL REFERENCES eval_sets(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  settings jsonb NOT NULL DEFAULT '{}',
+  search_mode text NOT NULL CHECK (search_mode IN ('vector', 'keyword', 'hybrid')),
+  provider text,
+  model text,
+  k integer NOT NULL CHECK (k > 0),
+  case_count integer NOT NULL DEFAULT 0,
+  recall_at_k float,
+  mrr float,
+  answer_match float,
+  error text,
+  started_at timestamptz DEFAULT now(),
+  completed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS eval_run_results (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  run_id uuid NOT NULL REFERENCES eval_runs(id) ON DELETE CASCADE,
+  case_id uuid REFERENCES eval_cases(id) ON DELETE SET NULL,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  question text NOT NULL,
+  retrieved_source_ids uuid[] NOT NULL DEFAULT '{}',
+  recall float,
+  reciprocal_rank float,
+  answer_match float,
+  response text,
+  latency_ms integer NOT NULL DEFAULT 0,
+  error text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS eval_sets_project_idx ON eval_sets(project_id);
+CREATE INDEX IF NOT EXISTS eval_cases_set_idx ON eval_cases(set_id, created_at);
+CREATE INDEX IF NOT EXISTS eval_runs_set_idx ON eval_runs(set_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS eval_run_results_run_idx ON eval_run_results(run_id);
+
+-- Enable RLS
+ALTER TABLE eval_sets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE eval_cases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE eval_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE eval_run_results ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for eval_sets
+CREATE POLICY "Users can create own eval sets"
+  ON eval_sets FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view own eval sets"
+  ON eval_sets FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own eval sets"
+  ON eval_sets FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own eval sets"
+  ON eval_sets FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create RLS policies for eval_cases
+CREATE POLICY "Users can create own eval cases"
+  ON eval_cases FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM eval_sets s WHERE s.id = eval_cases.set_id AND s.project_id = eval_cases.project_id AND s.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can view own eval cases"
+  ON eval_cases FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own eval cases"
+  ON eval_cases FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own eval cases"
+  ON eval_cases FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Create RLS policies for eval_runs
+CREATE POLICY "Users can view own eval runs"
+  ON eval_runs FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own eval runs"
+  ON eval_runs FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can manage eval runs for users"
+  ON eval_runs FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create RLS policies for eval_run_results
+CREATE POLICY "Users can view own eval run results"
+  ON eval_run_results FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can insert eval run results for users"
+  ON eval_run_results FOR INSERT TO service_role
+  WITH CHECK (true);
+
+-- Create triggers for updated_at
+CREATE TRIGGER update_eval_sets_updated_at
+  BEFORE UPDATE ON eval_sets
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_eval_cases_updated_at
+  BEFORE UPDATE ON eval_cases
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'eval_sets')
+    AND EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'eval_cases') THEN
+    RAISE NOTICE 'eval_sets and eval_cases tables: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'eval_sets and eval_cases tables: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'eval_runs')
+    AND EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'eval_run_results') THEN
+    RAISE NOTICE 'eval_runs and eval_run_results tables: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'eval_runs and eval_run_results tables: ❌ NOT CREATED';
+  END IF;
+END $$;
@@ -0,0 +1,35 @@
+/*
+  # Keep project settings on projects the user owns
+
+  1. Security
+    - The update policy on `project_settings` only checked the row before the update, so an owner could
+      move their settings onto another user's project by changing `project_id`. chat-query reads settings
+      with the service role, so that owner's prompt and guardrail settings would then apply to the other
+      project's chatbot.
+    - Replace it with a policy that applies the insert policy's ownership check to the updated row too
+*/
+
+DROP POLICY IF EXISTS "Users can update own project settings" ON project_settings;
+
+CREATE POLICY "Users can update own project settings"
+  ON project_settings FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  );
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'project_settings'
+      AND policyname = 'Users can update own project settings'
+      AND with_check IS NOT NULL
+  ) THEN
+    RAISE NOTICE 'project_settings update policy: ✅ CHECKS PROJECT OWNERSHIP';
+  ELSE
+    RAISE NOTICE 'project_settings update policy: ❌ MISSING WITH CHECK';
+  END IF;
+END $$;
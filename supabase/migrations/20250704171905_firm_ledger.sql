@@ -0,0 +1,111 @@
+/*
+  # Keep account plans out of users' hands
+
+  1. New Tables
+    - `account_plans`
+      - `user_id` (uuid, primary key, references auth.users) - the account
+      - `plan` (text) - personal, creator or business
+    - Existing accounts are seeded with the highest plan of their projects, the plan their quotas were
+      based on until now, so no account loses limits on deploy
+
+  2. Functions
+    - `get_account_plan` reads the account's plan from `account_plans` instead of the highest plan of its
+      projects. Users pick `projects.plan` themselves when creating a project, so it could raise every quota.
+      Accounts without a row are on personal.
+    - `enforce_project_quota` checks new projects against the account plan alone; the plan picked for the
+      new project no longer raises the quota
+
+  3. Security
+    - Enable RLS on `account_plans`
+    - Authenticated users can read their own plan
+    - Only the service role (billing) can set plans
+*/
+
+CREATE TABLE IF NOT EXISTS account_plans (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  plan text NOT NULL DEFAULT 'personal' CHECK (plan IN ('personal', 'creator', 'business')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Keep each existing account on the plan its quotas came from
+INSERT INTO account_plans (user_id, plan)
+SELECT DISTINCT ON (p.user_id) p.user_id, p.plan
+FROM projects p
+ORDER BY p.user_id, array_position(ARRAY['personal', 'creator', 'business'], p.plan) DESC
+ON CONFLICT (user_id) DO NOTHING;
+
+-- Enable RLS
+ALTER TABLE account_plans ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for account_plans
+CREATE POLICY "Users can view own account plan"
+  ON account_plans FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Service can manage account plans"
+  ON account_plans FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Create trigger for updated_at
+CREATE TRIGGER update_account_plans_updated_at
+  BEFORE UPDATE ON account_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- The plan billing set for the account
+CREATE OR REPLACE FUNCTION get_account_plan(account_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    (SELECT a.plan FROM account_plans a WHERE a.user_id = account_id),
+    'personal'
+  );
+$$;
+
+-- Refuse projects over the account's project quota
+CREATE OR REPLACE FUNCTION enforce_project_quota()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_quota integer;
+  project_count bigint;
+BEGIN
+  SELECT max_projects INTO project_quota FROM plan_quotas WHERE plan = get_account_plan(NEW.user_id);
+  SELECT count(*) INTO project_count FROM projects WHERE user_id = NEW.user_id;
+
+  IF project_quota IS NOT NULL AND project_count >= project_quota THEN
+    RAISE EXCEPTION 'Your plan allows up to % projects. Delete a project or upgrade your plan to create another.', project_quota
+      USING HINT = 'quota_exceeded';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'account_plans') THEN
+    RAISE NOTICE 'account_plans table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'account_plans table: ❌ NOT CREATED';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_policies
+    WHERE tablename = 'account_plans'
+      AND 'authenticated' = ANY(roles)
+      AND cmd <> 'SELECT'
+  ) THEN
+    RAISE NOTICE 'account_plans writes: ✅ SERVICE ROLE ONLY';
+  ELSE
+    RAISE NOTICE 'account_plans writes: ❌ OPEN TO USERS';
+  END IF;
+END $$;
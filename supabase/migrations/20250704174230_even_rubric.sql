@@ -0,0 +1,44 @@
+/*
+  # Keep evaluation sets and cases on projects the user owns
+
+  1. Security
+    - The update policies on `eval_sets` and `eval_cases` only checked the row before the update, so an
+      owner could move a set onto another user's project, or a case into another user's set, by changing
+      `project_id` or `set_id`
+    - Replace them with policies that apply the insert policies' ownership checks to the updated row too
+*/
+
+DROP POLICY IF EXISTS "Users can update own eval sets" ON eval_sets;
+
+CREATE POLICY "Users can update own eval sets"
+  ON eval_sets FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Users can update own eval cases" ON eval_cases;
+
+CREATE POLICY "Users can update own eval cases"
+  ON eval_cases FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM eval_sets s WHERE s.id = eval_cases.set_id AND s.project_id = eval_cases.project_id AND s.user_id = auth.uid())
+  );
+
+-- Verification
+DO $$
+BEGIN
+  IF (
+    SELECT count(*) FROM pg_policies
+    WHERE tablename IN ('eval_sets', 'eval_cases')
+      AND policyname IN ('Users can update own eval sets', 'Users can update own eval cases')
+      AND with_check IS NOT NULL
+  ) = 2 THEN
+    RAISE NOTICE 'eval update policies: ✅ CHECK OWNERSHIP';
+  ELSE
+    RAISE NOTICE 'eval update policies: ❌ MISSING WITH CHECK';
+  END IF;
+END $$;
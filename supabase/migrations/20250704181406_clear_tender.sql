@@ -0,0 +1,24 @@
+/*
+  # Store the currency of product prices
+
+  1. Changes
+    - `products`
+      - `currency` (text) - ISO 4217 code of `price`, defaults to USD so existing products keep showing
+        the dollar prices they were entered as
+*/
+
+ALTER TABLE products
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'products' AND column_name = 'currency'
+  ) THEN
+    RAISE NOTICE 'products.currency column: ✅ ADDED';
+  ELSE
+    RAISE NOTICE 'products.currency column: ❌ NOT ADDED';
+  END IF;
+END $$;
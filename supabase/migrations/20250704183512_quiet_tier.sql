@@ -0,0 +1,97 @@
+/*
+  # Take chat rate limits from the account plan
+
+  1. Functions
+    - `check_chat_rate_limit` looked up the limits of the plan it was passed, which chat-query read from
+      `projects.plan`. Owners set that column themselves, so any project could get the business limits.
+      It now takes the limits of the project owner's account plan (`get_account_plan`), the same plan the
+      quotas use, and no longer accepts a plan from the caller.
+
+  2. Security
+    - Only the service role (chat-query) can count messages against the limits
+*/
+
+DROP FUNCTION IF EXISTS check_chat_rate_limit(uuid, text, text);
+
+-- Count a chat message against the client and project limits of the owner's plan
+CREATE OR REPLACE FUNCTION check_chat_rate_limit(
+  filter_project_id uuid,
+  client_key text
+)
+RETURNS TABLE (
+  allowed boolean,
+  limit_scope text,
+  limit_window text,
+  limit_value integer,
+  retry_after_seconds integer
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  limits plan_rate_limits%ROWTYPE;
+  minute_start timestamptz := date_trunc('minute', now());
+  minute_end timestamptz := date_trunc('minute', now()) + interval '1 minute';
+  day_start timestamptz := date_trunc('day', now());
+  day_end timestamptz := date_trunc('day', now()) + interval '1 day';
+  client_bucket text := 'client:' || filter_project_id || ':' || client_key;
+  project_bucket text := 'project:' || filter_project_id;
+BEGIN
+  SELECT l.* INTO limits
+  FROM projects p
+  JOIN plan_rate_limits l ON l.plan = get_account_plan(p.user_id)
+  WHERE p.id = filter_project_id;
+
+  -- Plans without a row are not limited
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT true, NULL::text, NULL::text, NULL::integer, 0;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(client_bucket || ':minute', minute_start, minute_end) > limits.client_per_minute THEN
+    RETURN QUERY SELECT false, 'client'::text, 'minute'::text, limits.client_per_minute,
+      ceil(extract(epoch FROM minute_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(client_bucket || ':day', day_start, day_end) > limits.client_per_day THEN
+    RETURN QUERY SELECT false, 'client'::text, 'day'::text, limits.client_per_day,
+      ceil(extract(epoch FROM day_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(project_bucket || ':minute', minute_start, minute_end) > limits.project_per_minute THEN
+    RETURN QUERY SELECT false, 'project'::text, 'minute'::text, limits.project_per_minute,
+      ceil(extract(epoch FROM minute_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  IF increment_rate_limit_counter(project_bucket || ':day', day_start, day_end) > limits.project_per_day THEN
+    RETURN QUERY SELECT false, 'project'::text, 'day'::text, limits.project_per_day,
+      ceil(extract(epoch FROM day_end - now()))::integer;
+    RETURN;
+  END IF;
+
+  -- Occasionally drop windows that ended, instead of needing a scheduled job
+  IF random() < 0.01 THEN
+    DELETE FROM rate_limit_counters WHERE expires_at < now();
+  END IF;
+
+  RETURN QUERY SELECT true, NULL::text, NULL::text, NULL::integer, 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION check_chat_rate_limit(uuid, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION check_chat_rate_limit(uuid, text) TO service_role;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.parameters
+    WHERE specific_name LIKE 'check_chat_rate_limit%' AND parameter_name = 'project_plan'
+  ) THEN
+    RAISE NOTICE 'check_chat_rate_limit plan argument: ❌ STILL ACCEPTED';
+  ELSE
+    RAISE NOTICE 'check_chat_rate_limit plan argument: ✅ REMOVED';
+  END IF;
+END $$;
@@ -0,0 +1,43 @@
+/*
+  # Limit project generation models to the supported ones
+
+  1. Changes
+    - `project_settings.generation_model` was free text. Chat requests run on the deployment's API key or
+      service account, and the model name goes into the provider's URL, so any name let a project call
+      another endpoint or bill the deployment for any model.
+    - Models that are not on the supported list of the project's provider are cleared (the provider's
+      default applies), and a check constraint keeps them to that list (mirrored as GENERATION_MODELS in
+      supabase/functions/_shared/providers.ts and lib/models.ts)
+    - A model can only be chosen together with a provider
+*/
+
+UPDATE project_settings
+SET generation_model = NULL
+WHERE generation_model IS NOT NULL
+  AND NOT (
+    (llm_provider IN ('vertex', 'gemini') AND generation_model IN ('gemini-2.0-flash-001', 'gemini-2.0-flash-lite-001'))
+    OR (llm_provider = 'openai' AND generation_model IN ('gpt-4o-mini', 'gpt-4.1-mini'))
+  );
+
+ALTER TABLE project_settings
+  DROP CONSTRAINT IF EXISTS project_settings_generation_model_check;
+
+ALTER TABLE project_settings
+  ADD CONSTRAINT project_settings_generation_model_check CHECK (
+    generation_model IS NULL
+    OR (llm_provider IN ('vertex', 'gemini') AND generation_model IN ('gemini-2.0-flash-001', 'gemini-2.0-flash-lite-001'))
+    OR (llm_provider = 'openai' AND generation_model IN ('gpt-4o-mini', 'gpt-4.1-mini'))
+  );
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'project_settings' AND constraint_name = 'project_settings_generation_model_check'
+  ) THEN
+    RAISE NOTICE 'project_settings generation model: ✅ LIMITED TO SUPPORTED MODELS';
+  ELSE
+    RAISE NOTICE 'project_settings generation model: ❌ UNRESTRICTED';
+  END IF;
+END $$;
@@ -0,0 +1,140 @@
+/*
+  # Keep the languages of each knowledge base up to date
+
+  1. New Tables
+    - `knowledge_languages`
+      - `project_id` (uuid, references projects)
+      - `language` (text) - language code of the chunks, empty for chunks without one
+      - `chunks` (bigint) - embedded chunks in that language
+
+  2. Functions
+    - `get_knowledge_languages` counted every embedding of the project on each chat turn. It now reads the
+      stored counts, which a trigger on `embeddings` keeps in step as chunks are added, removed or change
+      language. Chunks without a language still count as the fallback language.
+    - Existing embeddings are counted once here
+
+  3. Security
+    - Enable RLS on `knowledge_languages`
+    - Authenticated users can read the counts of their own projects
+    - Only the counting trigger and the service role write them
+*/
+
+CREATE TABLE IF NOT EXISTS knowledge_languages (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  language text NOT NULL DEFAULT '',
+  chunks bigint NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now(),
+  PRIMARY KEY (project_id, language)
+);
+
+INSERT INTO knowledge_languages (project_id, language, chunks)
+SELECT e.project_id, coalesce(e.metadata->>'language', ''), count(*)
+FROM embeddings e
+WHERE e.project_id IS NOT NULL
+GROUP BY 1, 2
+ON CONFLICT (project_id, language) DO UPDATE SET chunks = EXCLUDED.chunks, updated_at = now();
+
+-- Enable RLS
+ALTER TABLE knowledge_languages ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for knowledge_languages
+CREATE POLICY "Users can view own knowledge languages"
+  ON knowledge_languages FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM projects p WHERE p.id = project_id AND p.user_id = auth.uid()));
+
+CREATE POLICY "Service can manage knowledge languages"
+  ON knowledge_languages FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+-- Count a chunk in or out of its project's language
+CREATE OR REPLACE FUNCTION adjust_knowledge_language(
+  target_project_id uuid,
+  target_language text,
+  delta integer
+)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO knowledge_languages (project_id, language, chunks)
+  VALUES (target_project_id, coalesce(target_language, ''), greatest(delta, 0))
+  ON CONFLICT (project_id, language)
+  DO UPDATE SET chunks = greatest(knowledge_languages.chunks + delta, 0), updated_at = now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION adjust_knowledge_language(uuid, text, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION count_knowledge_language()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.project_id IS NOT NULL THEN
+    PERFORM adjust_knowledge_language(OLD.project_id, OLD.metadata->>'language', -1);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.project_id IS NOT NULL THEN
+    PERFORM adjust_knowledge_language(NEW.project_id, NEW.metadata->>'language', 1);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS count_knowledge_language ON embeddings;
+CREATE TRIGGER count_knowledge_language
+  AFTER INSERT OR DELETE ON embeddings
+  FOR EACH ROW
+  EXECUTE FUNCTION count_knowledge_language();
+
+DROP TRIGGER IF EXISTS count_knowledge_language_change ON embeddings;
+CREATE TRIGGER count_knowledge_language_change
+  AFTER UPDATE OF metadata, project_id ON embeddings
+  FOR EACH ROW
+  WHEN (
+    OLD.metadata->>'language' IS DISTINCT FROM NEW.metadata->>'language'
+    OR OLD.project_id IS DISTINCT FROM NEW.project_id
+  )
+  EXECUTE FUNCTION count_knowledge_language();
+
+-- Chunks per language of a project's knowledge base, most common first
+CREATE OR REPLACE FUNCTION get_knowledge_languages(
+  filter_project_id uuid,
+  fallback_language text DEFAULT 'en'
+)
+RETURNS TABLE (
+  language text,
+  chunks bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    coalesce(nullif(k.language, ''), fallback_language) AS language,
+    sum(k.chunks)::bigint AS chunks
+  FROM knowledge_languages k
+  WHERE k.project_id = filter_project_id
+    AND k.chunks > 0
+  GROUP BY 1
+  ORDER BY 2 DESC;
+$$;
+
+-- Verification
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM information_schema.tables WHERE table_name = 'knowledge_languages') THEN
+    RAISE NOTICE 'knowledge_languages table: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'knowledge_languages table: ❌ NOT CREATED';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM information_schema.triggers WHERE trigger_name = 'count_knowledge_language') THEN
+    RAISE NOTICE 'knowledge language trigger: ✅ CREATED';
+  ELSE
+    RAISE NOTICE 'knowledge language trigger: ❌ NOT CREATED';
+  END IF;
+END $$;